@@ -0,0 +1,24 @@
+/**
+ * Reminders service worker
+ *
+ * Passes the actions of reminder notifications on to the app, opening it if no tab is left.
+ */
+self.addEventListener('notificationclick', ($event) => {
+    const notification = $event.notification;
+
+    notification.close();
+
+    $event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+            const message = { action: $event.action, reminder: notification.data, type: 'reminder' };
+
+            if (clients.length) {
+                // Let the first tab handle the action and bring it to the front.
+                clients[0].postMessage(message);
+                return clients[0].focus();
+            }
+
+            return self.clients.openWindow(self.registration.scope);
+        })
+    );
+});
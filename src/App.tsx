@@ -2,19 +2,36 @@ import React from 'react';
 import PreferencesManager from './preferences.manager';
 import Landing from './components/Landing/Landing';
 import Slide from './Slide';
-import SnackbarContext from './snackbar.provider';
+import SnackbarContext, { SnackbarAction, SnackbarMessage } from './snackbar.provider';
 import Snackbar from './components/Snackbar/Snackbar';
-import Storage from './storage';
+import Storage, { prefixKey, transferStorage } from './storage';
+import StorageContext from './storage.provider';
+import LocalStorage from './storage.local';
+import IndexedDBStorage from './storage.indexeddb';
+import MemoryStorage from './storage.memory';
+import SyncedStorage, { StorageChange } from './storage.synced';
+import { purgeTrash, setTaskDone, updateChecklist } from './checklists';
 import { debounce } from './helpers';
+import { isChecklistData, runMigrations } from './migrations';
+import { REMINDER_PREFIX } from './prefixes';
+import ReminderScheduler, { Reminder } from './reminders';
+import { runRecurrences } from './recurrence';
+import { parseRoute, Route, RouteState, routePath } from './router';
 import { ChecklistData } from './types';
 
 import './App.scss';
 
+type SlideEntry = {
+    data: ChecklistData | null; // Slide data.
+    key: number; // Unique key, so React keeps each slide apart.
+    name: string; // Slide name.
+    task?: number; // Id of the task the slide scrolls to, if any.
+};
+
 type AppState = {
-    activeSlide: string | null;
     landingData: ChecklistData[];
-    messages: string[];
-    slideData: ChecklistData | null;
+    messages: SnackbarMessage[];
+    stack: SlideEntry[];
 };
 
 /**
@@ -23,77 +40,401 @@ type AppState = {
  * @export
  * @class App
  * @extends {React.Component<{}, AppState>}
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class App extends React.Component<{}, AppState> {
     appContainer: HTMLElement | null = null; // App container element.
-    landingActive: boolean = true; // Whether the Landing is currently visible.
+    depth: number = 0; // Number of slides stacked on top of the Landing, `0` while the Landing is visible.
     landingData: ChecklistData[] = []; // Checklist data for the Landing slide.
+    recurrenceTimer: number | null = null; // Checks for recurring checklists again at midnight.
+    reminders: ReminderScheduler | null = null; // Shows reminders for due checklists and tasks, once storage is ready.
+    slideKey: number = 0; // Counter used to create unique slide keys.
     slidesContainer: HTMLElement | null = null; // Slides container element.
     slideWidth: number = 0; // Holds the slide width for further calculations.
-    storage: Storage = new Storage('checklist'); // Manages localStorage.
+    storage: SyncedStorage = new SyncedStorage(this.createStorage()); // Storage adapter shared with all components.
+    unsubscribe: (() => void) | null = null; // Stops listening to changes made in other tabs.
     styles: CSSStyleDeclaration | null = null; // Holds the slides CSS styles.
 
-    state = { activeSlide: null, landingData: [], messages: [], slideData: null };
+    state: AppState = { landingData: [], messages: [], stack: [] };
+
+    /**
+     * createStorage
+     *
+     * Choose the storage adapter for the app.
+     * Prefers IndexedDB and falls back to localStorage, or memory if neither is available.
+     * IndexedDB is skipped in browsers that can't tell the other tabs about its changes.
+     *
+     * @return {*} {Storage}
+     * @memberof App
+     * @since 1.1.0
+     */
+    createStorage(): Storage {
+        if (window.indexedDB) {
+            const adapter = new IndexedDBStorage('checklist');
+
+            if (SyncedStorage.isSupported(adapter)) {
+                return adapter;
+            }
+        }
+
+        try {
+            // Accessing localStorage throws if the browser blocks it.
+            return window.localStorage ? new LocalStorage('checklist') : new MemoryStorage('checklist');
+        } catch (error) {
+            return new MemoryStorage('checklist');
+        }
+    }
+
+    /**
+     * prepareStorage
+     *
+     * Move checklists saved by earlier versions of the app from localStorage over to IndexedDB.
+     * Falls back to localStorage if IndexedDB turns out to be unusable, e.g. in some private browsing modes.
+     *
+     * @memberof App
+     * @since 1.1.0
+     */
+    prepareStorage = async () => {
+        if (!(this.storage.adapter instanceof IndexedDBStorage)) return;
+
+        try {
+            await transferStorage(new LocalStorage('checklist'), this.storage.adapter);
+        } catch (error) {
+            this.storage.adapter = new LocalStorage('checklist');
+        }
+    };
+
+    /**
+     * handleRemoteChange
+     *
+     * Follow changes another tab made to a checklist, so the Landing and any open slides never show stale data.
+     * Lets the user know if the checklist they are looking at changed.
+     *
+     * @param {StorageChange} change The change made in the other tab
+     * @memberof App
+     * @since 1.1.0
+     */
+    handleRemoteChange = async (change: StorageChange) => {
+        // Check whether one of the open slides shows the changed checklist.
+        const isOpen = this.state.stack.some(
+            (entry) => entry.data && prefixKey(this.storage.prefix, entry.data.id.toString()) === change.key
+        );
+
+        if (change.removed) {
+            // Reload the Landing data without the removed checklist and drop its reminders.
+            await this.getLandingData();
+            this.scheduleReminders();
+
+            if (isOpen) {
+                // There is nothing left to show, return to the Landing slide.
+                this.goHome();
+                this.showMessage('This checklist was removed in another tab');
+            }
+        } else {
+            const data = await this.storage.get(change.key);
+
+            // Ignore records that aren't checklists.
+            if (!isChecklistData(data)) return;
+
+            // Update the Landing data as well as any open slides.
+            this.updateLandingData(data);
+
+            if (isOpen && data.deleted) {
+                // Checklists in the trash can't be shown, return to the Landing slide.
+                this.goHome();
+                this.showMessage('This checklist was moved to the trash in another tab');
+            } else if (isOpen) {
+                this.showMessage('This checklist was changed in another tab');
+            }
+        }
+    };
+
+    /**
+     * handlePreferencesChange
+     *
+     * Apply preferences changed in another tab.
+     *
+     * @param {StorageEvent} $event
+     * @memberof App
+     * @since 1.1.0
+     */
+    handlePreferencesChange = ($event: StorageEvent) => {
+        const preferences = new PreferencesManager();
+
+        if (preferences.isSettingKey($event.key)) {
+            preferences.reapplyPreferences();
+        }
+    };
 
     /**
      * openSlide
      *
-     * Open the given slide with the supplied data.
+     * Open the given slide with the supplied data on top of the current one and add it to the browser history.
      *
      * @param {string} name Slide name
      * @param {(ChecklistData | null)} [data=null] Slide data
+     * @param {number} [task] Id of the task the slide scrolls to
      * @memberof App
      * @since 1.0.0
      */
-    openSlide = (name: string, data: ChecklistData | null = null) => {
-        // Update our state with the active slide and its data.
-        this.setState({ activeSlide: name, slideData: data });
+    openSlide = (name: string, data: ChecklistData | null = null, task?: number) => {
+        // Create a history entry, so the URL can be shared and the browser back button returns to the previous slide.
+        const state: RouteState = { depth: this.depth + 1 };
+        window.history.pushState(state, '', routePath(name, data, task));
 
-        // Show the newly created slide.
-        this.slideLeft();
+        // Show the requested slide.
+        this.pushSlide(name, data, task);
+    };
+
+    /**
+     * pushSlide
+     *
+     * Add the given slide to the top of the navigation stack and move it into view.
+     * Does not touch the browser history.
+     *
+     * @param {string} name Slide name
+     * @param {(ChecklistData | null)} [data=null] Slide data
+     * @param {number} [task] Id of the task the slide scrolls to
+     * @memberof App
+     * @since 1.1.0
+     */
+    pushSlide = (name: string, data: ChecklistData | null = null, task?: number) => {
+        const entry: SlideEntry = { data: data, key: ++this.slideKey, name: name, task: task };
+
+        // The new slide sits on the next level.
+        this.depth++;
+
+        // Drop any slides still waiting to be removed after a transition and add the new one.
+        // Once it has been rendered, move it into view.
+        this.setState(
+            (state) => ({ stack: state.stack.slice(0, this.depth - 1).concat(entry) }),
+            () => this.slideTo(this.depth)
+        );
+    };
+
+    /**
+     * popSlides
+     *
+     * Remove the given number of slides from the top of the navigation stack.
+     * Does not touch the browser history.
+     *
+     * @param {number} [count=1] Number of slides to remove
+     * @memberof App
+     * @since 1.1.0
+     */
+    popSlides = (count: number = 1) => {
+        // Never move further back than the Landing slide.
+        this.depth = Math.max(this.depth - count, 0);
+
+        // Move the previous slide into view.
+        this.slideTo(this.depth);
+
+        // Update the state after the slide transition is done.
+        setTimeout(() => this.setState((state) => ({ stack: state.stack.slice(0, this.depth) })), 360);
+    };
+
+    /**
+     * openRoute
+     *
+     * Show the slide belonging to the given route on top of the Landing slide.
+     * Routes pointing to unknown paths or checklists show the `notfound` slide.
+     *
+     * @param {(Route | null)} route The route to show
+     * @memberof App
+     * @since 1.1.0
+     */
+    openRoute = (route: Route | null) => {
+        if (!route) {
+            // The path does not belong to any slide.
+            this.pushSlide('notfound');
+        } else if (route.id === null) {
+            // The slide does not need any checklist data.
+            this.pushSlide(route.name!);
+        } else {
+            // Look up the checklist the slide needs.
+            // Checklists in the trash can't be opened.
+            const data = this.state.landingData.find((current) => current.id === route.id && !current.deleted);
+
+            if (data) {
+                this.pushSlide(route.name!, data, route.task);
+            } else {
+                this.pushSlide('notfound');
+            }
+        }
+    };
+
+    /**
+     * openInitialRoute
+     *
+     * Show the slide the URL points to when the app is opened.
+     * A history entry for the Landing slide is added beneath it, so going back stays inside the app.
+     *
+     * @memberof App
+     * @since 1.1.0
+     */
+    openInitialRoute = () => {
+        const path = window.location.pathname;
+        const route = parseRoute(path, window.location.hash);
+
+        // Nothing to do for the Landing slide.
+        if (route && !route.name) {
+            window.history.replaceState({ depth: 0 } as RouteState, '', path);
+            return;
+        }
+
+        window.history.replaceState({ depth: 0 } as RouteState, '', routePath(null));
+        window.history.pushState({ depth: 1 } as RouteState, '', path + window.location.hash);
+
+        this.openRoute(route);
+    };
+
+    /**
+     * handlePopState
+     *
+     * Follow the browser back and forward buttons.
+     * Moving back removes slides from the stack, moving forward opens the slide for the current URL again.
+     *
+     * @memberof App
+     * @since 1.1.0
+     */
+    handlePopState = () => {
+        const state = window.history.state as RouteState | null;
+        const depth = state ? state.depth : 0;
+
+        if (depth < this.depth) {
+            this.popSlides(this.depth - depth);
+        } else if (depth > this.depth) {
+            this.openRoute(parseRoute(window.location.pathname, window.location.hash));
+        }
     };
 
     /**
      * getLandingData
      *
-     * Retrieve the Landing data from localStorage.
+     * Retrieve the Landing data from storage.
      *
      * @memberof App
      * @since 1.0.0
      */
-    getLandingData = () => {
+    getLandingData = async () => {
         // We make sure to reset the array for each call.
         this.landingData = [];
 
-        // Find all keys in storage.
-        this.storage.keys().then((keys) => {
-            if (keys && keys.length) {
-                // Loop over each available key.
-                for (const key of keys) {
-                    // Use each key to look up its value.
-                    this.storage
-                        .get(key)
-                        .then((data) => {
-                            // Push the found checklist data to our array.
-                            this.landingData.push(data as ChecklistData);
-                        })
-                        .then(() => {
-                            // Update the state Landing data.
-                            this.setState({
-                                landingData: this.landingData,
-                            });
-                        });
-                }
-            } else {
-                // This simply resets the Landing data as the array will be empty.
-                this.setState({
-                    landingData: this.landingData,
-                });
+        // Loop over all keys in storage and use each key to look up its value.
+        for (const key of await this.storage.keys()) {
+            const data = await this.storage.get(key);
+
+            // Push the found checklist data to our array.
+            // Records that failed to migrate are skipped, they stay in storage untouched.
+            if (isChecklistData(data)) {
+                this.landingData.push(data);
             }
+        }
+
+        // Update the state Landing data.
+        this.setState({
+            landingData: this.landingData,
         });
     };
 
+    /**
+     * recoverStartup
+     *
+     * Load whatever checklists can still be read after a step of the startup failed, and let the user know.
+     *
+     * @memberof App
+     * @since 1.1.0
+     */
+    recoverStartup = async () => {
+        this.showMessage('Some of your checklists could not be loaded');
+
+        try {
+            await this.getLandingData();
+
+            // Show the slide the URL points to, unless the startup got that far already.
+            if (!this.depth) {
+                this.openInitialRoute();
+            }
+
+            this.scheduleReminders();
+        } catch (error) {
+            // Storage can't be read at all, keep the empty Landing slide.
+        }
+    };
+
+    /**
+     * migrateData
+     *
+     * Upgrade stored checklists to the current schema version before they are loaded.
+     * Lets the user know about any checklist that could not be upgraded.
+     *
+     * @memberof App
+     * @since 1.1.0
+     */
+    migrateData = async () => {
+        const report = await runMigrations(this.storage);
+
+        if (report.failed.length) {
+            this.showMessage(
+                report.failed.length === 1
+                    ? 'One checklist could not be upgraded and is hidden for now'
+                    : `${report.failed.length} checklists could not be upgraded and are hidden for now`
+            );
+        }
+    };
+
+    /**
+     * cleanUpTrash
+     *
+     * Permanently delete the checklists that stayed in the trash for longer than the retention period the user chose.
+     *
+     * @memberof App
+     * @since 1.1.0
+     */
+    cleanUpTrash = async () => {
+        const days = new PreferencesManager().getRetention();
+
+        if (days !== null) {
+            await purgeTrash(this.storage, days);
+        }
+    };
+
+    /**
+     * repeatChecklists
+     *
+     * Reset or copy the recurring checklists whose next occurrence has come,
+     * then check again at the next midnight.
+     *
+     * @memberof App
+     * @since 1.1.0
+     */
+    repeatChecklists = async () => {
+        const saved = await runRecurrences(this.storage, this.state.landingData);
+
+        if (saved.length) {
+            // Reload the Landing data and update the open slides showing a checklist that started over.
+            await this.getLandingData();
+
+            this.setState((state) => ({
+                stack: state.stack.map((entry) => {
+                    const data = saved.find((current) => entry.data && current.id === entry.data.id);
+
+                    return data ? { ...entry, data: data } : entry;
+                }),
+            }));
+        }
+
+        // Wait for the next day to begin.
+        const now = new Date();
+        const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+
+        if (this.recurrenceTimer !== null) window.clearTimeout(this.recurrenceTimer);
+
+        this.recurrenceTimer = window.setTimeout(() => {
+            this.repeatChecklists().then(this.scheduleReminders);
+        }, midnight - now.getTime());
+    };
+
     /**
      * updateLandingData
      *
@@ -106,7 +447,7 @@ export default class App extends React.Component<{}, AppState> {
     updateLandingData = (data?: ChecklistData) => {
         if (data) {
             // Create new array holding the current data.
-            const currentData = this.state.landingData as ChecklistData[];
+            const currentData = this.state.landingData.slice();
 
             // See if the current data already exists in the array.
             const index = currentData.findIndex((current) => current.id === data.id);
@@ -119,16 +460,90 @@ export default class App extends React.Component<{}, AppState> {
                 currentData.push(data);
             }
 
-            // Update our state Landing data.
-            this.setState({
-                landingData: currentData,
-            });
+            // Update our state Landing data, as well as the data of every open slide showing the same checklist.
+            // Reminders follow the new due dates.
+            this.setState(
+                (state) => ({
+                    landingData: currentData,
+                    stack: state.stack.map((entry) =>
+                        entry.data && entry.data.id === data.id ? { ...entry, data: data } : entry
+                    ),
+                }),
+                this.scheduleReminders
+            );
         } else {
             // If no update data is present, refresh existing data.
-            this.getLandingData();
+            this.getLandingData().then(this.scheduleReminders);
         }
     };
 
+    /**
+     * scheduleReminders
+     *
+     * Bring the reminders in line with the current checklists.
+     * The scheduler is created on first use, once the storage adapter has been settled on.
+     *
+     * @memberof App
+     * @since 1.1.0
+     */
+    scheduleReminders = () => {
+        if (!this.reminders) {
+            this.reminders = new ReminderScheduler(
+                this.storage.scope(REMINDER_PREFIX),
+                this.completeReminder,
+                this.showReminder
+            );
+        }
+
+        return this.reminders.sync(this.state.landingData);
+    };
+
+    /**
+     * showReminder
+     *
+     * Show a reminder as a Snackbar message, for when notifications are not allowed.
+     *
+     * @param {Reminder} reminder The due reminder
+     * @memberof App
+     * @since 1.1.0
+     */
+    showReminder = (reminder: Reminder) => {
+        this.showMessage(`Reminder: ${reminder.text} is due`, {
+            label: 'Mark done',
+            onClick: () => this.completeReminder(reminder),
+        });
+    };
+
+    /**
+     * completeReminder
+     *
+     * Mark the task of the given reminder as done, or the whole checklist if the checklist itself was due.
+     *
+     * @param {Reminder} reminder The reminder to complete
+     * @memberof App
+     * @since 1.1.0
+     */
+    completeReminder = (reminder: Reminder) => {
+        const data = this.state.landingData.find((current) => current.id === reminder.checklistId && !current.deleted);
+
+        if (!data) return;
+
+        const update = (current: ChecklistData): ChecklistData =>
+            reminder.taskId === null
+                ? Object.assign({}, current, {
+                      complete: true,
+                      tasks: current.tasks.map((task) =>
+                          task.done ? task : Object.assign({}, task, { done: true, doneTime: Date.now() })
+                      ),
+                  })
+                : Object.assign({}, current, { tasks: setTaskDone(current.tasks, reminder.taskId, true) });
+
+        updateChecklist(this.storage, data, update).then((updateData) => {
+            this.updateLandingData(updateData);
+            this.showMessage(`${reminder.text} marked as done`);
+        });
+    };
+
     /**
      * showMessage
      *
@@ -136,13 +551,14 @@ export default class App extends React.Component<{}, AppState> {
      * Each message is passed to the Snackbar.Provider which then shows the message through the Snackbar component.
      *
      * @param {string} message The message to display
+     * @param {SnackbarAction} [action] Optional action to offer with the message, e.g. `Undo`
      * @memberof App
      * @since 1.0.0
      */
-    showMessage = (message: string) => {
+    showMessage = (message: string, action?: SnackbarAction) => {
         // Add the supplied message to the existing messages stack.
-        const messages = this.state.messages as string[];
-        messages.push(message);
+        const messages = this.state.messages;
+        messages.push({ action: action, text: message });
 
         // Update the state.
         this.setState({
@@ -161,7 +577,7 @@ export default class App extends React.Component<{}, AppState> {
      */
     removeMessage = () => {
         // Remove the first message in order from the messages stack.
-        const messages = this.state.messages as string[];
+        const messages = this.state.messages;
         messages.shift();
 
         // Update the state.
@@ -187,90 +603,82 @@ export default class App extends React.Component<{}, AppState> {
             // Calculate the proper width.
             this.slideWidth = parseFloat(this.styles.width) + parseFloat(this.styles.marginRight);
 
-            // Make sure to properly position the currently displayed slide.
-            if (this.slidesContainer.style.transform.includes('-')) {
-                this.slidesContainer.style.transform = `translateX(-${this.slideWidth}px)`;
-            }
+            // Make sure to properly position the currently displayed slide, on whatever level it is.
+            this.slideTo(this.depth);
         }
     };
 
     /**
-     * slideLeft
-     *
-     * Move all slides to the left.
-     *
-     * @memberof App
-     * @since 1.0.0
-     */
-    slideLeft = () => {
-        this.slidesContainer!.style.transform = `translateX(-${this.slideWidth}px)`;
-    };
-
-    /**
-     * slideRight
+     * slideTo
      *
-     * Move all slides to the right.
+     * Move the slides so the slide on the given level is visible.
+     * Level `0` is the Landing slide.
      *
+     * @param {number} depth The level to show
      * @memberof App
+     * @since 1.1.0
      */
-    slideRight = () => {
-        this.slidesContainer!.style.transform = 'translateX(0px)';
+    slideTo = (depth: number) => {
+        this.slidesContainer!.style.transform = `translateX(-${depth * this.slideWidth}px)`;
     };
 
     /**
-     * goForward
+     * goBack
      *
-     * Called to show the newly introduced Slide.
+     * Called to return to the previous slide.
+     * Steps back through the browser history, the `popstate` event takes care of removing the slide.
      *
      * @memberof App
      * @since 1.0.0
      */
-    goForward = () => {
-        // Move forward, away from the Landing slide.
-        this.slideLeft();
-
-        // Indicate that the Landing is not visible.
-        this.landingActive = false;
+    goBack = () => {
+        if (this.depth > 0) {
+            window.history.back();
+        }
     };
 
     /**
-     * goBack
+     * goHome
      *
-     * Called to return to the Landing slide.
+     * Called to return straight to the Landing slide, closing all slides on the way.
      *
      * @memberof App
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    goBack = () => {
-        // Move back to the Landing slide.
-        this.slideRight();
-
-        // Indicate the Landing is visible.
-        this.landingActive = true;
-
-        // Update the state after the slide transition is done.
-        setTimeout(() => this.setState({ activeSlide: null }), 360);
+    goHome = () => {
+        if (this.depth > 0) {
+            window.history.go(-this.depth);
+        }
     };
 
     render() {
         return (
             <div className="mdf-app">
                 <div className="mdf-app-content">
-                    <div id="slides" className="mdf-slides" aria-live="polite">
-                        <Landing
-                            data={this.state.landingData}
-                            onSlideChange={this.openSlide}
-                            onRefresh={this.updateLandingData}
-                            onMessage={this.showMessage}
-                        />
-                        <Slide
-                            name={this.state.activeSlide}
-                            data={this.state.slideData}
-                            onBack={this.goBack}
-                            onRefresh={this.updateLandingData}
-                            onMessage={this.showMessage}
-                        />
-                    </div>
+                    <StorageContext.Provider value={this.storage}>
+                        <div id="slides" className="mdf-slides" aria-live="polite">
+                            <Landing
+                                data={this.state.landingData}
+                                onSlideChange={this.openSlide}
+                                onRefresh={this.updateLandingData}
+                                onMessage={this.showMessage}
+                            />
+                            {this.state.stack.map((entry) => (
+                                <Slide
+                                    key={entry.key}
+                                    name={entry.name}
+                                    checklists={this.state.landingData}
+                                    data={entry.data}
+                                    task={entry.task}
+                                    onOpen={this.openSlide}
+                                    onBack={this.goBack}
+                                    onHome={this.goHome}
+                                    onRefresh={this.updateLandingData}
+                                    onMessage={this.showMessage}
+                                />
+                            ))}
+                        </div>
+                    </StorageContext.Provider>
                 </div>
 
                 <SnackbarContext.Provider value={this.state.messages}>
@@ -294,7 +702,36 @@ export default class App extends React.Component<{}, AppState> {
         // Re-calculate slide width on window resize.
         window.onresize = debounce(() => this.calcWidth(), 60);
 
-        // Get the initial data set for the Landing slide.
-        this.getLandingData();
+        // Follow the browser back and forward buttons.
+        window.addEventListener('popstate', this.handlePopState);
+
+        // Follow changes made in other tabs of the app.
+        this.unsubscribe = this.storage.subscribe(this.handleRemoteChange);
+        window.addEventListener('storage', this.handlePreferencesChange);
+
+        // Settle on a storage adapter and upgrade any outdated checklists, then get the initial data set for the Landing slide.
+        // Once the data is there and recurring checklists have started over, show the slide the URL points to and schedule the pending reminders again.
+        // If any of it fails, show what could be loaded.
+        this.prepareStorage()
+            .then(() => this.migrateData())
+            .then(() => this.cleanUpTrash())
+            .then(() => this.getLandingData())
+            .then(() => this.repeatChecklists())
+            .then(() => this.openInitialRoute())
+            .then(() => this.scheduleReminders())
+            .catch(() => this.recoverStartup());
+    }
+
+    componentWillUnmount() {
+        // Remove history events.
+        window.removeEventListener('popstate', this.handlePopState);
+
+        // Stop following changes made in other tabs.
+        if (this.unsubscribe) this.unsubscribe();
+
+        // Stop the reminder and recurrence timers.
+        if (this.reminders) this.reminders.close();
+        if (this.recurrenceTimer !== null) window.clearTimeout(this.recurrenceTimer);
+        window.removeEventListener('storage', this.handlePreferencesChange);
     }
 }
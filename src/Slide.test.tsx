@@ -0,0 +1,20 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import Slide from './Slide';
+
+test('shows the NotFound slide for names nobody registered', () => {
+    render(
+        <Slide
+            checklists={[]}
+            data={null}
+            name="missing"
+            onOpen={jest.fn()}
+            onBack={jest.fn()}
+            onHome={jest.fn()}
+            onRefresh={jest.fn()}
+            onMessage={jest.fn()}
+        />
+    );
+
+    expect(screen.queryByText("This checklist doesn't exist.")).not.toBeNull();
+});
@@ -3,14 +3,24 @@ import Preferences from './components/Preferences/Preferences';
 import Add from './components/Add/Add';
 import Edit from './components/Edit/Edit';
 import View from './components/View/View';
+import History from './components/History/History';
+import Agenda from './components/Agenda/Agenda';
+import Templates from './components/Templates/Templates';
+import Runs from './components/Runs/Runs';
+import NotFound from './components/NotFound/NotFound';
+import { SnackbarAction } from './snackbar.provider';
 import { ChecklistData } from './types';
 
 type SlideProps = {
+    checklists: ChecklistData[];
     data: ChecklistData | null;
     name: string | null;
+    task?: number;
+    onOpen: (name: string, data?: ChecklistData | null, task?: number) => void;
     onBack: () => void;
+    onHome: () => void;
     onRefresh: (data?: ChecklistData) => void;
-    onMessage: (message: string) => void;
+    onMessage: (message: string, action?: SnackbarAction) => void;
 };
 
 /**
@@ -21,21 +31,56 @@ type SlideProps = {
  * @export
  * @class Slide
  * @extends {React.Component<SlideProps>}
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class Slide extends React.Component<SlideProps> {
     // Holds the available Slide components.
-    components: Record<string, React.ElementType> = {
+    static components: Record<string, React.ElementType> = {
         preferences: Preferences,
         add: Add,
         edit: Edit,
         view: View,
+        history: History,
+        agenda: Agenda,
+        templates: Templates,
+        runs: Runs,
+        notfound: NotFound,
+    };
+
+    /**
+     * register
+     *
+     * Make the given component available as a slide under the given name.
+     *
+     * @static
+     * @param {string} name Slide name
+     * @param {React.ElementType} component The Slide component
+     * @memberof Slide
+     * @since 1.1.0
+     */
+    static register(name: string, component: React.ElementType) {
+        Slide.components[name] = component;
+    }
+
+    /**
+     * open
+     *
+     * Open the given slide on top of this one.
+     *
+     * @param {string} name Slide name
+     * @param {(ChecklistData | null)} [data=null] Slide data
+     * @param {number} [task] Id of the task the slide scrolls to
+     * @memberof Slide
+     * @since 1.1.0
+     */
+    open = (name: string, data: ChecklistData | null = null, task?: number) => {
+        this.props.onOpen(name, data, task);
     };
 
     /**
      * goBack
      *
-     * Return to the Landing slide.
+     * Return to the previous slide.
      *
      * @memberof Slide
      * @since 1.0.0
@@ -44,6 +89,18 @@ export default class Slide extends React.Component<SlideProps> {
         this.props.onBack();
     };
 
+    /**
+     * goHome
+     *
+     * Return to the Landing slide.
+     *
+     * @memberof Slide
+     * @since 1.1.0
+     */
+    goHome = () => {
+        this.props.onHome();
+    };
+
     /**
      * refresh
      *
@@ -67,20 +124,26 @@ export default class Slide extends React.Component<SlideProps> {
      * Catches message and forwards it to the Snackbar provider.
      *
      * @param {string} message The message to forward
+     * @param {SnackbarAction} [action] Optional action to offer with the message
      * @memberof Slide
      * @since 1.0.0
      */
-    catchMessage = (message: string) => {
-        this.props.onMessage(message);
+    catchMessage = (message: string, action?: SnackbarAction) => {
+        this.props.onMessage(message, action);
     };
 
     render() {
         if (this.props.name && this.props.name.length) {
-            const SlideComponent = this.components[this.props.name];
+            // Names nobody registered show the NotFound slide instead.
+            const SlideComponent = Slide.components[this.props.name] || NotFound;
             return (
                 <SlideComponent
+                    checklists={this.props.checklists}
                     data={this.props.data}
+                    task={this.props.task}
+                    onOpen={this.open}
                     onBack={this.goBack}
+                    onHome={this.goHome}
                     onRefresh={this.refresh}
                     onMessage={this.catchMessage}
                 />
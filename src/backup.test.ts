@@ -0,0 +1,116 @@
+import { BACKUP_TYPE, BACKUP_VERSION, createBackup, parseBackup, restoreBackup } from './backup';
+import { checklist } from './test-utils/fixtures';
+import { createFolder, getFolders, saveFolder } from './folders';
+import { SCHEMA_VERSION } from './migrations';
+import PreferencesManager from './preferences.manager';
+import { ARCHIVE_PREFIX, HISTORY_PREFIX, RUN_PREFIX } from './prefixes';
+import MemoryStorage from './storage.memory';
+import { ChecklistData } from './types';
+
+const backupFile = (content: Record<string, unknown>) =>
+    JSON.stringify(Object.assign({ checklists: [], type: BACKUP_TYPE, version: BACKUP_VERSION }, content));
+
+beforeEach(() => localStorage.clear());
+
+test('rejects files that are no usable backup', () => {
+    const preferences = new PreferencesManager();
+
+    expect(() => parseBackup('{', preferences)).toThrow('The file is not valid JSON');
+    expect(() => parseBackup(backupFile({ type: 'other' }), preferences)).toThrow('not a backup of this app');
+    expect(() => parseBackup(backupFile({ version: BACKUP_VERSION + 1 }), preferences)).toThrow('newer version');
+    expect(() => parseBackup(backupFile({ checklists: null }), preferences)).toThrow('any checklists');
+    expect(() => parseBackup(backupFile({ checklists: [{ title: 'Broken' }] }), preferences)).toThrow(
+        'damaged checklist'
+    );
+});
+
+test('upgrades old checklists and drops unknown preferences and folders', () => {
+    const folder = createFolder('Home', 'blue', 1);
+    const backup = parseBackup(
+        backupFile({
+            checklists: [
+                { complete: false, done: ['Buy milk'], id: 1, tasks: ['Buy milk'], time: 1, title: 'Errands' },
+            ],
+            folders: [folder, { title: 'Broken' }],
+            preferences: { accent: 'teal', theme: 'neon', unknown: 'value' },
+        }),
+        new PreferencesManager()
+    );
+
+    expect(backup.checklists[0].version).toBe(SCHEMA_VERSION);
+    expect(backup.checklists[0].tasks.map((task) => task.done)).toEqual([true]);
+    expect(backup.folders).toEqual([folder]);
+    expect(backup.preferences).toEqual({ accent: 'teal' });
+});
+
+test('merges a backup into the existing checklists and folders', async () => {
+    const storage = new MemoryStorage('checklist');
+    const preferences = new PreferencesManager();
+    const home = createFolder('Home', 'blue', 1);
+    const work = createFolder('Work', 'red', 2);
+
+    await storage.set('1', checklist(1));
+    await storage.set('2', checklist(2));
+    await saveFolder(storage, home);
+
+    // Back up another storage holding a changed and a new checklist.
+    const source = new MemoryStorage('checklist');
+
+    await source.set('2', checklist(2, { title: 'Restored' }));
+    await source.set('3', checklist(3));
+    await saveFolder(source, work);
+
+    const backup = parseBackup(JSON.stringify(await createBackup(source, preferences)), preferences);
+
+    expect(await restoreBackup(storage, preferences, backup, 'merge')).toEqual({ added: 1, removed: 0, updated: 1 });
+    expect(await storage.keys()).toEqual(['checklist-1', 'checklist-2', 'checklist-3']);
+    expect(((await storage.get('2')) as ChecklistData).title).toBe('Restored');
+    expect(await getFolders(storage)).toEqual([home, work]);
+});
+
+test('replaces the existing checklists and folders with a backup', async () => {
+    const storage = new MemoryStorage('checklist');
+    const preferences = new PreferencesManager();
+    const home = createFolder('Home', 'blue', 1);
+    const work = createFolder('Work', 'red', 2);
+
+    await storage.set('1', checklist(1));
+    await storage.set('2', checklist(2));
+    await saveFolder(storage, home);
+
+    const backup = parseBackup(
+        backupFile({ checklists: [checklist(2), checklist(3)], folders: [work], preferences: { theme: 'dark' } }),
+        preferences
+    );
+
+    expect(await restoreBackup(storage, preferences, backup, 'replace')).toEqual({
+        added: 1,
+        removed: 1,
+        updated: 1,
+    });
+    expect(await storage.keys()).toEqual(['checklist-2', 'checklist-3']);
+    expect(await getFolders(storage)).toEqual([work]);
+    expect(preferences.get('theme')).toBe('dark');
+});
+
+test('removes the history and runs of the replaced checklists', async () => {
+    const storage = new MemoryStorage('checklist');
+    const preferences = new PreferencesManager();
+
+    await storage.set('1', checklist(1));
+    await storage.set('2', { title: 'Broken' });
+
+    for (const prefix of [HISTORY_PREFIX, ARCHIVE_PREFIX, RUN_PREFIX]) {
+        await storage.scope(prefix).set('1', []);
+        await storage.scope(prefix).set('2', []);
+    }
+
+    const backup = parseBackup(backupFile({ checklists: [checklist(3)] }), preferences);
+
+    expect((await restoreBackup(storage, preferences, backup, 'replace')).removed).toBe(2);
+    expect(await storage.keys()).toEqual(['checklist-3']);
+
+    for (const prefix of [HISTORY_PREFIX, ARCHIVE_PREFIX, RUN_PREFIX]) {
+        expect(await storage.scope(prefix).keys()).toEqual([]);
+    }
+});
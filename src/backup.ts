@@ -0,0 +1,199 @@
+import Storage from './storage';
+import PreferencesManager from './preferences.manager';
+import { purgeChecklistRecords } from './checklists';
+import { FolderData, getFolders, isFolderData, saveFolder } from './folders';
+import { isChecklistData, migrateRecord } from './migrations';
+import { FOLDER_PREFIX } from './prefixes';
+import { ChecklistData } from './types';
+
+export interface BackupData {
+    checklists: ChecklistData[]; // All stored checklists.
+    created: number; // Time the backup was created.
+    folders?: FolderData[]; // All folders, missing in backups made before there were folders.
+    preferences: Record<string, string>; // All stored user preferences.
+    type: string; // Marks the file as a backup of this app.
+    version: number; // Version of the backup format.
+}
+
+export interface RestoreReport {
+    added: number; // Checklists that did not exist before.
+    removed: number; // Existing checklists removed when replacing.
+    updated: number; // Existing checklists overwritten by the backup.
+}
+
+// Identifies backup files of this app.
+export const BACKUP_TYPE = 'thoughts-backup';
+
+// The backup format version new backups are written with.
+export const BACKUP_VERSION = 1;
+
+/**
+ * createBackup
+ *
+ * Collect all checklists, folders and preferences into a single backup.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {PreferencesManager} preferences The user preferences
+ * @returns {Promise<BackupData>}
+ * @version 1.1.0
+ */
+export async function createBackup(storage: Storage, preferences: PreferencesManager): Promise<BackupData> {
+    const checklists: ChecklistData[] = [];
+
+    for (const key of await storage.keys()) {
+        const data = await storage.get(key);
+
+        if (isChecklistData(data)) {
+            checklists.push(data);
+        }
+    }
+
+    return {
+        checklists: checklists,
+        created: Date.now(),
+        folders: await getFolders(storage),
+        preferences: preferences.getAll(),
+        type: BACKUP_TYPE,
+        version: BACKUP_VERSION,
+    };
+}
+
+/**
+ * parseBackup
+ *
+ * Parse and validate the content of a backup file.
+ * Checklists saved with an older schema are upgraded on the way.
+ * Throws with a message fit for the user if the file can't be used.
+ *
+ * @export
+ * @param {string} content The file content
+ * @param {PreferencesManager} preferences The user preferences, used to validate the stored settings
+ * @returns {BackupData}
+ * @version 1.1.0
+ */
+export function parseBackup(content: string, preferences: PreferencesManager): BackupData {
+    let backup: Record<string, unknown>;
+
+    try {
+        backup = JSON.parse(content);
+    } catch (error) {
+        throw new Error('The file is not valid JSON');
+    }
+
+    if (!backup || backup.type !== BACKUP_TYPE || typeof backup.version !== 'number') {
+        throw new Error('The file is not a backup of this app');
+    }
+
+    if (backup.version > BACKUP_VERSION) {
+        throw new Error('The backup was created by a newer version of the app');
+    }
+
+    if (!Array.isArray(backup.checklists)) {
+        throw new Error('The backup does not contain any checklists');
+    }
+
+    // Upgrade every checklist to the current schema, a single broken checklist fails the whole import.
+    let checklists: ChecklistData[];
+
+    try {
+        checklists = backup.checklists.map((record) => migrateRecord(record));
+    } catch (error) {
+        throw new Error('The backup contains a damaged checklist');
+    }
+
+    // Only keep the preferences we know about and that hold allowed values.
+    const stored = (backup.preferences || {}) as Record<string, unknown>;
+    const validPreferences: Record<string, string> = {};
+
+    for (const setting of preferences.settings) {
+        const value = stored[setting];
+
+        if (typeof value === 'string' && preferences.isValid(setting, value)) {
+            validPreferences[setting] = value;
+        }
+    }
+
+    return {
+        checklists: checklists,
+        created: typeof backup.created === 'number' ? backup.created : 0,
+        folders: Array.isArray(backup.folders) ? backup.folders.filter(isFolderData) : [],
+        preferences: validPreferences,
+        type: BACKUP_TYPE,
+        version: backup.version,
+    };
+}
+
+/**
+ * restoreBackup
+ *
+ * Save the checklists, folders and preferences of the given backup.
+ * `merge` keeps existing checklists and folders and overwrites those with the same id, `replace` removes all existing ones first, along with the history and runs of removed checklists.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {PreferencesManager} preferences The user preferences
+ * @param {BackupData} backup The validated backup
+ * @param {('merge' | 'replace')} mode How to treat existing checklists
+ * @returns {Promise<RestoreReport>}
+ * @version 1.1.0
+ */
+export async function restoreBackup(
+    storage: Storage,
+    preferences: PreferencesManager,
+    backup: BackupData,
+    mode: 'merge' | 'replace'
+): Promise<RestoreReport> {
+    const report: RestoreReport = { added: 0, removed: 0, updated: 0 };
+
+    // Remove all checklists missing from the backup along with their history and runs when replacing.
+    if (mode === 'replace') {
+        const ids = backup.checklists.map((data) => data.id);
+
+        for (const key of await storage.keys()) {
+            const data = await storage.get(key);
+
+            if (!isChecklistData(data) || !ids.includes(data.id)) {
+                // Damaged records still carry the id of their checklist in the key.
+                const id = isChecklistData(data) ? data.id : Number(key.slice(storage.prefix.length + 1));
+
+                await storage.delete(key);
+                await purgeChecklistRecords(storage, id);
+                report.removed++;
+            }
+        }
+    }
+
+    // Remove all folders missing from the backup when replacing, then save every folder from the backup.
+    const folders = backup.folders || [];
+
+    if (mode === 'replace') {
+        for (const folder of await getFolders(storage)) {
+            if (!folders.some((current) => current.id === folder.id)) {
+                await storage.scope(FOLDER_PREFIX).delete(folder.id.toString());
+            }
+        }
+    }
+
+    for (const folder of folders) {
+        await saveFolder(storage, folder);
+    }
+
+    // Save every checklist from the backup.
+    for (const data of backup.checklists) {
+        if ((await storage.get(data.id.toString())) === null) {
+            report.added++;
+        } else {
+            report.updated++;
+        }
+
+        await storage.set(data.id.toString(), data);
+    }
+
+    // Restore the preferences.
+    for (const setting of Object.keys(backup.preferences)) {
+        preferences.set(setting, backup.preferences[setting]);
+    }
+
+    return report;
+}
@@ -0,0 +1,234 @@
+import {
+    applyEdits,
+    countTasksLeft,
+    createTask,
+    findConflicts,
+    findSibling,
+    mergeTasks,
+    moveTasks,
+    purgeTrash,
+    restoreChecklist,
+    restoreCompletion,
+    saveChecklist,
+    setTaskDone,
+    trashChecklist,
+    updateChecklist,
+} from './checklists';
+import { getHistory } from './history';
+import { SCHEMA_VERSION } from './migrations';
+import MemoryStorage from './storage.memory';
+import { ChecklistData, TaskData } from './types';
+
+const checklist = (): ChecklistData => ({
+    complete: false,
+    id: 1,
+    revision: 0,
+    tasks: [createTask('Buy milk'), createTask('Buy bread')],
+    time: 1633046400000,
+    title: 'Groceries',
+    version: SCHEMA_VERSION,
+});
+
+test('bumps the revision on every save', async () => {
+    const storage = new MemoryStorage('checklist');
+    const first = await saveChecklist(storage, checklist());
+    const second = await saveChecklist(storage, first.data);
+
+    expect(second.conflict).toBe(false);
+    expect(second.data.revision).toBe(1);
+    expect(await storage.get('1')).toEqual(second.data);
+});
+
+test('refuses to save over a checklist that changed since it was loaded', async () => {
+    const storage = new MemoryStorage('checklist');
+    const loaded = (await saveChecklist(storage, checklist())).data;
+
+    // Someone else saves the checklist first.
+    await saveChecklist(storage, Object.assign({}, loaded, { title: 'Theirs' }));
+
+    const result = await saveChecklist(storage, Object.assign({}, loaded, { title: 'Mine' }));
+
+    expect(result.conflict).toBe(true);
+    expect(result.data.title).toBe('Theirs');
+    expect(((await storage.get('1')) as ChecklistData).title).toBe('Theirs');
+
+    const forced = await saveChecklist(storage, Object.assign({}, loaded, { title: 'Mine' }), true);
+
+    expect(forced.conflict).toBe(false);
+    expect(forced.data.revision).toBe(2);
+});
+
+test('applies updates to the stored checklist when it changed', async () => {
+    const storage = new MemoryStorage('checklist');
+    const loaded = (await saveChecklist(storage, checklist())).data;
+    const [milk, bread] = loaded.tasks;
+
+    await saveChecklist(
+        storage,
+        Object.assign({}, loaded, { tasks: [Object.assign({}, milk, { done: true }), bread] })
+    );
+
+    const saved = await updateChecklist(storage, loaded, (data) =>
+        Object.assign({}, data, {
+            tasks: data.tasks.map((task) => (task.id === bread.id ? Object.assign({}, task, { done: true }) : task)),
+        })
+    );
+
+    expect(saved.tasks.map((task) => task.done)).toEqual([true, true]);
+});
+
+test('keeps the stored fields outside our edits when saving over a changed checklist', async () => {
+    const storage = new MemoryStorage('checklist');
+    const loaded = (await saveChecklist(storage, checklist())).data;
+
+    // Someone else moves the checklist to a folder and then to the trash.
+    await saveChecklist(storage, Object.assign({}, loaded, { folder: 2 }));
+    await trashChecklist(storage, 1);
+
+    const mine = Object.assign({}, loaded, { priority: 'high', tags: ['shop'], title: 'Weekly groceries' });
+    const result = await saveChecklist(storage, mine);
+
+    expect(result.conflict).toBe(true);
+
+    const saved = (await saveChecklist(storage, applyEdits(result.data, mine), true)).data;
+
+    expect(saved.title).toBe('Weekly groceries');
+    expect(saved.priority).toBe('high');
+    expect(saved.tags).toEqual(['shop']);
+    expect(saved.folder).toBe(2);
+    expect(saved.deleted).toBe(result.data.deleted);
+    expect(saved.deleted).not.toBeUndefined();
+});
+
+test('merges tasks one by one', () => {
+    const [milk, bread, eggs, butter] = ['Buy milk', 'Buy bread', 'Buy eggs', 'Buy butter'].map(createTask);
+    const mine = [Object.assign({}, milk, { text: 'Buy oat milk' }), bread, eggs];
+    const stored = [Object.assign({}, milk, { done: true }), butter, bread];
+
+    expect(findConflicts(mine, stored).map((conflict) => conflict.id)).toEqual([milk.id, eggs.id, butter.id]);
+
+    const merged = mergeTasks(mine, stored, [milk.id, butter.id]);
+
+    expect(merged.map((task) => task.text)).toEqual(['Buy milk', 'Buy butter', 'Buy bread', 'Buy eggs']);
+    expect(merged[0].done).toBe(true);
+});
+
+test('moves checklists to the trash and back', async () => {
+    const storage = new MemoryStorage('checklist');
+    const saved = (await saveChecklist(storage, checklist())).data;
+
+    const removed = await trashChecklist(storage, saved.id);
+    const trashed = (await storage.get('1')) as ChecklistData;
+
+    expect(removed).toEqual(saved);
+    expect(typeof trashed.deleted).toBe('number');
+
+    const restored = await restoreChecklist(storage, trashed);
+
+    expect(restored).not.toHaveProperty('deleted');
+    expect(await storage.get('1')).toEqual(restored);
+});
+
+test('undoes a deletion as a new revision', async () => {
+    const storage = new MemoryStorage('checklist');
+    const saved = (await saveChecklist(storage, checklist())).data;
+    const removed = (await trashChecklist(storage, saved.id)) as ChecklistData;
+    const trashed = (await storage.get('1')) as ChecklistData;
+
+    const restored = await restoreChecklist(storage, removed);
+
+    expect(restored).not.toHaveProperty('deleted');
+    expect(restored.revision).toBe(trashed.revision + 1);
+    expect(restored.modified).toBeGreaterThanOrEqual(trashed.modified as number);
+    expect(await getHistory(storage, 1)).toHaveLength(3);
+});
+
+test('purges checklists that stayed in the trash past the retention period', async () => {
+    const storage = new MemoryStorage('checklist');
+    const day = 86400000;
+
+    await storage.set('1', Object.assign(checklist(), { id: 1, deleted: 0 }));
+    await storage.set('2', Object.assign(checklist(), { id: 2, deleted: 20 * day }));
+    await storage.set('3', Object.assign(checklist(), { id: 3 }));
+
+    expect(await purgeTrash(storage, 30, 40 * day)).toBe(1);
+    expect(await storage.keys()).toEqual(['checklist-2', 'checklist-3']);
+
+    expect(await purgeTrash(storage, 0, 40 * day)).toBe(1);
+    expect(await storage.keys()).toEqual(['checklist-3']);
+});
+
+test('restores the completion of an earlier version', () => {
+    const previous = checklist();
+    const [milk, bread] = previous.tasks;
+    const added = createTask('Buy eggs');
+    const current = Object.assign({}, previous, {
+        complete: true,
+        tasks: [milk, bread, added].map((task) => Object.assign({}, task, { done: true, doneTime: 1 })),
+    });
+
+    const restored = restoreCompletion(current, previous);
+
+    expect(restored.complete).toBe(false);
+    expect(restored.tasks.map((task) => task.done)).toEqual([false, false, true]);
+    expect(restored.tasks[0].doneTime).toBeNull();
+});
+
+test('counts subtasks instead of their parents and completes parents with their subtasks', () => {
+    const [deploy, backend, database, frontend, announce] = [
+        'Deploy',
+        'Backend',
+        'Database',
+        'Frontend',
+        'Announce',
+    ].map(createTask);
+    const tasks: TaskData[] = [
+        deploy,
+        Object.assign(backend, { indent: 1 }),
+        Object.assign(database, { indent: 2 }),
+        Object.assign(frontend, { indent: 1 }),
+        announce,
+    ];
+
+    expect(countTasksLeft(Object.assign(checklist(), { tasks }))).toBe(3);
+
+    // Finishing the last open subtask of a parent finishes the parent as well.
+    const partly = setTaskDone(tasks, database.id, true, 1);
+
+    expect(partly.map((task) => task.done)).toEqual([false, true, true, false, false]);
+
+    // Ticking a parent ticks all of its subtasks, unticking one subtask reopens the parents.
+    const all = setTaskDone(partly, deploy.id, true, 2);
+
+    expect(all.map((task) => task.done)).toEqual([true, true, true, true, false]);
+    expect(setTaskDone(all, frontend.id, false).map((task) => task.done)).toEqual([false, true, true, false, false]);
+    expect(countTasksLeft(Object.assign(checklist(), { tasks: all }))).toBe(1);
+});
+
+test('moves tasks together with their subtasks', () => {
+    const tasks = [{ indent: 0 }, { indent: 1 }, { indent: 1 }, { indent: 2 }, { indent: 0 }].map((task, index) =>
+        Object.assign(task, { id: index })
+    );
+
+    // Siblings skip over each other's subtasks.
+    expect(findSibling(tasks, 4, -1)).toBe(0);
+    expect(findSibling(tasks, 2, -1)).toBe(1);
+    expect(findSibling(tasks, 1, -1)).toBe(-1);
+    expect(findSibling(tasks, 2, 1)).toBe(-1);
+
+    expect(moveTasks(tasks, 4, 0).map((task) => task.id)).toEqual([4, 0, 1, 2, 3]);
+    expect(moveTasks(tasks, 0, 4).map((task) => task.id)).toEqual([4, 0, 1, 2, 3]);
+    expect(moveTasks(tasks, 2, 1).map((task) => task.id)).toEqual([0, 2, 3, 1, 4]);
+
+    // Tasks dropped on a task of another level take on its indent.
+    expect(moveTasks(tasks, 2, 4).map((task) => [task.id, task.indent])).toEqual([
+        [0, 0],
+        [1, 1],
+        [4, 0],
+        [2, 0],
+        [3, 1],
+    ]);
+
+    // A task can't be moved into its own subtasks.
+    expect(moveTasks(tasks, 2, 3)).toBe(tasks);
+});
@@ -0,0 +1,579 @@
+import Storage from './storage';
+import { generateUUID } from './helpers';
+import { addSnapshot, HistoryEntry } from './history';
+import { isChecklistData } from './migrations';
+import { ARCHIVE_PREFIX, HISTORY_PREFIX, RUN_PREFIX } from './prefixes';
+import { ChecklistData, TaskData } from './types';
+
+export interface SaveResult {
+    conflict: boolean; // Whether the stored checklist changed since it was loaded, nothing was saved in that case.
+    data: ChecklistData; // The saved checklist, or the stored one if there was a conflict.
+}
+
+export interface TaskConflict {
+    id: number; // Id of the task.
+    mine: TaskData | null; // Our version of the task, `null` if we don't have it.
+    stored: TaskData | null; // The stored version of the task, `null` if it isn't stored.
+}
+
+/**
+ * createTask
+ *
+ * Create a new, incomplete task with its own unique id.
+ *
+ * @export
+ * @param {string} text The task text
+ * @returns {TaskData}
+ * @version 1.0.0
+ */
+export function createTask(text: string): TaskData {
+    return {
+        done: false,
+        doneTime: null,
+        id: generateUUID(),
+        text: text,
+    };
+}
+
+/**
+ * countTasksLeft
+ *
+ * Count the tasks of the given checklist that are not done yet.
+ * Only tasks without subtasks count, a parent is done once all of its subtasks are.
+ *
+ * @export
+ * @param {ChecklistData} data The checklist to count
+ * @returns {number}
+ * @version 1.1.0
+ */
+export function countTasksLeft(data: ChecklistData): number {
+    return data.tasks.filter((task, index) => !task.done && !hasSubtasks(data.tasks, index)).length;
+}
+
+/**
+ * hasSubtasks
+ *
+ * Check whether the task at the given index holds subtasks.
+ * Subtasks are the tasks that directly follow their parent with a deeper indent.
+ *
+ * @export
+ * @param {{ indent?: number }[]} tasks The tasks of the checklist
+ * @param {number} index Index of the task to check
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function hasSubtasks(tasks: { indent?: number }[], index: number): boolean {
+    return index + 1 < tasks.length && (tasks[index + 1].indent || 0) > (tasks[index].indent || 0);
+}
+
+/**
+ * subtreeEnd
+ *
+ * Return the index right after the last subtask of the task at the given index, however deeply it is nested.
+ *
+ * @export
+ * @param {{ indent?: number }[]} tasks The tasks of the checklist
+ * @param {number} index Index of the parent task
+ * @returns {number}
+ * @version 1.0.0
+ */
+export function subtreeEnd(tasks: { indent?: number }[], index: number): number {
+    const indent = tasks[index].indent || 0;
+    let end = index + 1;
+
+    while (end < tasks.length && (tasks[end].indent || 0) > indent) {
+        end++;
+    }
+
+    return end;
+}
+
+/**
+ * findSibling
+ *
+ * Return the index of the task right before or after the task at the given index that shares its parent.
+ * Returns `-1` if there is no such task.
+ *
+ * @export
+ * @param {{ indent?: number }[]} tasks The tasks of the checklist
+ * @param {number} index Index of the task
+ * @param {(-1 | 1)} direction `-1` for the task before, `1` for the task after
+ * @returns {number}
+ * @version 1.0.0
+ */
+export function findSibling(tasks: { indent?: number }[], index: number, direction: -1 | 1): number {
+    const indent = tasks[index].indent || 0;
+    let sibling = direction < 0 ? index - 1 : subtreeEnd(tasks, index);
+
+    // Skip the subtasks of the task before.
+    while (direction < 0 && sibling >= 0 && (tasks[sibling].indent || 0) > indent) {
+        sibling--;
+    }
+
+    return sibling >= 0 && sibling < tasks.length && (tasks[sibling].indent || 0) === indent ? sibling : -1;
+}
+
+/**
+ * moveTasks
+ *
+ * Move the task at index `from` together with its subtasks to the place of the task at index `to`.
+ * Tasks moved up end up before the target, tasks moved down after the target and its subtasks.
+ * The moved tasks take on the indent of the target, so they become its sibling.
+ *
+ * @export
+ * @template T
+ * @param {T[]} tasks The tasks of the checklist
+ * @param {number} from Index of the task to move
+ * @param {number} to Index of the task to move it to
+ * @returns {T[]}
+ * @version 1.0.0
+ */
+export function moveTasks<T extends { indent?: number }>(tasks: T[], from: number, to: number): T[] {
+    const end = subtreeEnd(tasks, from);
+
+    // A task can't be moved into its own subtasks.
+    if (to >= from && to < end) {
+        return tasks;
+    }
+
+    // Shift the moved tasks to the level of the target.
+    const shift = (tasks[to].indent || 0) - (tasks[from].indent || 0);
+    const moved = tasks
+        .slice(from, end)
+        .map((task) => (shift ? Object.assign({}, task, { indent: (task.indent || 0) + shift }) : task));
+
+    const rest = tasks.slice(0, from).concat(tasks.slice(end));
+    const position = to < from ? to : subtreeEnd(tasks, to) - moved.length;
+
+    rest.splice(position, 0, ...moved);
+
+    return rest;
+}
+
+/**
+ * normalizeIndents
+ *
+ * Make sure no task is indented more than one level deeper than the task before it.
+ *
+ * @export
+ * @param {TaskData[]} tasks The tasks to check
+ * @returns {TaskData[]}
+ * @version 1.0.0
+ */
+export function normalizeIndents(tasks: TaskData[]): TaskData[] {
+    let previous = -1;
+
+    return tasks.map((task) => {
+        const indent = Math.max(0, Math.min(task.indent || 0, previous + 1));
+        previous = indent;
+
+        return indent === (task.indent || 0) ? task : Object.assign({}, task, { indent: indent });
+    });
+}
+
+/**
+ * syncParents
+ *
+ * Mark every parent task as done once all of its subtasks are done, and as open otherwise.
+ *
+ * @export
+ * @param {TaskData[]} tasks The tasks of the checklist
+ * @param {number} [time=Date.now()] Time to note for parents that become done
+ * @returns {TaskData[]}
+ * @version 1.0.0
+ */
+export function syncParents(tasks: TaskData[], time: number = Date.now()): TaskData[] {
+    const synced = tasks.slice();
+
+    // Walk backwards, so nested parents are settled before the parents holding them.
+    for (let index = synced.length - 1; index >= 0; index--) {
+        if (!hasSubtasks(synced, index)) continue;
+
+        const indent = synced[index].indent || 0;
+        const done = synced
+            .slice(index + 1, subtreeEnd(synced, index))
+            .filter((task) => (task.indent || 0) === indent + 1)
+            .every((task) => task.done);
+
+        if (synced[index].done !== done) {
+            synced[index] = Object.assign({}, synced[index], { done: done, doneTime: done ? time : null });
+        }
+    }
+
+    return synced;
+}
+
+/**
+ * setTaskDone
+ *
+ * Mark the task with the given id as done or open, together with all of its subtasks.
+ * The parents of the task are updated to match.
+ *
+ * @export
+ * @param {TaskData[]} tasks The tasks of the checklist
+ * @param {number} taskId Id of the task to update
+ * @param {boolean} done Whether the task is done
+ * @param {number} [time=Date.now()] Time to note for tasks that become done
+ * @returns {TaskData[]}
+ * @version 1.0.0
+ */
+export function setTaskDone(tasks: TaskData[], taskId: number, done: boolean, time: number = Date.now()): TaskData[] {
+    const index = tasks.findIndex((task) => task.id === taskId);
+
+    if (index === -1) {
+        return tasks;
+    }
+
+    const end = subtreeEnd(tasks, index);
+    const updated = tasks.map((task, current) =>
+        current < index || current >= end || task.done === done
+            ? task
+            : Object.assign({}, task, { done: done, doneTime: done ? time : null })
+    );
+
+    return syncParents(updated, time);
+}
+
+/**
+ * saveChecklist
+ *
+ * Save the given checklist, unless someone else saved it since it was loaded.
+ * Compares the revision of the given checklist with the stored one and bumps it on every save.
+ * Pass `force` to save over a newer stored checklist anyway.
+ * Every save notes its time in `modified` and is added to the history of the checklist.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData} data The checklist to save
+ * @param {boolean} [force=false] Save even if the stored checklist changed
+ * @returns {Promise<SaveResult>}
+ * @version 1.1.0
+ */
+export async function saveChecklist(storage: Storage, data: ChecklistData, force = false): Promise<SaveResult> {
+    const key = data.id.toString();
+    const stored = await storage.get(key);
+
+    if (isChecklistData(stored)) {
+        if (stored.revision !== data.revision && !force) {
+            return { conflict: true, data: stored };
+        }
+
+        data = Object.assign({}, data, { revision: stored.revision + 1 });
+    }
+
+    // Note when the checklist was last changed.
+    data = Object.assign({}, data, { modified: Date.now() });
+
+    await storage.set(key, data);
+    await addSnapshot(storage, data);
+
+    return { conflict: false, data: data };
+}
+
+/**
+ * trashChecklist
+ *
+ * Move the checklist with the given id to the trash, noting when it was deleted.
+ * Returns the record as it was before, so the deletion can be undone by passing it to `restoreChecklist`.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {number} id Id of the checklist to move to the trash
+ * @returns {(Promise<ChecklistData | null>)}
+ * @version 1.1.0
+ */
+export async function trashChecklist(storage: Storage, id: number): Promise<ChecklistData | null> {
+    const stored = await storage.get(id.toString());
+
+    if (!isChecklistData(stored)) {
+        return null;
+    }
+
+    await saveChecklist(storage, Object.assign({}, stored, { deleted: Date.now() }), true);
+
+    return stored;
+}
+
+/**
+ * restoreChecklist
+ *
+ * Take the given checklist out of the trash.
+ * Saved as a new revision, so it also undoes `trashChecklist` with the record that function returned.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData} data The checklist to restore
+ * @returns {Promise<ChecklistData>} The restored checklist
+ * @version 1.0.0
+ */
+export async function restoreChecklist(storage: Storage, data: ChecklistData): Promise<ChecklistData> {
+    const { deleted: _deleted, ...rest } = data;
+
+    return (await saveChecklist(storage, rest, true)).data;
+}
+
+/**
+ * purgeTrash
+ *
+ * Permanently delete all checklists that have been in the trash for longer than the given number of days.
+ * Pass `0` to empty the trash completely.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {number} days Number of days checklists are kept in the trash
+ * @param {number} [now=Date.now()] The current time
+ * @returns {Promise<number>} The number of deleted checklists
+ * @version 1.0.0
+ */
+export async function purgeTrash(storage: Storage, days: number, now: number = Date.now()): Promise<number> {
+    let purged = 0;
+
+    for (const key of await storage.keys()) {
+        const data = await storage.get(key);
+
+        if (isChecklistData(data) && data.deleted !== undefined && data.deleted + days * 86400000 <= now) {
+            await storage.delete(key);
+            await purgeChecklistRecords(storage, data.id);
+            purged++;
+        }
+    }
+
+    return purged;
+}
+
+/**
+ * purgeChecklist
+ *
+ * Permanently delete the checklist with the given id along with its history and runs.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {number} id Id of the checklist to delete
+ * @version 1.0.0
+ */
+export async function purgeChecklist(storage: Storage, id: number): Promise<void> {
+    await storage.delete(id.toString());
+    await purgeChecklistRecords(storage, id);
+}
+
+/**
+ * purgeChecklistRecords
+ *
+ * Remove the history, the archived runs and the recorded runs of the checklist with the given id.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {number} id Id of the checklist
+ * @version 1.0.0
+ */
+export async function purgeChecklistRecords(storage: Storage, id: number): Promise<void> {
+    await storage.scope(HISTORY_PREFIX).delete(id.toString());
+    await storage.scope(ARCHIVE_PREFIX).delete(id.toString());
+    await storage.scope(RUN_PREFIX).delete(id.toString());
+}
+
+/**
+ * rollbackChecklist
+ *
+ * Restore the title and tasks of the given revision from the history.
+ * The rollback is saved as a new revision, so it can be rolled back itself.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData} data The current checklist
+ * @param {HistoryEntry} entry The revision to restore
+ * @returns {Promise<ChecklistData>} The saved checklist
+ * @version 1.0.0
+ */
+export async function rollbackChecklist(
+    storage: Storage,
+    data: ChecklistData,
+    entry: HistoryEntry
+): Promise<ChecklistData> {
+    const updateData = Object.assign({}, data, {
+        complete: entry.data.complete,
+        tasks: entry.data.tasks,
+        title: entry.data.title,
+    });
+
+    return (await saveChecklist(storage, updateData, true)).data;
+}
+
+/**
+ * updateChecklist
+ *
+ * Apply the given update to the checklist and save it.
+ * If the stored checklist changed in the meantime, the update is applied to the stored checklist instead.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData} data The checklist to update
+ * @param {(data: ChecklistData) => ChecklistData} update Returns the updated checklist
+ * @returns {Promise<ChecklistData>} The saved checklist
+ * @version 1.0.0
+ */
+export async function updateChecklist(
+    storage: Storage,
+    data: ChecklistData,
+    update: (data: ChecklistData) => ChecklistData
+): Promise<ChecklistData> {
+    const result = await saveChecklist(storage, update(data));
+
+    if (result.conflict) {
+        return (await saveChecklist(storage, update(result.data), true)).data;
+    }
+
+    return result.data;
+}
+
+/**
+ * restoreCompletion
+ *
+ * Undo completion changes by copying the completion of every task, and of the checklist itself, from an earlier version.
+ * Tasks the earlier version doesn't know keep their completion, so changes made since then are not lost.
+ *
+ * @export
+ * @param {ChecklistData} data The current checklist
+ * @param {ChecklistData} previous The earlier version of the checklist
+ * @returns {ChecklistData}
+ * @version 1.0.0
+ */
+export function restoreCompletion(data: ChecklistData, previous: ChecklistData): ChecklistData {
+    return Object.assign({}, data, {
+        complete: previous.complete,
+        tasks: data.tasks.map((task) => {
+            const previousTask = previous.tasks.find((current) => current.id === task.id);
+
+            return previousTask
+                ? Object.assign({}, task, { done: previousTask.done, doneTime: previousTask.doneTime })
+                : task;
+        }),
+    });
+}
+
+/**
+ * isSameTask
+ *
+ * Check whether two versions of a task are equal.
+ *
+ * @param {TaskData} a The first version
+ * @param {TaskData} b The second version
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+function isSameTask(a: TaskData, b: TaskData): boolean {
+    return (
+        a.text === b.text &&
+        a.done === b.done &&
+        (a.indent || 0) === (b.indent || 0) &&
+        a.due === b.due &&
+        a.priority === b.priority
+    );
+}
+
+/**
+ * findConflicts
+ *
+ * List the tasks that differ between our version of a checklist and the stored one.
+ * Tasks only one side has count as a difference as well.
+ *
+ * @export
+ * @param {TaskData[]} mine Our tasks
+ * @param {TaskData[]} stored The stored tasks
+ * @returns {TaskConflict[]}
+ * @version 1.0.0
+ */
+export function findConflicts(mine: TaskData[], stored: TaskData[]): TaskConflict[] {
+    const conflicts: TaskConflict[] = [];
+
+    for (const task of mine) {
+        const storedTask = stored.find((current) => current.id === task.id) || null;
+
+        if (!storedTask || !isSameTask(task, storedTask)) {
+            conflicts.push({ id: task.id, mine: task, stored: storedTask });
+        }
+    }
+
+    for (const task of stored) {
+        if (!mine.some((current) => current.id === task.id)) {
+            conflicts.push({ id: task.id, mine: null, stored: task });
+        }
+    }
+
+    return conflicts;
+}
+
+/**
+ * applyEdits
+ *
+ * Copy the fields the Edit slide changes from our version of a checklist onto the stored one.
+ * Everything else, like its folder, pin or trash state, keeps the stored value, so saving over it loses no other changes.
+ *
+ * @export
+ * @param {ChecklistData} stored The stored checklist
+ * @param {ChecklistData} edited Our edited version of the checklist
+ * @returns {ChecklistData}
+ * @version 1.0.0
+ */
+export function applyEdits(stored: ChecklistData, edited: ChecklistData): ChecklistData {
+    return Object.assign({}, stored, {
+        due: edited.due,
+        priority: edited.priority,
+        recurrence: edited.recurrence,
+        tags: edited.tags,
+        tasks: edited.tasks,
+        title: edited.title,
+    });
+}
+
+/**
+ * mergeTasks
+ *
+ * Merge our tasks with the stored ones.
+ * Tasks listed in `takeStored` use the stored version, or are dropped if they aren't stored, all others keep ours.
+ * Stored tasks we don't have are placed after the task that precedes them in the stored list.
+ *
+ * @export
+ * @param {TaskData[]} mine Our tasks
+ * @param {TaskData[]} stored The stored tasks
+ * @param {number[]} takeStored Ids of the tasks to take from the stored list
+ * @returns {TaskData[]}
+ * @version 1.0.0
+ */
+export function mergeTasks(mine: TaskData[], stored: TaskData[], takeStored: number[]): TaskData[] {
+    const tasks: TaskData[] = [];
+
+    // Walk our tasks first, swapping in the stored version where requested.
+    for (const task of mine) {
+        if (!takeStored.includes(task.id)) {
+            tasks.push(task);
+        } else {
+            const storedTask = stored.find((current) => current.id === task.id);
+
+            if (storedTask) {
+                tasks.push(storedTask);
+            }
+        }
+    }
+
+    // Add the requested stored tasks we don't have yet.
+    stored.forEach((task, index) => {
+        if (!takeStored.includes(task.id) || tasks.some((current) => current.id === task.id)) return;
+
+        // Find the closest preceding stored task that made it into the result.
+        let position = 0;
+
+        for (let i = index - 1; i >= 0; i--) {
+            const previous = tasks.findIndex((current) => current.id === stored[i].id);
+
+            if (previous !== -1) {
+                position = previous + 1;
+                break;
+            }
+        }
+
+        tasks.splice(position, 0, task);
+    });
+
+    return tasks;
+}
@@ -1,59 +1,63 @@
 import React from 'react';
 import Checklist from '../Checklist/Checklist';
-import Storage from '../../storage';
+import Dialog from '../Dialog/Dialog';
+import StorageContext from '../../storage.provider';
+import { saveChecklist } from '../../checklists';
+import { generateUUID, readFile } from '../../helpers';
+import { SCHEMA_VERSION } from '../../migrations';
+import { parseMarkdown } from '../../markdown';
+import { collectTags } from '../../tags';
+import { fillTemplate, findVariables, getTemplates, TemplateData } from '../../templates';
 import { ChecklistData } from '../../types';
 
 import './Add.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
 
 interface AddProps {
+    checklists: ChecklistData[];
     onBack: () => void;
     onRefresh: (data: ChecklistData) => void;
     onMessage: (message: string) => void;
 }
 
-const SELECTOR = {
-    input: '.mdf-checklist-textfield .mdf-textfield__input',
-};
+interface AddState {
+    importMode: boolean;
+    markdown: string;
+    pendingTemplate: TemplateData | null;
+    template: ChecklistData | null;
+    templateId: string;
+    templateKey: number;
+    templates: TemplateData[];
+    values: Record<string, string>;
+}
 
 /**
  * Add
  *
  * Displays the form to add a new checklist to storage.
+ * Checklists can also be imported from Markdown task lists, or started from a template.
  *
  * @export
  * @class Add
- * @extends {React.Component<AddProps>}
- * @version 1.0.0
+ * @extends {React.Component<AddProps, AddState>}
+ * @version 1.1.0
  */
-export default class Add extends React.Component<AddProps> {
-    checklistRef: React.RefObject<Checklist> = React.createRef(); // Checklist instance ref.
-    storage = new Storage('checklist'); // localStorage wrapper to save the checklist.
-
-    /**
-     * generateUUID
-     *
-     * Generate unique id for our checklist.
-     *
-     * @memberof Add
-     * @since 1.0.0
-     */
-    generateUUID = (): number => {
-        // Set min and max values.
-        const min = 0;
-        const max = 8;
+export default class Add extends React.Component<AddProps, AddState> {
+    static contextType = StorageContext; // Storage adapter provided by the App.
+    context!: React.ContextType<typeof StorageContext>;
 
-        // This will generate an Array holding different integers.
-        const baseArray = window.crypto.getRandomValues(new Uint32Array(max));
-
-        // We use this seed to pick a random number between the set min and the max range.
-        const seed = Math.floor(Math.random() * (max - 1 - min) + min);
-
-        // Select the UUID from the array.
-        const uuid = baseArray[seed];
+    checklistRef: React.RefObject<Checklist> = React.createRef(); // Checklist instance ref.
+    fileRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the Markdown file input.
 
-        // Return the UUID as an absolute value.
-        return Math.abs(uuid + Date.now());
+    state: AddState = {
+        importMode: false,
+        markdown: '',
+        pendingTemplate: null,
+        template: null,
+        templateId: '',
+        templateKey: 0,
+        templates: [],
+        values: {},
     };
 
     /**
@@ -71,35 +75,30 @@ export default class Add extends React.Component<AddProps> {
 
         // Make sure our checklist has a title.
         if (checklist?.title.length) {
-            // Store all tasks in this array.
-            const tasks: string[] = [];
-
-            // Get all text inputs.
-            const inputs: HTMLInputElement[] = Array.from(document.querySelectorAll(SELECTOR.input));
-
-            // Push the available input values to our array.
-            for (const input of inputs) {
-                if (input.value.length) {
-                    tasks.push(input.value);
-                }
-            }
+            // Collect the tasks from the checklist inputs.
+            const tasks = checklist.getTasks();
 
             if (tasks.length) {
                 // Generate unique ID for the checklist.
-                const id = this.generateUUID();
+                const id = generateUUID();
 
                 // Create object holding the new checklist data.
                 const updateData: ChecklistData = {
                     complete: false,
-                    done: [],
+                    due: checklist.due,
                     id: id,
+                    priority: checklist.priority,
+                    recurrence: checklist.getRecurrence(),
+                    revision: 0,
+                    tags: checklist.getTags(),
                     tasks: tasks,
                     time: Date.now(),
                     title: checklist.title,
+                    version: SCHEMA_VERSION,
                 };
 
                 // Save the data to storage.
-                this.storage.set(id.toString(), updateData).then(() => {
+                saveChecklist(this.context, updateData).then(() => {
                     // Return to the Landing slide with the new data.
                     this.props.onRefresh(updateData);
                     this.props.onBack();
@@ -111,6 +110,284 @@ export default class Add extends React.Component<AddProps> {
         }
     };
 
+    /**
+     * pickTemplate
+     *
+     * Start the checklist from the chosen template.
+     * Templates with placeholder variables ask the user for their values first.
+     *
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Add
+     * @since 1.1.0
+     */
+    pickTemplate = ($event: React.ChangeEvent<HTMLSelectElement>) => {
+        const templateId = $event.target.value;
+        const template = this.state.templates.find((current) => current.id.toString() === templateId);
+
+        // Start from scratch again without a template.
+        if (!template) {
+            this.setState((state) => ({ template: null, templateId: '', templateKey: state.templateKey + 1 }));
+            return;
+        }
+
+        if (findVariables(template).length) {
+            this.setState({ pendingTemplate: template, values: {} });
+        } else {
+            this.useTemplate(template);
+        }
+    };
+
+    /**
+     * updateValue
+     *
+     * Update the value of the given placeholder variable in state.
+     *
+     * @param {string} name Name of the variable
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Add
+     * @since 1.1.0
+     */
+    updateValue = (name: string, $event: React.ChangeEvent<HTMLInputElement>) => {
+        const value = $event.target.value;
+
+        this.setState((state) => ({
+            values: Object.assign({}, state.values, { [name]: value }),
+        }));
+    };
+
+    /**
+     * useTemplate
+     *
+     * Fill in the `edit` template with the given template and the variable values in state.
+     *
+     * @param {TemplateData} template The template to start from
+     * @memberof Add
+     * @since 1.1.0
+     */
+    useTemplate = (template: TemplateData) => {
+        // A new key lets the checklist pick up the template data.
+        this.setState((state) => ({
+            pendingTemplate: null,
+            template: fillTemplate(template, state.values),
+            templateId: template.id.toString(),
+            templateKey: state.templateKey + 1,
+        }));
+    };
+
+    /**
+     * cancelTemplate
+     *
+     * Close the variables dialog, keeping the checklist as it was.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    cancelTemplate = () => {
+        this.setState({
+            pendingTemplate: null,
+        });
+    };
+
+    /**
+     * toggleImport
+     *
+     * Switch between writing a checklist and importing Markdown.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    toggleImport = () => {
+        this.setState({
+            importMode: !this.state.importMode,
+        });
+    };
+
+    /**
+     * updateMarkdown
+     *
+     * Update the Markdown in state.
+     *
+     * @param {React.ChangeEvent<HTMLTextAreaElement>} $event
+     * @memberof Add
+     * @since 1.1.0
+     */
+    updateMarkdown = ($event: React.ChangeEvent<HTMLTextAreaElement>) => {
+        this.setState({
+            markdown: $event.target.value,
+        });
+    };
+
+    /**
+     * chooseFile
+     *
+     * Open the file picker to choose a Markdown file.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    chooseFile = () => {
+        this.fileRef.current!.click();
+    };
+
+    /**
+     * uploadMarkdown
+     *
+     * Load the content of the chosen Markdown file.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Add
+     * @since 1.1.0
+     */
+    uploadMarkdown = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = $event.target.files ? $event.target.files[0] : null;
+
+        // Reset the input so the same file can be chosen again.
+        $event.target.value = '';
+
+        if (!file) return;
+
+        readFile(file)
+            .then((content) => this.setState({ markdown: content }))
+            .catch(() => this.props.onMessage('The file could not be read'));
+    };
+
+    /**
+     * importChecklists
+     *
+     * Save every checklist found in the Markdown to storage.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    importChecklists = () => {
+        const checklists = parseMarkdown(this.state.markdown);
+
+        // Let the user know if there was nothing to import.
+        if (!checklists.length) {
+            this.props.onMessage('No tasks like `- [ ] Task` found to import');
+            return;
+        }
+
+        // Save all checklists to storage.
+        Promise.all(checklists.map((data) => saveChecklist(this.context, data))).then(() => {
+            // Return to the Landing slide with the new data.
+            for (const data of checklists) {
+                this.props.onRefresh(data);
+            }
+
+            this.props.onBack();
+
+            // Show a Snackbar message to the user.
+            this.props.onMessage(
+                checklists.length === 1
+                    ? 'Checklist successfully imported'
+                    : `${checklists.length} checklists successfully imported`
+            );
+        });
+    };
+
+    /**
+     * templatePicker
+     *
+     * Renders the HTML for picking a template to start from.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    templatePicker = () => {
+        return (
+            <div className="mdf-template-picker">
+                <label htmlFor="checklist-template">Start from</label>
+                <select id="checklist-template" value={this.state.templateId} onChange={this.pickTemplate}>
+                    <option value="">An empty checklist</option>
+                    {this.state.templates.map((template) => (
+                        <option key={template.id} value={template.id}>
+                            {template.title}
+                        </option>
+                    ))}
+                </select>
+            </div>
+        );
+    };
+
+    /**
+     * variablesDialog
+     *
+     * Renders the dialog asking for the values of the placeholder variables of the pending template.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    variablesDialog = () => {
+        const template = this.state.pendingTemplate!;
+
+        return (
+            <Dialog
+                title={'Fill in the template'}
+                description={`The template "${template.title}" asks for the following values.`}
+                actions={[{ label: 'Use template', onClick: () => this.useTemplate(template) }]}
+                onCancel={this.cancelTemplate}
+            >
+                <div className="mdf-template-variables">
+                    {findVariables(template).map((name) => (
+                        <div className="mdf-textfield" key={name}>
+                            <label htmlFor={`template-variable-${name}`}>{name}</label>
+                            <input
+                                className="mdf-textfield__input"
+                                id={`template-variable-${name}`}
+                                type="text"
+                                value={this.state.values[name] || ''}
+                                onChange={($event) => this.updateValue(name, $event)}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </Dialog>
+        );
+    };
+
+    /**
+     * importTemplate
+     *
+     * Renders the HTML for the Markdown import form.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    importTemplate = () => {
+        return (
+            <div className="mdf-group mdf-group--stacked">
+                <div className="mdf-textfield">
+                    <textarea
+                        className="mdf-textfield__input"
+                        id="checklist-markdown"
+                        name="markdown"
+                        rows={12}
+                        placeholder={'# Checklist title\n- [ ] Open task\n- [x] Done task'}
+                        aria-label="Markdown to import"
+                        value={this.state.markdown}
+                        onChange={($event) => this.updateMarkdown($event)}
+                    ></textarea>
+                </div>
+
+                <button id="upload-markdown" className="mdf-button mdf-button--leading-icon" onClick={this.chooseFile}>
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#launch`}></use>
+                    </svg>
+                    Upload Markdown file
+                </button>
+
+                <input
+                    ref={this.fileRef}
+                    type="file"
+                    accept=".md,.markdown,.txt,text/markdown,text/plain"
+                    hidden
+                    onChange={($event) => this.uploadMarkdown($event)}
+                />
+            </div>
+        );
+    };
+
     render() {
         return (
             <div className="mdf-slide">
@@ -136,16 +413,56 @@ export default class Add extends React.Component<AddProps> {
 
                 <main className="mdf-slide__main">
                     <div className="mdf-slide__content">
-                        <Checklist mode={'edit'} data={null} ref={this.checklistRef}></Checklist>
+                        {this.state.importMode ? (
+                            this.importTemplate()
+                        ) : (
+                            <>
+                                {!!this.state.templates.length && this.templatePicker()}
+
+                                <Checklist
+                                    key={this.state.templateKey}
+                                    mode={'edit'}
+                                    data={this.state.template}
+                                    ref={this.checklistRef}
+                                    suggestions={collectTags(this.props.checklists)}
+                                ></Checklist>
+                            </>
+                        )}
                     </div>
                 </main>
 
                 <footer className="mdf-slide__footer">
-                    <button className="mdf-button mdf-button--filled mdf-button--large" onClick={this.saveChecklist}>
-                        Save checklist
+                    {this.state.importMode ? (
+                        <button
+                            className="mdf-button mdf-button--filled mdf-button--large"
+                            onClick={this.importChecklists}
+                        >
+                            Import checklists
+                        </button>
+                    ) : (
+                        <button
+                            className="mdf-button mdf-button--filled mdf-button--large"
+                            onClick={this.saveChecklist}
+                        >
+                            Save checklist
+                        </button>
+                    )}
+
+                    <button className="mdf-button mdf-button--large" onClick={this.toggleImport}>
+                        {this.state.importMode ? 'Write checklist' : 'Import Markdown'}
                     </button>
                 </footer>
+
+                {this.state.pendingTemplate && this.variablesDialog()}
             </div>
         );
     }
+
+    componentDidMount() {
+        getTemplates(this.context).then((templates) => {
+            this.setState({
+                templates: templates,
+            });
+        });
+    }
 }
@@ -0,0 +1,152 @@
+import React from 'react';
+import dayjs from 'dayjs';
+import { AgendaItem, collectAgenda } from '../../due';
+import { ChecklistData } from '../../types';
+
+import './Agenda.scoped.scss';
+import Icons from '../../assets/images/icons.svg';
+
+interface AgendaProps {
+    checklists: ChecklistData[];
+    onBack: () => void;
+    onOpen: (name: string, data?: ChecklistData | null) => void;
+}
+
+/**
+ * Agenda
+ *
+ * Gathers everything that is due today or overdue across all checklists.
+ *
+ * @export
+ * @class Agenda
+ * @extends {React.Component<AgendaProps>}
+ * @version 1.0.0
+ */
+export default class Agenda extends React.Component<AgendaProps> {
+    /**
+     * openView
+     *
+     * Open the checklist the given item belongs to.
+     *
+     * @param {ChecklistData} data The checklist to open
+     * @memberof Agenda
+     * @since 1.0.0
+     */
+    openView = (data: ChecklistData) => {
+        this.props.onOpen('view', data);
+    };
+
+    /**
+     * listItems
+     *
+     * Render the HTML for the given agenda items.
+     *
+     * @param {AgendaItem[]} items The items to render
+     * @memberof Agenda
+     * @since 1.0.0
+     */
+    listItems = (items: AgendaItem[]) => {
+        return (
+            <ul className="mdf-agenda__list">
+                {items.map((item) => (
+                    <li
+                        className="mdf-agenda__item"
+                        key={`${item.checklist.id}-${item.task ? item.task.id : 'checklist'}`}
+                    >
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="View checklist"
+                            onClick={() => this.openView(item.checklist)}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#${item.task ? 'checkbox-outline' : 'checklist'}`}></use>
+                            </svg>
+                        </button>
+
+                        <div className="mdf-agenda__item-content" onClick={() => this.openView(item.checklist)}>
+                            <h6 className="mdf-agenda__item-title">
+                                {item.task ? item.task.text : item.checklist.title}
+                            </h6>
+
+                            <span className="mdf-agenda__item-meta">
+                                {item.task ? `${item.checklist.title} — ` : 'Checklist — '}
+                                <span className={`mdf-due mdf-due--${item.status}`}>
+                                    Due {dayjs(item.due).format('MMM, DD YYYY')}
+                                </span>
+                            </span>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        );
+    };
+
+    render() {
+        const items = collectAgenda(this.props.checklists);
+        const overdue = items.filter((item) => item.status === 'overdue');
+        const today = items.filter((item) => item.status === 'today');
+
+        return (
+            <div className="mdf-slide">
+                <header className="mdf-slide__header">
+                    <div className="mdf-slide__controls">
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Return to the previous page"
+                            onClick={this.props.onBack}
+                        >
+                            <svg className="mdf-icon mdf-rotate-180" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#arrow-keyboard`}></use>
+                            </svg>
+                        </button>
+                    </div>
+
+                    <h2 className="mdf-slide__title">
+                        Your <span> </span>
+                        <strong>agenda.</strong>
+                    </h2>
+                </header>
+
+                <main className="mdf-slide__main">
+                    <div className="mdf-slide__content">
+                        {items.length ? (
+                            <div className="mdf-agenda">
+                                {!!overdue.length && (
+                                    <section className="mdf-agenda__section">
+                                        <h5 className="mdf-agenda__heading">Overdue</h5>
+                                        {this.listItems(overdue)}
+                                    </section>
+                                )}
+
+                                {!!today.length && (
+                                    <section className="mdf-agenda__section">
+                                        <h5 className="mdf-agenda__heading">Today</h5>
+                                        {this.listItems(today)}
+                                    </section>
+                                )}
+                            </div>
+                        ) : (
+                            <div id="agenda-empty">
+                                <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                    <use href={`${Icons}#done`}></use>
+                                </svg>
+
+                                <p id="agenda-empty-heading">
+                                    Nothing is due today.
+                                    <br />
+                                    <span>Checklists and tasks with a due date show up here once they are due.</span>
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                </main>
+
+                <footer className="mdf-slide__footer">
+                    <button className="mdf-button mdf-button--filled mdf-button--large" onClick={this.props.onBack}>
+                        Return
+                    </button>
+                </footer>
+            </div>
+        );
+    }
+}
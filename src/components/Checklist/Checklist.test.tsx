@@ -0,0 +1,53 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import Checklist from './Checklist';
+import { createTask } from '../../checklists';
+import { checklist } from '../../test-utils/fixtures';
+
+const taskInputs = (container: HTMLElement): HTMLInputElement[] =>
+    Array.from(container.querySelectorAll('.mdf-checklist-textfield .mdf-textfield__input'));
+
+describe('Checklist', () => {
+    test('keeps the inputs unique when a task is removed and another added', () => {
+        const { container } = render(<Checklist data={null} mode="edit" />);
+        const addTask = screen.getByText('Add another task');
+
+        fireEvent.click(addTask);
+        fireEvent.click(addTask);
+        ['One', 'Two', 'Three'].forEach((text, index) =>
+            fireEvent.change(taskInputs(container)[index], { target: { value: text } })
+        );
+
+        // Remove `Two` and add `Four` in its place at the end.
+        fireEvent.click(screen.getAllByLabelText('Remove task')[1]);
+        fireEvent.click(addTask);
+        fireEvent.change(taskInputs(container)[2], { target: { value: 'Four' } });
+
+        const names = taskInputs(container).map((input) => input.name);
+        expect(new Set(names).size).toBe(3);
+
+        // Moving the new task moves that task and no other.
+        fireEvent.keyDown(taskInputs(container)[2], { key: 'ArrowUp', altKey: true });
+        expect(taskInputs(container).map((input) => input.value)).toEqual(['One', 'Four', 'Three']);
+    });
+
+    test('sorts the shown tasks by priority without changing the checklist', () => {
+        const data = checklist(1, {
+            tasks: [
+                createTask('Water plants'),
+                Object.assign(createTask('Pay rent'), { priority: 'urgent' }),
+                Object.assign(createTask('Buy milk'), { priority: 'low' }),
+            ],
+        });
+        const { container } = render(<Checklist data={data} mode="view" />);
+        const shown = () =>
+            Array.from(container.querySelectorAll('.mdf-checklist label')).map((label) => label.textContent);
+
+        fireEvent.click(screen.getByText('Sort by priority'));
+        expect(shown()).toEqual(['Pay rent', 'Buy milk', 'Water plants']);
+        expect(data.tasks.map((task) => task.text)).toEqual(['Water plants', 'Pay rent', 'Buy milk']);
+
+        fireEvent.click(screen.getByText('Sort by priority'));
+        expect(shown()).toEqual(['Water plants', 'Pay rent', 'Buy milk']);
+    });
+});
@@ -1,23 +1,58 @@
 import React, { ChangeEvent } from 'react';
 import Input from './Input';
-import Storage from '../../storage';
+import StorageContext from '../../storage.provider';
 import dayjs from 'dayjs';
-import { ChecklistData } from '../../types';
+import {
+    countTasksLeft,
+    createTask,
+    findSibling,
+    hasSubtasks,
+    moveTasks,
+    normalizeIndents,
+    restoreCompletion,
+    setTaskDone,
+    subtreeEnd,
+    syncParents,
+    updateChecklist,
+} from '../../checklists';
+import { formatDueDate, getDueStatus, parseDueDate } from '../../due';
+import { getScrollbarParent } from '../../helpers';
+import { parsePriority, PRIORITIES, PRIORITY_ACCENTS, PRIORITY_LABELS, sortTasksByPriority } from '../../priority';
+import { createRecurrence, describeRecurrence, WEEKDAYS } from '../../recurrence';
+import { SnackbarAction } from '../../snackbar.provider';
+import { hasTag, normalizeTag, suggestTags } from '../../tags';
+import { ChecklistData, Priority, Recurrence, TaskData } from '../../types';
 
 import './Checklist.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
 
 interface ChecklistProps {
     data: ChecklistData | null;
+    focusTask?: number;
     mode: string;
+    onChange?: (data: ChecklistData) => void;
+    onMessage?: (message: string, action?: SnackbarAction) => void;
+    suggestions?: string[];
 }
 
 interface ChecklistState {
+    announcement: string;
+    collapsed: number[];
     data: ChecklistData | null;
     inputElements: JSX.Element[];
+    prioritySort: boolean;
+    repeatDays: number[];
+    repeatMode: Recurrence['mode'];
+    repeatRule: Recurrence['rule'] | '';
+    tagInput: string;
+    tags: string[];
     titleTouched: boolean;
 }
 
+const SELECTOR = {
+    input: '.mdf-checklist-textfield .mdf-textfield__input',
+};
+
 /**
  * Checklist
  *
@@ -26,25 +61,45 @@ interface ChecklistState {
  * @export
  * @class Checklist
  * @extends {React.Component<ChecklistProps, ChecklistState>}
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class Checklist extends React.Component<ChecklistProps, ChecklistState> {
+    static contextType = StorageContext; // Storage adapter provided by the App.
+    context!: React.ContextType<typeof StorageContext>;
+
     addTaskRef: React.RefObject<HTMLButtonElement> = React.createRef(); // Ref to the `Add task` button
-    createdInputs: number = 0; // # of created inputs.
+    containerRef: React.RefObject<HTMLDivElement> = React.createRef(); // Ref to the checklist container.
+    createdInputs: number = 0; // # of created inputs, never lowered so every input keeps a unique id.
+    dragging: number | null = null; // Id of the input being dragged.
+    due: number | undefined = undefined; // Holds the checklist due date, if any.
     inputElements: JSX.Element[] = []; // Array of created input components.
-    storage = new Storage('checklist'); // localStorage wrapper to save any changes made.
+    priority: Priority | undefined = undefined; // Holds the checklist priority, if any.
     title = ''; // Holds the checklist title.
     titleRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref for the checklist input.
 
-    state = { data: null, inputElements: [], titleTouched: false };
+    state: ChecklistState = {
+        announcement: '',
+        collapsed: [],
+        data: null,
+        inputElements: [],
+        prioritySort: false,
+        repeatDays: [],
+        repeatMode: 'reset',
+        repeatRule: '',
+        tagInput: '',
+        tags: [],
+        titleTouched: false,
+    };
 
     constructor(props: ChecklistProps) {
         super(props);
 
         // Check if we have checklist data available.
         if (this.props.data) {
-            // Set the checklist title.
+            // Set the checklist title, due date and priority.
             this.title = this.props.data.title;
+            this.due = this.props.data.due;
+            this.priority = this.props.data.priority;
         }
     }
 
@@ -66,6 +121,193 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
         this.title = ($event.target as HTMLInputElement).value;
     };
 
+    /**
+     * updateDue
+     *
+     * Update the checklist due date, clearing the date input removes it.
+     *
+     * @param {ChangeEvent<HTMLInputElement>} $event
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    updateDue = ($event: ChangeEvent<HTMLInputElement>) => {
+        this.due = parseDueDate(($event.target as HTMLInputElement).value);
+    };
+
+    /**
+     * updatePriority
+     *
+     * Update the checklist priority, an empty value removes it.
+     *
+     * @param {ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    updatePriority = ($event: ChangeEvent<HTMLSelectElement>) => {
+        this.priority = parsePriority($event.target.value);
+    };
+
+    /**
+     * updateRepeatRule
+     *
+     * Update how often the checklist repeats, an empty value stops it from repeating.
+     *
+     * @param {ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    updateRepeatRule = ($event: ChangeEvent<HTMLSelectElement>) => {
+        this.setState({
+            repeatRule: $event.target.value as Recurrence['rule'] | '',
+        });
+    };
+
+    /**
+     * toggleRepeatDay
+     *
+     * Add or remove the given weekday for weekly repeating checklists.
+     *
+     * @param {number} day The weekday, `0` is Sunday
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    toggleRepeatDay = (day: number) => {
+        const days = this.state.repeatDays;
+
+        this.setState({
+            repeatDays: days.includes(day) ? days.filter((current) => current !== day) : days.concat(day).sort(),
+        });
+    };
+
+    /**
+     * updateRepeatMode
+     *
+     * Update whether the checklist is reset or copied when it repeats.
+     *
+     * @param {ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    updateRepeatMode = ($event: ChangeEvent<HTMLSelectElement>) => {
+        this.setState({
+            repeatMode: $event.target.value as Recurrence['mode'],
+        });
+    };
+
+    /**
+     * getRecurrence
+     *
+     * Returns the recurrence chosen in the `edit` template, if any.
+     * An unchanged rule keeps its next occurrence, a new one starts after today.
+     *
+     * @return {*} {(Recurrence | undefined)}
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    getRecurrence = (): Recurrence | undefined => {
+        const { repeatDays, repeatMode, repeatRule } = this.state;
+        const current = this.props.data?.recurrence;
+
+        if (!repeatRule) {
+            return undefined;
+        }
+
+        if (current && current.rule === repeatRule && current.days.join() === repeatDays.join()) {
+            return Object.assign({}, current, { mode: repeatMode });
+        }
+
+        return createRecurrence(repeatRule, repeatRule === 'weekly' ? repeatDays : [], repeatMode);
+    };
+
+    /**
+     * updateTagInput
+     *
+     * Update the tag being typed in state.
+     * Typing a comma adds the tag right away.
+     *
+     * @param {ChangeEvent<HTMLInputElement>} $event
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    updateTagInput = ($event: ChangeEvent<HTMLInputElement>) => {
+        const value = $event.target.value;
+
+        if (value.endsWith(',')) {
+            this.addTag(value.slice(0, -1));
+        } else {
+            this.setState({
+                tagInput: value,
+            });
+        }
+    };
+
+    /**
+     * handleTagKeyDown
+     *
+     * Add the typed tag with `Enter` and remove the last tag with `Backspace` on an empty input.
+     *
+     * @param {React.KeyboardEvent<HTMLInputElement>} $event
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    handleTagKeyDown = ($event: React.KeyboardEvent<HTMLInputElement>) => {
+        if ($event.key === 'Enter') {
+            $event.preventDefault();
+            this.addTag(this.state.tagInput);
+        } else if ($event.key === 'Backspace' && !this.state.tagInput && this.state.tags.length) {
+            this.removeTag(this.state.tags[this.state.tags.length - 1]);
+        }
+    };
+
+    /**
+     * addTag
+     *
+     * Add the given tag to the checklist, unless it's empty or there already.
+     *
+     * @param {string} text The tag to add
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    addTag = (text: string) => {
+        const tag = normalizeTag(text);
+
+        this.setState((state) => ({
+            tagInput: '',
+            tags: tag && !hasTag(state.tags, tag) ? state.tags.concat(tag) : state.tags,
+        }));
+    };
+
+    /**
+     * removeTag
+     *
+     * Remove the given tag from the checklist.
+     *
+     * @param {string} tag The tag to remove
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    removeTag = (tag: string) => {
+        this.setState((state) => ({
+            tags: state.tags.filter((current) => current !== tag),
+        }));
+    };
+
+    /**
+     * getTags
+     *
+     * Returns the tags chosen in the `edit` template, including one that is still being typed.
+     *
+     * @return {*} {(string[] | undefined)}
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    getTags = (): string[] | undefined => {
+        const typed = normalizeTag(this.state.tagInput);
+        const tags = typed && !hasTag(this.state.tags, typed) ? this.state.tags.concat(typed) : this.state.tags;
+
+        return tags.length ? tags : undefined;
+    };
+
     /**
      * titleHasError
      *
@@ -104,6 +346,9 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
                     focus={focus}
                     isRemovable={true}
                     onRemove={this.removeInput}
+                    onMove={this.moveInputBy}
+                    onDragStart={this.startDrag}
+                    onDrop={this.dropInput}
                 ></Input>
             ),
         });
@@ -114,17 +359,20 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
      *
      * Loop over any existing tasks data we have and insert the required input elements.
      *
+     * @param {(ChecklistData | null)} [data=this.props.data] The data to create inputs for
      * @memberof Checklist
      * @since 1.0.0
      */
-    insertInputs = () => {
+    insertInputs = (data: ChecklistData | null = this.props.data) => {
         // Make sure we have data first.
-        if (this.props.data) {
+        if (data) {
             // We use this.
             this.inputElements = [];
 
-            // Loop over the tasks in the data set.
-            for (const task of this.props.data.tasks) {
+            // Loop over the tasks in the order they are shown.
+            const tasks = this.orderTasks(data.tasks);
+
+            tasks.forEach((task, index) => {
                 // Update the inputs counter.
                 this.createdInputs++;
 
@@ -133,16 +381,25 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
                     <Input
                         key={this.createdInputs}
                         id={this.createdInputs}
-                        value={task}
+                        taskId={task.id}
+                        value={task.text}
+                        indent={task.indent}
+                        due={task.due}
+                        priority={task.priority}
                         mode={this.props.mode}
                         focus={false}
-                        checked={this.isComplete(task)}
+                        checked={task.done}
+                        hasSubtasks={hasSubtasks(tasks, index)}
                         isRemovable={this.props.mode === 'edit' ? true : false}
                         onRemove={this.removeInput}
                         onComplete={this.completeTask}
+                        onToggle={this.toggleCollapsed}
+                        onMove={this.moveInputBy}
+                        onDragStart={this.startDrag}
+                        onDrop={this.dropInput}
                     ></Input>
                 );
-            }
+            });
 
             // Update the state inputs.
             this.setState({
@@ -151,40 +408,16 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
         }
     };
 
-    /**
-     * isComplete
-     *
-     * Whether or not the given task is complete.
-     *
-     * @param {string} task The task to check for
-     * @memberof Checklist
-     * @since 1.0.0
-     */
-    isComplete = (task: string): boolean => {
-        // Default task completion state is false.
-        let isComplete = false;
-
-        if (this.props.data) {
-            // Change boolean to true if the task is done.
-            if (this.props.data.done.includes(task)) {
-                isComplete = true;
-            }
-        }
-
-        return isComplete;
-    };
-
     /**
      * removeInput
      *
      * Remove the given input from the DOM and update our state values.
      *
      * @param {number} id The id of the input we are removing
-     * @param {string} task The task assigned to the input
      * @memberof Checklist
      * @since 1.0.0
      */
-    removeInput = (id: number, task: string) => {
+    removeInput = (id: number) => {
         // Store the current set of inputs.
         this.inputElements = this.state.inputElements;
 
@@ -200,33 +433,8 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
                 inputElements: this.inputElements,
             });
 
-            // Update counter.
-            this.createdInputs--;
-
-            // Make sure the count does not drop below 1.
-            if (this.createdInputs < 1) {
-                this.createdInputs = 1;
-            }
-
             // Set focus to the `Add task` button.
             this.focusAddButton();
-
-            if (this.state.data) {
-                // Get the current state data.
-                const currentData = this.state.data as ChecklistData;
-
-                // Check if the input we are removing belongs to a completed task.
-                if (currentData.done.includes(task)) {
-                    // Remove the task from the array.
-                    const index = currentData.done.indexOf(task);
-                    currentData.done.splice(index, 1);
-
-                    // Update the state data.
-                    this.setState({
-                        data: currentData,
-                    });
-                }
-            }
         }
     };
 
@@ -235,42 +443,452 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
      *
      * Marks the given task as complete or incomplete on repeated calls.
      *
-     * @param {string} task The task to check for
+     * @param {number} taskId The id of the task to toggle
      * @memberof Checklist
      * @since 1.0.0
      */
-    completeTask = (task: string) => {
+    completeTask = (taskId: number) => {
         if (this.state.data) {
             // Get the state data.
             const currentData = this.state.data as ChecklistData;
 
-            // Store the completed tasks so far.
-            const completedTasks = currentData.done;
+            // Find out whether the task is going to be done, so the same change can be applied to a newer stored version.
+            const done = !currentData.tasks.find((task) => task.id === taskId)?.done;
+
+            // Set the completion of the matching task and its subtasks, parents follow along.
+            const update = (data: ChecklistData) =>
+                Object.assign({}, data, { tasks: setTaskDone(data.tasks, taskId, done) });
+
+            // Save the new data to storage.
+            updateChecklist(this.context, currentData, update).then((updateData) => {
+                // Update the state data.
+                this.setState({
+                    data: updateData,
+                });
+
+                // Re-create the inputs if subtasks or parents changed along with this task.
+                const changed = updateData.tasks.some(
+                    (task) =>
+                        task.id !== taskId &&
+                        task.done !== currentData.tasks.find((current) => current.id === task.id)?.done
+                );
+
+                if (changed) {
+                    this.insertInputs(updateData);
+                }
 
-            // Get the index of the current task.
-            const index = completedTasks.findIndex((value) => value === task);
+                // Let the parent know about the change.
+                if (this.props.onChange) {
+                    this.props.onChange(updateData);
+                }
 
-            if (completedTasks[index]) {
-                // If the tasks is already complete, remove it from the array.
-                completedTasks.splice(index, 1);
-            } else {
-                // Otherwise add it.
-                completedTasks.push(task);
+                // Display a message to the user, offering to undo the change.
+                if (this.props.onMessage) {
+                    this.props.onMessage(done ? 'Task marked as done' : 'Task marked as open', {
+                        label: 'Undo',
+                        onClick: () => this.undoCompletion(currentData),
+                    });
+                }
+            });
+        }
+    };
+
+    /**
+     * undoCompletion
+     *
+     * Restore the completion of the tasks as it was in the given earlier version of the checklist.
+     *
+     * @param {ChecklistData} previous The earlier version of the checklist
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    undoCompletion = (previous: ChecklistData) => {
+        updateChecklist(this.context, this.state.data!, (data) => restoreCompletion(data, previous)).then(
+            (updateData) => {
+                // Update the state data and show the restored completion.
+                this.setState({
+                    data: updateData,
+                });
+
+                this.insertInputs(updateData);
+
+                // Let the parent know about the change.
+                if (this.props.onChange) {
+                    this.props.onChange(updateData);
+                }
             }
+        );
+    };
 
-            // Overwrite the completed tasks in our checklist data.
-            currentData.done = completedTasks;
+    /**
+     * toggleCollapsed
+     *
+     * Show or hide the subtasks of the given task.
+     *
+     * @param {number} taskId The id of the parent task
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    toggleCollapsed = (taskId: number) => {
+        const collapsed: number[] = this.state.collapsed;
 
-            // Save the new data to storage.
-            this.storage.set(currentData.id.toString(), currentData).then(() => {
-                // Update the state data.
+        this.setState({
+            collapsed: collapsed.includes(taskId)
+                ? collapsed.filter((current) => current !== taskId)
+                : collapsed.concat(taskId),
+        });
+    };
+
+    /**
+     * visibleInputs
+     *
+     * Returns the inputs of the `view` template, leaving out the subtasks of collapsed tasks.
+     *
+     * @return {*} {JSX.Element[]}
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    visibleInputs = (): JSX.Element[] => {
+        const data = this.state.data as ChecklistData | null;
+        const collapsed: number[] = this.state.collapsed;
+        const inputs: JSX.Element[] = this.state.inputElements;
+
+        if (!data) {
+            return inputs;
+        }
+
+        // Collect the ids of all tasks nested inside a collapsed task.
+        const hidden: number[] = [];
+
+        data.tasks.forEach((task, index) => {
+            if (collapsed.includes(task.id)) {
+                data.tasks.slice(index + 1, subtreeEnd(data.tasks, index)).forEach((child) => hidden.push(child.id));
+            }
+        });
+
+        return inputs
+            .filter((input) => !hidden.includes(input.props.taskId))
+            .map((input) => React.cloneElement(input, { collapsed: collapsed.includes(input.props.taskId) }));
+    };
+
+    /**
+     * revealTask
+     *
+     * Expand the tasks holding the given task, then scroll it into view and let it stand out for a moment.
+     *
+     * @param {number} taskId The id of the task to reveal
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    revealTask = (taskId: number) => {
+        const data = this.state.data as ChecklistData | null;
+        const index = data ? data.tasks.findIndex((task) => task.id === taskId) : -1;
+
+        if (!data || index === -1) {
+            return;
+        }
+
+        // Collect the parents of the task, walking back up one level at a time.
+        const parents: number[] = [];
+        let indent = data.tasks[index].indent || 0;
+
+        for (let current = index - 1; current >= 0 && indent > 0; current--) {
+            if ((data.tasks[current].indent || 0) < indent) {
+                parents.push(data.tasks[current].id);
+                indent = data.tasks[current].indent || 0;
+            }
+        }
+
+        this.setState(
+            (state) => ({ collapsed: state.collapsed.filter((current) => !parents.includes(current)) }),
+            () => {
+                const item = this.containerRef.current
+                    ?.querySelector(`.mdf-drag-handle[data-task-id="${taskId}"]`)
+                    ?.closest<HTMLElement>('.mdf-checklist__item');
+
+                if (!item) return;
+
+                // Scroll only the slide, so the slides themselves stay in place.
+                const parent = getScrollbarParent(item);
+                const offset = item.getBoundingClientRect().top - parent.getBoundingClientRect().top;
+
+                parent.scrollTop += offset - parent.clientHeight / 2 + item.offsetHeight / 2;
+                item.classList.add('mdf-checklist__item--found');
+            }
+        );
+    };
+
+    /**
+     * getTasks
+     *
+     * Collect the tasks from the inputs of the `edit` template.
+     * Inputs that belong to an existing task keep its id and completion, new inputs become new tasks.
+     *
+     * @return {*} {TaskData[]}
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    getTasks = (): TaskData[] => {
+        // Store all tasks in this array.
+        const tasks: TaskData[] = [];
+
+        // The tasks we started out with, if any.
+        const existingTasks = this.props.data ? this.props.data.tasks : [];
+
+        // Get all text inputs of this checklist, other slides on the stack may hold checklists as well.
+        const inputs: HTMLInputElement[] = Array.from(this.containerRef.current!.querySelectorAll(SELECTOR.input));
+
+        for (const input of inputs) {
+            if (input.value.length) {
+                // Look up the task the input was created for.
+                const existing = existingTasks.find((task) => task.id.toString() === input.dataset.taskId);
+
+                // Keep the existing task with its updated text or create a new one, with the chosen indent, due date and priority.
+                const indent = Number(input.dataset.indent) || 0;
+                const due = parseDueDate(input.dataset.due || '');
+                const priority = parsePriority(input.dataset.priority || '');
+                const task = existing ? Object.assign({}, existing, { text: input.value }) : createTask(input.value);
+
+                tasks.push(Object.assign(task, { due: due, indent: indent, priority: priority }));
+            }
+        }
+
+        return normalizeIndents(tasks);
+    };
+
+    /**
+     * getIndents
+     *
+     * Returns the indent of every input, in the order they are shown.
+     *
+     * @return {*} {number[]}
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    getIndents = (): number[] => {
+        // The `view` template shows the saved tasks, in the order they are shown.
+        if (this.props.mode !== 'edit') {
+            const data = this.state.data as ChecklistData | null;
+
+            return data ? this.orderTasks(data.tasks).map((task) => task.indent || 0) : [];
+        }
+
+        // The `edit` template keeps the indent of every input on the input itself.
+        const inputs: HTMLInputElement[] = Array.from(this.containerRef.current!.querySelectorAll(SELECTOR.input));
+
+        return inputs.map((input) => Number(input.dataset.indent) || 0);
+    };
+
+    /**
+     * startDrag
+     *
+     * Remember the input that is being dragged.
+     *
+     * @param {number} id The id of the dragged input
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    startDrag = (id: number) => {
+        this.dragging = id;
+    };
+
+    /**
+     * dropInput
+     *
+     * Move the dragged input to the place of the input it was dropped on.
+     *
+     * @param {number} id The id of the input the dragged input was dropped on
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    dropInput = (id: number) => {
+        if (this.dragging !== null && this.dragging !== id) {
+            this.moveInput(this.dragging, id);
+        }
+
+        this.dragging = null;
+    };
+
+    /**
+     * moveInputBy
+     *
+     * Move the given input above the task before it or below the task after it, skipping their subtasks.
+     *
+     * @param {number} id The id of the input to move
+     * @param {(-1 | 1)} direction `-1` to move up, `1` to move down
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    moveInputBy = (id: number, direction: -1 | 1) => {
+        const inputs: JSX.Element[] = this.state.inputElements;
+        const index = inputs.findIndex((input) => input.props.id === id);
+        const sibling = findSibling(
+            this.getIndents().map((indent) => ({ indent: indent })),
+            index,
+            direction
+        );
+
+        if (sibling === -1) {
+            this.announce(`The task can't be moved ${direction < 0 ? 'up' : 'down'} any further`);
+        } else {
+            this.moveInput(id, inputs[sibling].props.id);
+        }
+    };
+
+    /**
+     * moveInput
+     *
+     * Move the given input and its subtasks to the place of another input.
+     * The `view` template saves the new order right away, the `edit` template once the checklist is saved.
+     *
+     * @param {number} id The id of the input to move
+     * @param {number} targetId The id of the input to move it to
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    moveInput = (id: number, targetId: number) => {
+        const inputs: JSX.Element[] = this.state.inputElements;
+        const from = inputs.findIndex((input) => input.props.id === id);
+        const to = inputs.findIndex((input) => input.props.id === targetId);
+
+        if (from === -1 || to === -1) return;
+
+        if (this.props.mode === 'edit') {
+            // Move the inputs along with their indent.
+            const indents = this.getIndents();
+            const moved = moveTasks(
+                inputs.map((input, index) => ({ indent: indents[index], input: input })),
+                from,
+                to
+            );
+
+            this.setState(
+                {
+                    inputElements: moved.map((item) => React.cloneElement(item.input, { indent: item.indent })),
+                },
+                () => {
+                    // Keep the focus on the moved task.
+                    this.containerRef.current!.querySelector<HTMLInputElement>(`[name="task-${id + 1}"]`)?.focus();
+                    this.announceMove(id);
+                }
+            );
+        } else if (this.state.prioritySort) {
+            // The shown order isn't the saved one, so there is no place to move the task to.
+            this.announce('Show the saved order to move tasks');
+        } else if (this.state.data) {
+            const taskId: number = inputs[from].props.taskId;
+            const targetTaskId: number = inputs[to].props.taskId;
+
+            // Move the task in whatever version of the checklist is stored, parents follow the new structure.
+            const update = (data: ChecklistData) => {
+                const tasks = moveTasks(
+                    data.tasks,
+                    data.tasks.findIndex((task) => task.id === taskId),
+                    data.tasks.findIndex((task) => task.id === targetTaskId)
+                );
+
+                return Object.assign({}, data, { tasks: syncParents(normalizeIndents(tasks)) });
+            };
+
+            // Save the new order to storage.
+            updateChecklist(this.context, this.state.data as ChecklistData, update).then((updateData) => {
+                // Update the state data and show the new order.
                 this.setState({
-                    data: currentData,
+                    data: updateData,
                 });
+
+                this.insertInputs(updateData);
+
+                // Keep the focus on the moved task.
+                setTimeout(() => {
+                    this.containerRef
+                        .current!.querySelector<HTMLElement>(`.mdf-drag-handle[data-task-id="${taskId}"]`)
+                        ?.focus();
+                    this.announceMove(taskId);
+                });
+
+                // Let the parent know about the change.
+                if (this.props.onChange) {
+                    this.props.onChange(updateData);
+                }
             });
         }
     };
 
+    /**
+     * orderTasks
+     *
+     * Returns the given tasks in the order they are shown.
+     * Sorted by priority, the most important tasks come first and subtasks stay with their parent.
+     *
+     * @param {TaskData[]} tasks The saved tasks
+     * @return {*} {TaskData[]}
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    orderTasks = (tasks: TaskData[]): TaskData[] => {
+        return this.state.prioritySort ? sortTasksByPriority(tasks) : tasks;
+    };
+
+    /**
+     * togglePrioritySort
+     *
+     * Show the tasks sorted by priority, or in their saved order again.
+     * Only the view changes, the saved order stays the same.
+     *
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    togglePrioritySort = () => {
+        this.setState(
+            (state) => ({ prioritySort: !state.prioritySort }),
+            () => {
+                this.insertInputs(this.state.data);
+                this.announce(
+                    this.state.prioritySort ? 'Tasks sorted by priority' : 'Tasks shown in their saved order'
+                );
+            }
+        );
+    };
+
+    /**
+     * announceMove
+     *
+     * Tell screen reader users where the moved task ended up.
+     *
+     * @param {number} id The id of the moved input, or the task id in the `view` template
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    announceMove = (id: number) => {
+        if (this.props.mode === 'edit') {
+            const inputs: HTMLInputElement[] = Array.from(this.containerRef.current!.querySelectorAll(SELECTOR.input));
+            const index = inputs.findIndex((input) => input.name === `task-${id + 1}`);
+
+            this.announce(`Moved ${inputs[index]?.value || 'task'} to position ${index + 1} of ${inputs.length}`);
+        } else {
+            const tasks = (this.state.data as ChecklistData).tasks;
+            const index = tasks.findIndex((task) => task.id === id);
+
+            this.announce(`Moved ${tasks[index].text} to position ${index + 1} of ${tasks.length}`);
+        }
+    };
+
+    /**
+     * announce
+     *
+     * Read the given text to screen reader users.
+     *
+     * @param {string} text The text to read
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    announce = (text: string) => {
+        this.setState({
+            announcement: text,
+        });
+    };
+
     /**
      * focusAddButton
      *
@@ -320,7 +938,7 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
      */
     editTemplate = () => {
         return (
-            <div className="mdf-group mdf-group--stacked">
+            <div ref={this.containerRef} className="mdf-group mdf-group--stacked">
                 <div
                     className={`mdf-textfield mdf-textfield--has-helper ${
                         this.titleHasError() ? 'mdf-textfield--state-error' : ''
@@ -345,8 +963,44 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
                     )}
                 </div>
 
+                <div className="mdf-checklist-due">
+                    <label htmlFor="checklist-due">Due date</label>
+                    <input
+                        id="checklist-due"
+                        type="date"
+                        name="due"
+                        defaultValue={formatDueDate(this.props.data?.due)}
+                        onChange={($event) => this.updateDue($event)}
+                    />
+                </div>
+
+                <div className="mdf-checklist-due">
+                    <label htmlFor="checklist-priority">Priority</label>
+                    <select
+                        id="checklist-priority"
+                        name="priority"
+                        defaultValue={this.props.data?.priority || ''}
+                        onChange={($event) => this.updatePriority($event)}
+                    >
+                        <option value="">No priority</option>
+                        {PRIORITIES.map((priority) => (
+                            <option key={priority} value={priority}>
+                                {PRIORITY_LABELS[priority]}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                {this.repeatTemplate()}
+
+                {this.tagsTemplate()}
+
                 {this.state.inputElements}
 
+                <div className="mdf-announcement" role="status" aria-live="polite">
+                    {this.state.announcement}
+                </div>
+
                 <button
                     ref={this.addTaskRef}
                     id="add-input"
@@ -362,6 +1016,123 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
         );
     };
 
+    /**
+     * repeatTemplate
+     *
+     * Template for the repeat options of the `edit` mode.
+     *
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    repeatTemplate = () => {
+        return (
+            <div className="mdf-checklist-repeat">
+                <div className="mdf-checklist-due">
+                    <label htmlFor="checklist-repeat">Repeat</label>
+                    <select id="checklist-repeat" value={this.state.repeatRule} onChange={this.updateRepeatRule}>
+                        <option value="">Never</option>
+                        <option value="daily">Daily</option>
+                        <option value="weekdays">On weekdays</option>
+                        <option value="weekly">Weekly</option>
+                        <option value="monthly">Monthly</option>
+                    </select>
+                </div>
+
+                {this.state.repeatRule === 'weekly' && (
+                    <div className="mdf-checklist-repeat__days" role="group" aria-label="Repeat on">
+                        {WEEKDAYS.map((name, day) => (
+                            <button
+                                key={day}
+                                className={`mdf-button mdf-button--small ${
+                                    this.state.repeatDays.includes(day) ? 'mdf-button--filled' : ''
+                                }`}
+                                aria-pressed={this.state.repeatDays.includes(day)}
+                                onClick={() => this.toggleRepeatDay(day)}
+                            >
+                                {name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {this.state.repeatRule && (
+                    <div className="mdf-checklist-due">
+                        <label htmlFor="checklist-repeat-mode">On each repeat</label>
+                        <select
+                            id="checklist-repeat-mode"
+                            value={this.state.repeatMode}
+                            onChange={this.updateRepeatMode}
+                        >
+                            <option value="reset">Archive and reset this checklist</option>
+                            <option value="clone">Keep this checklist and start a copy</option>
+                        </select>
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    /**
+     * tagsTemplate
+     *
+     * Template for the tags of the `edit` mode, existing tags are suggested while typing.
+     *
+     * @memberof Checklist
+     * @since 1.1.0
+     */
+    tagsTemplate = () => {
+        const suggestions = this.state.tagInput
+            ? suggestTags(this.props.suggestions || [], this.state.tagInput, this.state.tags).slice(0, 5)
+            : [];
+
+        return (
+            <div className="mdf-checklist-tags">
+                <div className="mdf-checklist-due">
+                    <label htmlFor="checklist-tags">Tags</label>
+                    <input
+                        id="checklist-tags"
+                        type="text"
+                        name="tags"
+                        placeholder="Add a tag..."
+                        autoComplete="off"
+                        value={this.state.tagInput}
+                        onChange={this.updateTagInput}
+                        onKeyDown={this.handleTagKeyDown}
+                    />
+                </div>
+
+                {!!suggestions.length && (
+                    <div className="mdf-checklist-tags__list" role="group" aria-label="Existing tags">
+                        {suggestions.map((tag) => (
+                            <button key={tag} className="mdf-tag mdf-tag--suggestion" onClick={() => this.addTag(tag)}>
+                                {tag}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {!!this.state.tags.length && (
+                    <ul className="mdf-checklist-tags__list" aria-label="Tags">
+                        {this.state.tags.map((tag) => (
+                            <li key={tag} className="mdf-tag">
+                                {tag}
+                                <button
+                                    className="mdf-tag__remove"
+                                    aria-label={`Remove tag ${tag}`}
+                                    onClick={() => this.removeTag(tag)}
+                                >
+                                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                        <use href={`${Icons}#clear`}></use>
+                                    </svg>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        );
+    };
+
     /**
      * viewTemplate
      *
@@ -373,27 +1144,83 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
      */
     viewTemplate = () => {
         return (
-            <div className="mdf-group mdf-group--stacked">
+            <div ref={this.containerRef} className="mdf-group mdf-group--stacked">
                 <div className="mdf-checklist-header">
                     <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
                         <use href={`${Icons}#checklist`}></use>
                     </svg>
 
                     <div className="mdf-checklist-header__content">
-                        <h6 className="mdf-checklist-header__title">{this.props.data!.title}</h6>
+                        <h6 className="mdf-checklist-header__title">
+                            {this.props.data!.title}
+
+                            {this.props.data!.priority && (
+                                <span
+                                    className={`mdf-priority mdf-priority--${
+                                        PRIORITY_ACCENTS[this.props.data!.priority]
+                                    }`}
+                                    title={`${PRIORITY_LABELS[this.props.data!.priority]} priority`}
+                                    aria-label={`${PRIORITY_LABELS[this.props.data!.priority]} priority`}
+                                    role="img"
+                                ></span>
+                            )}
+                        </h6>
 
                         {this.state.data && (
                             <span className="mdf-checklist-header__meta">
                                 Created {this.date(this.props.data!.time)} at {this.time(this.props.data!.time)} &mdash;{' '}
-                                Tasks left:{' '}
-                                {(this.state.data as ChecklistData).tasks.length -
-                                    (this.state.data as ChecklistData).done.length}
+                                Tasks left: {countTasksLeft(this.state.data as ChecklistData)}
+                            </span>
+                        )}
+
+                        {!!this.props.data!.tags?.length && (
+                            <ul className="mdf-checklist-tags__list" aria-label="Tags">
+                                {this.props.data!.tags.map((tag) => (
+                                    <li key={tag} className="mdf-tag">
+                                        {tag}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {this.props.data!.recurrence && (
+                            <span className="mdf-checklist-header__meta">
+                                {describeRecurrence(this.props.data!.recurrence)} &mdash; next on{' '}
+                                {this.date(this.props.data!.recurrence.next)}
+                            </span>
+                        )}
+
+                        {this.props.data!.due !== undefined && (
+                            <span
+                                className={`mdf-checklist-header__meta mdf-due mdf-due--${getDueStatus(
+                                    this.props.data!.due
+                                )}`}
+                            >
+                                Due {this.date(this.props.data!.due)}
                             </span>
                         )}
                     </div>
                 </div>
 
-                <ul className="mdf-checklist">{this.state.inputElements}</ul>
+                {this.state.data && (this.state.data as ChecklistData).tasks.some((task) => task.priority) && (
+                    <button
+                        id="sort-priority"
+                        className="mdf-button mdf-button--leading-icon"
+                        aria-pressed={this.state.prioritySort}
+                        onClick={this.togglePrioritySort}
+                    >
+                        <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                            <use href={`${Icons}#sort`}></use>
+                        </svg>
+                        Sort by priority
+                    </button>
+                )}
+
+                <ul className="mdf-checklist">{this.visibleInputs()}</ul>
+
+                <div className="mdf-announcement" role="status" aria-live="polite">
+                    {this.state.announcement}
+                </div>
             </div>
         );
     };
@@ -411,16 +1238,49 @@ export default class Checklist extends React.Component<ChecklistProps, Checklist
 
         // Check if we have checklist data available.
         if (this.props.data) {
-            // Update the data state.
+            // Update the data state and the repeat options.
+            const recurrence = this.props.data.recurrence;
+
             this.setState({
                 data: this.props.data,
+                repeatDays: recurrence ? recurrence.days : [],
+                repeatMode: recurrence ? recurrence.mode : 'reset',
+                repeatRule: recurrence ? recurrence.rule : '',
+                tags: this.props.data.tags || [],
             });
 
             // Create inputs for the available data.
             this.insertInputs();
+
+            // Scroll to the requested task once the slide is in view.
+            if (this.props.mode === 'view' && this.props.focusTask !== undefined) {
+                const taskId = this.props.focusTask;
+                setTimeout(() => this.revealTask(taskId), 360);
+            }
         } else {
             // If we have no data, create a starting input.
             this.createInput(false);
         }
     }
+
+    componentDidUpdate(prevProps: ChecklistProps) {
+        // Show changes made to the checklist on another slide, like the Edit slide opened on top of this one.
+        // Changes we made ourselves are already shown.
+        if (
+            this.props.mode === 'view' &&
+            this.props.data &&
+            this.props.data !== prevProps.data &&
+            this.props.data !== this.state.data
+        ) {
+            // Update the title and the data state.
+            this.title = this.props.data.title;
+
+            this.setState({
+                data: this.props.data,
+            });
+
+            // Re-create the inputs for the updated data.
+            this.insertInputs();
+        }
+    }
 }
@@ -1,21 +1,39 @@
 import React, { ChangeEvent } from 'react';
+import dayjs from 'dayjs';
+import { formatDueDate, getDueStatus } from '../../due';
+import { PRIORITIES, PRIORITY_ACCENTS, PRIORITY_LABELS } from '../../priority';
+import { Priority } from '../../types';
 import './Input.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
 
 interface InputProps {
     checked?: boolean;
+    collapsed?: boolean;
     done?: boolean;
+    due?: number;
     focus: boolean;
+    hasSubtasks?: boolean;
     id: number;
+    indent?: number;
     isRemovable: boolean;
     mode: string;
-    onComplete?: (task: string) => void;
-    onRemove?: (index: number, task: string) => void;
+    onComplete?: (taskId: number) => void;
+    onDragStart?: (id: number) => void;
+    onDrop?: (id: number) => void;
+    onMove?: (id: number, direction: -1 | 1) => void;
+    onRemove?: (index: number) => void;
+    onToggle?: (taskId: number) => void;
+    priority?: Priority;
+    taskId?: number;
     value?: string;
 }
 
 interface InputState {
     checked: boolean;
+    dropTarget: boolean;
+    due: string;
+    indent: number;
+    priority: string;
     value: string;
 }
 
@@ -27,12 +45,12 @@ interface InputState {
  * @export
  * @class Input
  * @extends {React.Component<InputProps, InputState>}
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class Input extends React.Component<InputProps, InputState> {
     inputRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the input element.
 
-    state = { checked: false, value: '' };
+    state = { checked: false, dropTarget: false, due: '', indent: 0, priority: '', value: '' };
 
     /**
      * updateChecked
@@ -64,6 +82,36 @@ export default class Input extends React.Component<InputProps, InputState> {
         });
     };
 
+    /**
+     * updateDue
+     *
+     * Update the due date of the task in state, an empty value removes it.
+     *
+     * @param {ChangeEvent<HTMLInputElement>} $event
+     * @memberof Input
+     * @since 1.1.0
+     */
+    updateDue = ($event: ChangeEvent<HTMLInputElement>) => {
+        this.setState({
+            due: ($event.target as HTMLInputElement).value,
+        });
+    };
+
+    /**
+     * updatePriority
+     *
+     * Update the priority of the task in state, an empty value removes it.
+     *
+     * @param {ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Input
+     * @since 1.1.0
+     */
+    updatePriority = ($event: ChangeEvent<HTMLSelectElement>) => {
+        this.setState({
+            priority: $event.target.value,
+        });
+    };
+
     /**
      * completeTask
      *
@@ -73,8 +121,8 @@ export default class Input extends React.Component<InputProps, InputState> {
      * @since 1.0.0
      */
     completeTask = () => {
-        if (this.props.onComplete && this.props.value) {
-            this.props.onComplete(this.props.value);
+        if (this.props.onComplete && this.props.taskId !== undefined) {
+            this.props.onComplete(this.props.taskId);
         }
     };
 
@@ -88,10 +136,194 @@ export default class Input extends React.Component<InputProps, InputState> {
      */
     removeInput = () => {
         if (this.props.onRemove) {
-            this.props.onRemove(this.props.id, this.state.value);
+            this.props.onRemove(this.props.id);
+        }
+    };
+
+    /**
+     * toggleSubtasks
+     *
+     * Ask the Checklist parent to show or hide the subtasks of this task.
+     *
+     * @memberof Input
+     * @since 1.1.0
+     */
+    toggleSubtasks = () => {
+        if (this.props.onToggle && this.props.taskId !== undefined) {
+            this.props.onToggle(this.props.taskId);
+        }
+    };
+
+    /**
+     * changeIndent
+     *
+     * Indent or outdent the task by the given number of levels, turning it into a subtask of the task above or back.
+     * The Checklist parent makes sure tasks are never nested deeper than their predecessor allows.
+     *
+     * @param {number} change Levels to add, negative to outdent
+     * @memberof Input
+     * @since 1.1.0
+     */
+    changeIndent = (change: number) => {
+        this.setState({
+            indent: Math.max(0, this.state.indent + change),
+        });
+    };
+
+    /**
+     * moveTask
+     *
+     * Ask the Checklist parent to move this task up or down.
+     *
+     * @param {(-1 | 1)} direction `-1` to move up, `1` to move down
+     * @memberof Input
+     * @since 1.1.0
+     */
+    moveTask = (direction: -1 | 1) => {
+        if (this.props.onMove) {
+            this.props.onMove(this.props.id, direction);
+        }
+    };
+
+    /**
+     * handleDragStart
+     *
+     * Let the Checklist parent know this task is being dragged.
+     *
+     * @param {React.DragEvent<HTMLElement>} $event
+     * @memberof Input
+     * @since 1.1.0
+     */
+    handleDragStart = ($event: React.DragEvent<HTMLElement>) => {
+        // Firefox only starts dragging when data is set.
+        $event.dataTransfer.effectAllowed = 'move';
+        $event.dataTransfer.setData('text/plain', this.props.id.toString());
+
+        if (this.props.onDragStart) {
+            this.props.onDragStart(this.props.id);
         }
     };
 
+    /**
+     * handleDragOver
+     *
+     * Allow dropping dragged tasks on this task and highlight it.
+     *
+     * @param {React.DragEvent<HTMLElement>} $event
+     * @memberof Input
+     * @since 1.1.0
+     */
+    handleDragOver = ($event: React.DragEvent<HTMLElement>) => {
+        if (!this.props.onDrop) return;
+
+        $event.preventDefault();
+        $event.dataTransfer.dropEffect = 'move';
+
+        if (!this.state.dropTarget) {
+            this.setState({ dropTarget: true });
+        }
+    };
+
+    /**
+     * handleDragLeave
+     *
+     * Remove the drop highlight.
+     *
+     * @memberof Input
+     * @since 1.1.0
+     */
+    handleDragLeave = () => {
+        this.setState({ dropTarget: false });
+    };
+
+    /**
+     * handleDrop
+     *
+     * Ask the Checklist parent to move the dragged task to the place of this one.
+     *
+     * @param {React.DragEvent<HTMLElement>} $event
+     * @memberof Input
+     * @since 1.1.0
+     */
+    handleDrop = ($event: React.DragEvent<HTMLElement>) => {
+        $event.preventDefault();
+        this.setState({ dropTarget: false });
+
+        if (this.props.onDrop) {
+            this.props.onDrop(this.props.id);
+        }
+    };
+
+    /**
+     * handleKeyDown
+     *
+     * Move the task with `Alt + ArrowUp` and `Alt + ArrowDown`.
+     * In the `edit` template `Alt + ArrowRight` indents the task and `Alt + ArrowLeft` outdents it.
+     *
+     * @param {React.KeyboardEvent<HTMLElement>} $event
+     * @memberof Input
+     * @since 1.1.0
+     */
+    handleKeyDown = ($event: React.KeyboardEvent<HTMLElement>) => {
+        if (!$event.altKey) return;
+
+        if ($event.key === 'ArrowUp') {
+            $event.preventDefault();
+            this.moveTask(-1);
+        } else if ($event.key === 'ArrowDown') {
+            $event.preventDefault();
+            this.moveTask(1);
+        } else if (this.props.mode !== 'edit') {
+            return;
+        } else if ($event.key === 'ArrowRight') {
+            $event.preventDefault();
+            this.changeIndent(1);
+        } else if ($event.key === 'ArrowLeft') {
+            $event.preventDefault();
+            this.changeIndent(-1);
+        }
+    };
+
+    /**
+     * indentStyle
+     *
+     * Returns the inline style that indents nested tasks.
+     *
+     * @memberof Input
+     * @since 1.1.0
+     */
+    indentStyle = (): React.CSSProperties | undefined => {
+        const indent = this.props.mode === 'edit' ? this.state.indent : this.props.indent;
+
+        return indent ? { marginLeft: `${indent * 32}px` } : undefined;
+    };
+
+    /**
+     * dragHandle
+     *
+     * Renders the HTML for the handle used to drag the task to another place.
+     * Focusing the handle allows moving the task with the keyboard instead.
+     *
+     * @memberof Input
+     * @since 1.1.0
+     */
+    dragHandle = () => {
+        return (
+            <button
+                className="mdf-button mdf-button--icon mdf-drag-handle"
+                data-task-id={this.props.taskId}
+                aria-label={`Move task${this.state.value ? ` ${this.state.value}` : ''}, use Alt and the arrow keys`}
+                draggable={true}
+                onDragStart={this.handleDragStart}
+                onKeyDown={this.handleKeyDown}
+            >
+                <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                    <use href={`${Icons}#menu`}></use>
+                </svg>
+            </button>
+        );
+    };
+
     /**
      * editTemplate
      *
@@ -102,17 +334,73 @@ export default class Input extends React.Component<InputProps, InputState> {
      */
     editTemplate = () => {
         return (
-            <div className="mdf-checklist-textfield mdf-textfield">
+            <div
+                className={`mdf-checklist-textfield mdf-textfield ${this.state.dropTarget ? 'mdf-drop-target' : ''}`}
+                style={this.indentStyle()}
+                onDragOver={this.handleDragOver}
+                onDragLeave={this.handleDragLeave}
+                onDrop={this.handleDrop}
+            >
+                {this.dragHandle()}
+
                 <input
                     ref={this.inputRef}
                     className="mdf-textfield__input"
                     type="text"
                     name={`task-${this.props.id + 1}`}
+                    data-task-id={this.props.taskId}
+                    data-indent={this.state.indent}
+                    data-due={this.state.due}
+                    data-priority={this.state.priority}
                     placeholder="Enter your task..."
                     defaultValue={this.props.value}
                     onChange={($event) => this.updateValue($event)}
+                    onKeyDown={this.handleKeyDown}
                 ></input>
 
+                <input
+                    className="mdf-checklist-textfield__due"
+                    type="date"
+                    aria-label="Due date"
+                    value={this.state.due}
+                    onChange={($event) => this.updateDue($event)}
+                />
+
+                <select
+                    className="mdf-checklist-textfield__priority"
+                    aria-label="Priority"
+                    value={this.state.priority}
+                    onChange={($event) => this.updatePriority($event)}
+                >
+                    <option value="">No priority</option>
+                    {PRIORITIES.map((priority) => (
+                        <option key={priority} value={priority}>
+                            {PRIORITY_LABELS[priority]}
+                        </option>
+                    ))}
+                </select>
+
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Outdent task"
+                    disabled={!this.state.indent}
+                    onClick={() => this.changeIndent(-1)}
+                >
+                    <svg className="mdf-icon mdf-rotate-180" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#arrow-keyboard`}></use>
+                    </svg>
+                </button>
+
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Indent task"
+                    onClick={() => this.changeIndent(1)}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#arrow-keyboard`}></use>
+                    </svg>
+                </button>
+
                 {this.props.isRemovable && this.deleteButton()}
             </div>
         );
@@ -128,7 +416,15 @@ export default class Input extends React.Component<InputProps, InputState> {
      */
     viewTemplate = () => {
         return (
-            <li className="mdf-checklist__item">
+            <li
+                className={`mdf-checklist__item ${this.state.dropTarget ? 'mdf-drop-target' : ''}`}
+                style={this.indentStyle()}
+                onDragOver={this.handleDragOver}
+                onDragLeave={this.handleDragLeave}
+                onDrop={this.handleDrop}
+            >
+                {this.dragHandle()}
+
                 <div className="mdf-control">
                     <div className="mdf-checkbox">
                         <input
@@ -151,6 +447,36 @@ export default class Input extends React.Component<InputProps, InputState> {
                         {this.props.value}
                     </label>
                 </div>
+
+                {this.props.priority && (
+                    <span
+                        className={`mdf-priority mdf-priority--${PRIORITY_ACCENTS[this.props.priority]}`}
+                        title={`${PRIORITY_LABELS[this.props.priority]} priority`}
+                        aria-label={`${PRIORITY_LABELS[this.props.priority]} priority`}
+                        role="img"
+                    ></span>
+                )}
+
+                {this.props.due !== undefined && (
+                    <span className={`mdf-due ${this.state.checked ? '' : `mdf-due--${getDueStatus(this.props.due)}`}`}>
+                        {dayjs(this.props.due).format('MMM, DD YYYY')}
+                    </span>
+                )}
+
+                {this.props.hasSubtasks && (
+                    <button
+                        className={`mdf-button mdf-button--icon mdf-checklist__toggle ${
+                            this.props.collapsed ? 'mdf-checklist__toggle--collapsed' : ''
+                        }`}
+                        aria-label={this.props.collapsed ? 'Show subtasks' : 'Hide subtasks'}
+                        aria-expanded={!this.props.collapsed}
+                        onClick={this.toggleSubtasks}
+                    >
+                        <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                            <use href={`${Icons}#arrow-dropdown`}></use>
+                        </svg>
+                    </button>
+                )}
             </li>
         );
     };
@@ -185,6 +511,27 @@ export default class Input extends React.Component<InputProps, InputState> {
             });
         }
 
+        // If passed, save the task indent to state.
+        if (this.props.indent) {
+            this.setState({
+                indent: this.props.indent,
+            });
+        }
+
+        // If passed, save the due date to state.
+        if (this.props.due !== undefined) {
+            this.setState({
+                due: formatDueDate(this.props.due),
+            });
+        }
+
+        // If passed, save the priority to state.
+        if (this.props.priority) {
+            this.setState({
+                priority: this.props.priority,
+            });
+        }
+
         // If passed, save input text value to state.
         if (this.props.value) {
             this.setState({
@@ -197,4 +544,13 @@ export default class Input extends React.Component<InputProps, InputState> {
             this.inputRef.current?.focus();
         }
     }
+
+    componentDidUpdate(prevProps: InputProps) {
+        // Take over the indent the Checklist parent gave the task after moving it.
+        if (this.props.indent !== prevProps.indent && this.props.indent !== undefined) {
+            this.setState({
+                indent: this.props.indent,
+            });
+        }
+    }
 }
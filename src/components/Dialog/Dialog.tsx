@@ -5,7 +5,13 @@ import { getScrollbarParent } from '../../helpers';
 import './Dialog.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
 
+export interface DialogAction {
+    label: string; // Button text.
+    onClick: () => boolean | void; // Called before the dialog closes, returning `false` keeps it open.
+}
+
 interface DialogProps {
+    actions?: DialogAction[];
     description: string;
     keyboard?: boolean;
     title: string;
@@ -30,11 +36,13 @@ const SELECTOR = {
  *
  * Displays a modal dialog window the user.
  * The dialog has a title, description and offers two actions: `cancel` and `confirm`.
+ * Custom actions can be supplied to replace the `confirm` action, e.g. to let the user pick between several choices.
+ * Any children are shown below the description.
  *
  * @export
  * @class Dialog
  * @extends {React.Component<DialogProps>}
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class Dialog extends React.Component<DialogProps> {
     containerRef: React.RefObject<HTMLDivElement> = React.createRef(); // Ref to the container element.
@@ -157,6 +165,21 @@ export default class Dialog extends React.Component<DialogProps> {
         this.close();
     };
 
+    /**
+     * runAction
+     *
+     * Execute the given custom action and close the dialog window, unless the action refused to finish.
+     *
+     * @param {DialogAction} action The action to execute
+     * @memberof Dialog
+     * @since 1.1.0
+     */
+    runAction = (action: DialogAction) => {
+        if (action.onClick() !== false) {
+            this.close();
+        }
+    };
+
     /**
      * setFocusOnElem
      *
@@ -259,6 +282,8 @@ export default class Dialog extends React.Component<DialogProps> {
 
                     <div className="mdf-dialog__content">
                         <p id="dialog-desc">{this.props.description}</p>
+
+                        {this.props.children}
                     </div>
 
                     <div className="mdf-dialog__actions">
@@ -266,9 +291,21 @@ export default class Dialog extends React.Component<DialogProps> {
                             Cancel
                         </button>
 
-                        <button className="mdf-button" onClick={this.confirm}>
-                            Confirm
-                        </button>
+                        {this.props.actions ? (
+                            this.props.actions.map((action) => (
+                                <button
+                                    key={action.label}
+                                    className="mdf-button"
+                                    onClick={() => this.runAction(action)}
+                                >
+                                    {action.label}
+                                </button>
+                            ))
+                        ) : (
+                            <button className="mdf-button" onClick={this.confirm}>
+                                Confirm
+                            </button>
+                        )}
                     </div>
                 </div>
 
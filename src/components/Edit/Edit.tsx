@@ -1,28 +1,41 @@
 import React from 'react';
 import Checklist from '../Checklist/Checklist';
-import Storage from '../../storage';
+import StorageContext from '../../storage.provider';
 import Dialog from '../Dialog/Dialog';
-import { ChecklistData } from '../../types';
+import {
+    applyEdits,
+    findConflicts,
+    mergeTasks,
+    restoreChecklist,
+    saveChecklist,
+    TaskConflict,
+    trashChecklist,
+} from '../../checklists';
+import { SnackbarAction } from '../../snackbar.provider';
+import { collectTags } from '../../tags';
+import { ChecklistData, TaskData } from '../../types';
 
 import './Edit.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
 
 interface EditProps {
+    checklists: ChecklistData[];
     data: ChecklistData;
     onBack: () => void;
+    onHome: () => void;
     onRefresh: (data?: ChecklistData) => void;
-    onMessage: (message: string) => void;
+    onMessage: (message: string, action?: SnackbarAction) => void;
 }
 
 interface EditState {
+    conflicts: TaskConflict[];
     dialogActive: boolean;
     dialogUseKeyboard: boolean;
+    mine: ChecklistData | null;
+    stored: ChecklistData | null;
+    takeStored: number[];
 }
 
-const SELECTOR = {
-    input: '.mdf-checklist-textfield .mdf-textfield__input',
-};
-
 /**
  * Edit
  *
@@ -31,13 +44,30 @@ const SELECTOR = {
  * @export
  * @class Edit
  * @extends {React.Component<EditProps, EditState>}
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class Edit extends React.Component<EditProps, EditState> {
+    static contextType = StorageContext; // Storage adapter provided by the App.
+    context!: React.ContextType<typeof StorageContext>;
+
     checklistRef: React.RefObject<Checklist> = React.createRef(); // Ref to the current checklist instance.
-    storage = new Storage('checklist'); // localStorage wrapper to save any changes made.
+    snapshot: ChecklistData; // The checklist as it was when the slide opened, our changes are based on it.
+
+    state: EditState = {
+        conflicts: [],
+        dialogActive: false,
+        dialogUseKeyboard: false,
+        mine: null,
+        stored: null,
+        takeStored: [],
+    };
+
+    constructor(props: EditProps) {
+        super(props);
 
-    state = { dialogActive: false, dialogUseKeyboard: false };
+        // Changes arriving through our props later on must not replace the data the user is editing.
+        this.snapshot = this.props.data;
+    }
 
     /**
      * openDialog
@@ -90,31 +120,48 @@ export default class Edit extends React.Component<EditProps, EditState> {
     /**
      * deleteChecklist
      *
-     * Delete the checklist from storage and return to the Landing slide.
+     * Move the checklist to the trash and return to the Landing slide.
+     * The user can undo the deletion for as long as the message is visible.
      *
      * @memberof Edit
      * @since 1.0.0
      */
     deleteChecklist = () => {
-        this.storage.delete(this.props.data.id.toString()).then(() => {
+        trashChecklist(this.context, this.props.data.id).then((removed) => {
             // Hide the dialog.
             this.cancelDialog();
 
             // Request a total refresh of the Landing slide data.
             this.props.onRefresh();
 
-            // Return to the Landing slide.
-            this.props.onBack();
+            // Return to the Landing slide, skipping any slides that still show the removed checklist.
+            this.props.onHome();
 
-            // Display a message to the user.
-            this.props.onMessage('Checklist successfully removed');
+            // Display a message to the user, offering to restore the removed checklist.
+            this.props.onMessage(
+                'Checklist moved to the trash',
+                removed ? { label: 'Undo', onClick: () => this.undoDelete(removed) } : undefined
+            );
         });
     };
 
+    /**
+     * undoDelete
+     *
+     * Restore the checklist as it was before it was moved to the trash and add it back to the Landing data.
+     *
+     * @param {ChecklistData} data The removed checklist
+     * @memberof Edit
+     * @since 1.1.0
+     */
+    undoDelete = (data: ChecklistData) => {
+        restoreChecklist(this.context, data).then((restored) => this.props.onRefresh(restored));
+    };
+
     /**
      * saveChanges
      *
-     * Save the changes made to the checklist and return to the Landing slide.
+     * Save the changes made to the checklist and return to the previous slide.
      *
      * @memberof Edit
      * @since 1.0.0
@@ -125,39 +172,176 @@ export default class Edit extends React.Component<EditProps, EditState> {
 
         // Make sure we have a checklist title.
         if (checklist?.title.length) {
-            // Store all tasks in this array.
-            const tasks: string[] = [];
+            // Collect the tasks from the checklist inputs, renamed tasks keep their completion.
+            const tasks = checklist.getTasks();
 
-            // Get all text inputs.
-            const inputs: HTMLInputElement[] = Array.from(document.querySelectorAll(SELECTOR.input));
+            if (tasks.length) {
+                // Create object holding the updated checklist data.
+                const updateData = Object.assign({}, this.snapshot, {
+                    due: checklist.due,
+                    priority: checklist.priority,
+                    recurrence: checklist.getRecurrence(),
+                    tags: checklist.getTags(),
+                    tasks: tasks,
+                    title: checklist.title,
+                });
 
-            // Push the available input values to our array.
-            for (const input of inputs) {
-                if (input.value.length) {
-                    tasks.push(input.value);
-                }
+                // Save the data to storage, unless it changed since we started editing.
+                saveChecklist(this.context, updateData).then((result) => {
+                    if (result.conflict) {
+                        // Let the user decide which changes to keep.
+                        this.setState({
+                            conflicts: findConflicts(updateData.tasks, result.data.tasks),
+                            mine: updateData,
+                            stored: result.data,
+                            takeStored: [],
+                        });
+                    } else {
+                        this.finishSave(result.data, 'Changes successfully saved');
+                    }
+                });
             }
+        }
+    };
 
-            if (tasks.length) {
-                // Get the current checklist data set.
-                const currentData = this.props.data;
+    /**
+     * finishSave
+     *
+     * Update the Landing slide data with the saved checklist and return to the previous slide.
+     *
+     * @param {ChecklistData} data The saved checklist
+     * @param {string} message The message to display
+     * @memberof Edit
+     * @since 1.1.0
+     */
+    finishSave = (data: ChecklistData, message: string) => {
+        // Update the Landing slide data with our changes.
+        this.props.onRefresh(data);
 
-                // Create object holding the updated checklist data.
-                const updateData = Object.assign({}, this.props.data, { tasks: tasks, title: checklist.title });
+        // Return to the previous slide.
+        this.props.onBack();
 
-                // Save the data to storage.
-                this.storage.set(currentData.id.toString(), updateData).then(() => {
-                    // Update the Landing slide data with our changes.
-                    this.props.onRefresh(updateData);
+        // Display a message to the user.
+        this.props.onMessage(message);
+    };
+
+    /**
+     * resolveConflict
+     *
+     * Settle a save conflict with the given choice.
+     * `mine` saves our version over the stored one, `stored` drops our changes and `merge` picks every task
+     * from the version the user selected.
+     *
+     * @param {('mine' | 'stored' | 'merge')} choice How to settle the conflict
+     * @memberof Edit
+     * @since 1.1.0
+     */
+    resolveConflict = (choice: 'mine' | 'stored' | 'merge') => {
+        const mine = this.state.mine!;
+        const stored = this.state.stored!;
 
-                    // Return to the Landing slide.
-                    this.props.onBack();
+        // Close the dialog.
+        this.cancelConflict();
 
-                    // Display a message to the user.
-                    this.props.onMessage('Changes successfully saved');
-                });
-            }
+        if (choice === 'stored') {
+            this.finishSave(stored, 'Kept the stored version');
+            return;
         }
+
+        // Build the version to save on top of the stored one, so only our edits replace its fields.
+        const updateData = applyEdits(
+            stored,
+            choice === 'merge'
+                ? Object.assign({}, mine, { tasks: mergeTasks(mine.tasks, stored.tasks, this.state.takeStored) })
+                : mine
+        );
+
+        // Save over the stored version.
+        saveChecklist(this.context, updateData, true).then((result) => {
+            this.finishSave(
+                result.data,
+                choice === 'merge' ? 'Changes successfully merged' : 'Changes successfully saved'
+            );
+        });
+    };
+
+    /**
+     * cancelConflict
+     *
+     * Close the conflict dialog without saving, so the user can continue editing.
+     *
+     * @memberof Edit
+     * @since 1.1.0
+     */
+    cancelConflict = () => {
+        this.setState({
+            conflicts: [],
+            mine: null,
+            stored: null,
+        });
+    };
+
+    /**
+     * pickVersion
+     *
+     * Choose which version of the given task to keep when merging.
+     *
+     * @param {number} taskId Id of the task
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Edit
+     * @since 1.1.0
+     */
+    pickVersion = (taskId: number, $event: React.ChangeEvent<HTMLSelectElement>) => {
+        const takeStored = this.state.takeStored.filter((id) => id !== taskId);
+
+        if ($event.target.value === 'stored') {
+            takeStored.push(taskId);
+        }
+
+        this.setState({
+            takeStored: takeStored,
+        });
+    };
+
+    /**
+     * describeTask
+     *
+     * Describe the given version of a task for the conflict dialog.
+     *
+     * @param {(TaskData | null)} task The task version
+     * @memberof Edit
+     * @since 1.1.0
+     */
+    describeTask = (task: TaskData | null): string => {
+        return task ? `${task.text} (${task.done ? 'done' : 'open'})` : 'Removed';
+    };
+
+    /**
+     * listConflicts
+     *
+     * Render the HTML letting the user pick a version for every task that differs.
+     *
+     * @memberof Edit
+     * @since 1.1.0
+     */
+    listConflicts = () => {
+        return (
+            <ul className="mdf-conflicts">
+                {this.state.conflicts.map((conflict) => (
+                    <li key={conflict.id} className="mdf-conflicts__item">
+                        <select
+                            className="mdf-conflicts__select"
+                            aria-label="Version to keep"
+                            value={this.state.takeStored.includes(conflict.id) ? 'stored' : 'mine'}
+                            onChange={($event) => this.pickVersion(conflict.id, $event)}
+                        >
+                            <option value="mine">Yours: {this.describeTask(conflict.mine)}</option>
+                            <option value="stored">Stored: {this.describeTask(conflict.stored)}</option>
+                        </select>
+                    </li>
+                ))}
+            </ul>
+        );
     };
 
     render() {
@@ -185,7 +369,12 @@ export default class Edit extends React.Component<EditProps, EditState> {
 
                 <main className="mdf-slide__main">
                     <div className="mdf-slide__content">
-                        <Checklist mode={'edit'} data={this.props.data} ref={this.checklistRef}></Checklist>
+                        <Checklist
+                            mode={'edit'}
+                            data={this.snapshot}
+                            ref={this.checklistRef}
+                            suggestions={collectTags(this.props.checklists)}
+                        ></Checklist>
                     </div>
                 </main>
 
@@ -215,12 +404,29 @@ export default class Edit extends React.Component<EditProps, EditState> {
                 {this.state.dialogActive && (
                     <Dialog
                         title={'Remove checklist'}
-                        description={'Are you sure you want to remove this checklist?'}
+                        description={'Are you sure you want to move this checklist to the trash?'}
                         keyboard={this.state.dialogUseKeyboard}
                         onConfirm={this.deleteChecklist}
                         onCancel={this.cancelDialog}
                     />
                 )}
+
+                {this.state.stored && (
+                    <Dialog
+                        title={'Checklist changed'}
+                        description={
+                            'This checklist was changed since you started editing it. Keep your version, take the stored one, or merge them by picking a version for every task that differs.'
+                        }
+                        actions={[
+                            { label: 'Keep mine', onClick: () => this.resolveConflict('mine') },
+                            { label: 'Take stored', onClick: () => this.resolveConflict('stored') },
+                            { label: 'Merge', onClick: () => this.resolveConflict('merge') },
+                        ]}
+                        onCancel={this.cancelConflict}
+                    >
+                        {this.listConflicts()}
+                    </Dialog>
+                )}
             </div>
         );
     }
@@ -0,0 +1,307 @@
+import React from 'react';
+import dayjs from 'dayjs';
+import Dialog from '../Dialog/Dialog';
+import StorageContext from '../../storage.provider';
+import { rollbackChecklist } from '../../checklists';
+import { diffTasks, getHistory, HistoryEntry, TaskDiff } from '../../history';
+import { SnackbarAction } from '../../snackbar.provider';
+import { ChecklistData, TaskData } from '../../types';
+
+import './History.scoped.scss';
+import Icons from '../../assets/images/icons.svg';
+
+interface HistoryProps {
+    data: ChecklistData;
+    onBack: () => void;
+    onRefresh: (data: ChecklistData) => void;
+    onMessage: (message: string, action?: SnackbarAction) => void;
+}
+
+interface HistoryState {
+    dialogActive: boolean;
+    from: number;
+    history: HistoryEntry[];
+    to: number;
+}
+
+/**
+ * History
+ *
+ * Lists the saved revisions of a checklist, shows what changed between any two of them
+ * and allows the user to roll back to an earlier revision.
+ *
+ * @export
+ * @class History
+ * @extends {React.Component<HistoryProps, HistoryState>}
+ * @version 1.0.0
+ */
+export default class History extends React.Component<HistoryProps, HistoryState> {
+    static contextType = StorageContext; // Storage adapter provided by the App.
+    context!: React.ContextType<typeof StorageContext>;
+
+    state: HistoryState = { dialogActive: false, from: 0, history: [], to: 0 };
+
+    /**
+     * loadHistory
+     *
+     * Load the revisions of the checklist and compare the two most recent ones.
+     *
+     * @memberof History
+     * @since 1.0.0
+     */
+    loadHistory = () => {
+        getHistory(this.context, this.props.data.id).then((history) => {
+            this.setState({
+                from: Math.max(history.length - 2, 0),
+                history: history,
+                to: Math.max(history.length - 1, 0),
+            });
+        });
+    };
+
+    /**
+     * selectRevision
+     *
+     * Select the revision to compare on the given side.
+     *
+     * @param {('from' | 'to')} side The side to update
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof History
+     * @since 1.0.0
+     */
+    selectRevision = (side: 'from' | 'to', $event: React.ChangeEvent<HTMLSelectElement>) => {
+        const index = Number($event.target.value);
+
+        if (side === 'from') {
+            this.setState({ from: index });
+        } else {
+            this.setState({ to: index });
+        }
+    };
+
+    /**
+     * openDialog
+     *
+     * Open the `Roll back` dialog window.
+     *
+     * @memberof History
+     * @since 1.0.0
+     */
+    openDialog = () => {
+        this.setState({
+            dialogActive: true,
+        });
+    };
+
+    /**
+     * cancelDialog
+     *
+     * Close the dialog window.
+     *
+     * @memberof History
+     * @since 1.0.0
+     */
+    cancelDialog = () => {
+        this.setState({
+            dialogActive: false,
+        });
+    };
+
+    /**
+     * rollback
+     *
+     * Restore the selected revision and return to the previous slide.
+     *
+     * @memberof History
+     * @since 1.0.0
+     */
+    rollback = () => {
+        const entry = this.state.history[this.state.to];
+
+        // Hide the dialog.
+        this.cancelDialog();
+
+        rollbackChecklist(this.context, this.props.data, entry).then((updateData) => {
+            // Update the Landing slide data with the restored revision.
+            this.props.onRefresh(updateData);
+
+            // Return to the previous slide.
+            this.props.onBack();
+
+            // Display a message to the user.
+            this.props.onMessage(`Rolled back to revision ${entry.data.revision}`);
+        });
+    };
+
+    /**
+     * describeEntry
+     *
+     * Describe the given revision for the revision selects.
+     *
+     * @param {HistoryEntry} entry The revision to describe
+     * @memberof History
+     * @since 1.0.0
+     */
+    describeEntry = (entry: HistoryEntry): string => {
+        return `Revision ${entry.data.revision} — ${dayjs(entry.time).format('MMM, DD YYYY H:mm A')}`;
+    };
+
+    /**
+     * describeTask
+     *
+     * Describe the given task for the diff.
+     *
+     * @param {TaskData} task The task to describe
+     * @memberof History
+     * @since 1.0.0
+     */
+    describeTask = (task: TaskData): string => {
+        return `${task.text}${task.done ? ' (done)' : ''}`;
+    };
+
+    /**
+     * listRevisions
+     *
+     * Render the options for the revision selects, newest first.
+     *
+     * @memberof History
+     * @since 1.0.0
+     */
+    listRevisions = () => {
+        return this.state.history
+            .map((entry, index) => (
+                <option key={index} value={index}>
+                    {this.describeEntry(entry)}
+                </option>
+            ))
+            .reverse();
+    };
+
+    /**
+     * listDiff
+     *
+     * Render the HTML for the task changes between the selected revisions.
+     *
+     * @memberof History
+     * @since 1.0.0
+     */
+    listDiff = () => {
+        const from = this.state.history[this.state.from].data;
+        const to = this.state.history[this.state.to].data;
+
+        // Show the older revision on the left, no matter in which order they were picked.
+        const diff: TaskDiff[] =
+            this.state.from <= this.state.to ? diffTasks(from.tasks, to.tasks) : diffTasks(to.tasks, from.tasks);
+
+        return (
+            <ul className="mdf-diff">
+                {from.title !== to.title && (
+                    <li className="mdf-diff__item mdf-diff__item--changed">
+                        Title: {from.title} &rarr; {to.title}
+                    </li>
+                )}
+
+                {diff.map((entry) => (
+                    <li
+                        key={(entry.task || entry.previous)!.id}
+                        className={`mdf-diff__item mdf-diff__item--${entry.type}`}
+                        style={{ paddingLeft: `${((entry.task || entry.previous)!.indent || 0) * 1.5 + 1}rem` }}
+                    >
+                        {entry.type === 'changed'
+                            ? `${this.describeTask(entry.previous!)} → ${this.describeTask(entry.task!)}`
+                            : this.describeTask((entry.task || entry.previous)!)}
+                    </li>
+                ))}
+            </ul>
+        );
+    };
+
+    render() {
+        const latest = this.state.history.length - 1;
+
+        return (
+            <div className="mdf-slide">
+                <header className="mdf-slide__header">
+                    <div className="mdf-slide__controls">
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Return to the previous page"
+                            onClick={this.props.onBack}
+                        >
+                            <svg className="mdf-icon mdf-rotate-180" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#arrow-keyboard`}></use>
+                            </svg>
+                        </button>
+                    </div>
+
+                    <h2 className="mdf-slide__title">
+                        Checklist <span> </span>
+                        <strong>history.</strong>
+                    </h2>
+                </header>
+
+                <main className="mdf-slide__main">
+                    <div className="mdf-slide__content">
+                        {this.state.history.length ? (
+                            <div className="mdf-group mdf-group--stacked">
+                                <div className="mdf-history-compare">
+                                    <label htmlFor="history-from">Compare</label>
+                                    <select
+                                        id="history-from"
+                                        value={this.state.from}
+                                        onChange={($event) => this.selectRevision('from', $event)}
+                                    >
+                                        {this.listRevisions()}
+                                    </select>
+
+                                    <label htmlFor="history-to">with</label>
+                                    <select
+                                        id="history-to"
+                                        value={this.state.to}
+                                        onChange={($event) => this.selectRevision('to', $event)}
+                                    >
+                                        {this.listRevisions()}
+                                    </select>
+                                </div>
+
+                                {this.listDiff()}
+                            </div>
+                        ) : (
+                            <h5 style={{ marginTop: '2rem', textAlign: 'center' }}>
+                                No revisions have been saved for this checklist yet.
+                            </h5>
+                        )}
+                    </div>
+                </main>
+
+                <footer className="mdf-slide__footer">
+                    <button
+                        className="mdf-button mdf-button--filled mdf-button--large mdf-button--leading-icon"
+                        disabled={this.state.to >= latest}
+                        onClick={this.openDialog}
+                    >
+                        <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                            <use href={`${Icons}#undo`}></use>
+                        </svg>
+                        Roll back to this revision
+                    </button>
+                </footer>
+
+                {this.state.dialogActive && (
+                    <Dialog
+                        title={'Roll back checklist'}
+                        description={`Restore the title and tasks of revision ${
+                            this.state.history[this.state.to].data.revision
+                        }? The current version stays in the history.`}
+                        onConfirm={this.rollback}
+                        onCancel={this.cancelDialog}
+                    />
+                )}
+            </div>
+        );
+    }
+
+    componentDidMount() {
+        this.loadHistory();
+    }
+}
@@ -3,7 +3,25 @@ import Dialog from '../Dialog/Dialog';
 import Tabs from '../Tabs/Tabs';
 import Tab from '../Tabs/Tab';
 import TabsPanel from '../Tabs/TabsPanel';
-import Storage from '../../storage';
+import PreferencesManager from '../../preferences.manager';
+import StorageContext from '../../storage.provider';
+import { countTasksLeft, purgeChecklist, purgeTrash, restoreChecklist, trashChecklist } from '../../checklists';
+import { getDueStatus, nextDueDate } from '../../due';
+import {
+    createFolder,
+    deleteFolder,
+    FolderData,
+    getFolders,
+    getFolderStats,
+    moveToFolder,
+    saveFolder,
+} from '../../folders';
+import { PRIORITY_ACCENTS, PRIORITY_LABELS } from '../../priority';
+import { createSearchIndex, SearchEntry, searchChecklists, searchTerms, splitMatches } from '../../search';
+import { getPinned, movePinned, pinChecklist, unpinChecklist } from '../../pins';
+import { SnackbarAction } from '../../snackbar.provider';
+import { GROUP_LABELS, GroupMode, groupChecklists, SORT_LABELS, SortMode, sortChecklists } from '../../sorting';
+import { collectTags, hasTag, matchesTags, TagMatch } from '../../tags';
 import { ChecklistData } from '../../types';
 import dayjs from 'dayjs';
 
@@ -12,18 +30,41 @@ import Icons from '../../assets/images/icons.svg';
 
 interface LandingProps {
     data: ChecklistData[];
-    onRefresh: () => void;
-    onSlideChange: (name: string, data: ChecklistData | null) => void;
-    onMessage: (message: string) => void;
+    onRefresh: (data?: ChecklistData) => void;
+    onSlideChange: (name: string, data: ChecklistData | null, task?: number) => void;
+    onMessage: (message: string, action?: SnackbarAction) => void;
 }
 
 interface LandingState {
     activeTab: number;
     dialogActive: boolean;
     dialogId: number;
+    dialogMode: DialogMode;
     dialogUseKeyboard: boolean;
+    filterMatch: TagMatch;
+    filterTags: string[];
+    folderColor: string;
+    folderId: number | null;
+    folders: FolderData[];
+    folderTitle: string;
+    folderTitleError: boolean;
+    groupMode: GroupMode;
+    moveTarget: string;
+    pinDropTarget: number | null;
+    query: string;
+    sortMode: SortMode;
 }
 
+// What the dialog asks the user to confirm.
+type DialogMode = 'trash' | 'delete' | 'empty' | 'folder' | 'deleteFolder' | 'move';
+
+// Number of tabs: open, complete and trash.
+const TAB_COUNT = 3;
+
+// Number of checklists and of matching tasks per checklist shown for a search, so typing stays fast.
+const SEARCH_RESULT_LIMIT = 50;
+const SEARCH_TASK_LIMIT = 5;
+
 /**
  * Landing
  *
@@ -33,12 +74,36 @@ interface LandingState {
  * @export
  * @class Landing
  * @extends {React.Component<LandingProps, LandingState>}
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class Landing extends React.Component<LandingProps, LandingState> {
-    storage = new Storage('checklist'); // localStorage wrapper to get all available data.
+    static contextType = StorageContext; // Storage adapter provided by the App.
+    context!: React.ContextType<typeof StorageContext>;
+
+    draggedPin: number | null = null; // Index of the pinned checklist being dragged.
+    indexedData: ChecklistData[] | null = null; // The checklists the search index was built from.
+    preferences: PreferencesManager = new PreferencesManager(); // Remembers how the checklists are sorted and grouped.
+    searchIndex: SearchEntry[] = []; // Lower cased checklist text, rebuilt whenever the checklists change.
 
-    state = { activeTab: 0, dialogActive: false, dialogId: 0, dialogUseKeyboard: false };
+    state: LandingState = {
+        activeTab: 0,
+        dialogActive: false,
+        dialogId: 0,
+        dialogMode: 'trash',
+        dialogUseKeyboard: false,
+        filterMatch: 'and',
+        filterTags: [],
+        folderColor: 'blue',
+        folderId: null,
+        folders: [],
+        folderTitle: '',
+        folderTitleError: false,
+        groupMode: this.preferences.getGroupMode(),
+        moveTarget: '',
+        pinDropTarget: null,
+        query: '',
+        sortMode: this.preferences.getSortMode(),
+    };
 
     /**
      * openPreferences
@@ -52,6 +117,52 @@ export default class Landing extends React.Component<LandingProps, LandingState>
         this.props.onSlideChange('preferences', null);
     };
 
+    /**
+     * openAgenda
+     *
+     * Request the Agenda slide.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    openAgenda = () => {
+        this.props.onSlideChange('agenda', null);
+    };
+
+    /**
+     * openTemplates
+     *
+     * Request the Templates slide.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    openTemplates = () => {
+        this.props.onSlideChange('templates', null);
+    };
+
+    /**
+     * dueLabel
+     *
+     * Render the HTML for the next due date of the given checklist, if it has one.
+     *
+     * @param {ChecklistData} data The checklist to render the due date for
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    dueLabel = (data: ChecklistData) => {
+        const due = nextDueDate(data);
+
+        return (
+            due !== undefined && (
+                <>
+                    {' '}
+                    &mdash; <span className={`mdf-due mdf-due--${getDueStatus(due)}`}>Due {this.date(due)}</span>
+                </>
+            )
+        );
+    };
+
     /**
      * openAdd
      *
@@ -65,200 +176,1379 @@ export default class Landing extends React.Component<LandingProps, LandingState>
     };
 
     /**
-     * openEdit
+     * openEdit
+     *
+     * Request the Edit slide with the given data.
+     *
+     * @param {ChecklistData} data The checklist data provided to the slide
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    openEdit = (data: ChecklistData) => {
+        this.props.onSlideChange('edit', data);
+    };
+
+    /**
+     * openView
+     *
+     * Request the View slide with the given data.
+     *
+     * @param {ChecklistData} data The checklist data provided to the slide
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    openView = (data: ChecklistData) => {
+        this.props.onSlideChange('view', data);
+    };
+
+    /**
+     * date
+     *
+     * Convert timestamp to date string showing month, day and year.
+     *
+     * @param {number} time The timestamp to convert
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    date = (time: number): string => {
+        return dayjs(time).format('MMM, DD YYYY');
+    };
+
+    /**
+     * time
+     *
+     * Convert timestamp to date string showing hours:minutes and AM/PM indicator.
+     *
+     * @param {number} time The timestamp to convert
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    time = (time: number): string => {
+        return dayjs(time).format('H:mm A');
+    };
+
+    /**
+     * setActiveTab
+     *
+     * Set the active tab with the given index.
+     * `0` targets the first tab, `1` the second and `2` the trash.
+     *
+     * @param {number} index The tab index
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    setActiveTab = (index: number) => {
+        this.setState({
+            activeTab: index,
+        });
+    };
+
+    /**
+     * switchActiveTab
+     *
+     * Allows the left and right arrow keys on the keyboard to switch the active tab.
+     *
+     * @param {React.KeyboardEvent<HTMLButtonElement>} $event
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    switchActiveTab = ($event: React.KeyboardEvent<HTMLButtonElement>) => {
+        // Get the currently active tab.
+        let targetIndex = this.state.activeTab;
+
+        if ($event.key === 'ArrowLeft') {
+            $event.preventDefault();
+
+            // If the left arrow key has been used, we either move one tab backwards or jump to the end of the tab order.
+            if (targetIndex > 0) {
+                targetIndex--;
+            } else {
+                targetIndex = TAB_COUNT - 1;
+            }
+        } else if ($event.key === 'ArrowRight') {
+            $event.preventDefault();
+
+            // If the right arrow key has been used, we either move one tab forwards or jump to the start of the tab order.
+            if (targetIndex < TAB_COUNT - 1) {
+                targetIndex++;
+            } else {
+                targetIndex = 0;
+            }
+        }
+
+        // Set the active tab using the calculated index.
+        this.setActiveTab(targetIndex);
+    };
+
+    /**
+     * openDialog
+     *
+     * Open the `Remove checklist` dialog window.
+     *
+     * @param {number} id The id of the checklist to remove
+     * @param {DialogMode} [mode='trash'] What to confirm, moving the checklist to the trash by default
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    openDialog = (id: number, mode: DialogMode = 'trash') => {
+        this.setState({
+            dialogActive: true,
+            dialogId: id,
+            dialogMode: mode,
+            dialogUseKeyboard: false,
+        });
+    };
+
+    /**
+     * openKbDialog
+     *
+     * Open the `Remove checklist` dialog window with keyboard controls.
+     *
+     * @param {React.KeyboardEvent<HTMLButtonElement>} $event
+     * @param {number} id The id of the checklist to remove
+     * @param {DialogMode} [mode='trash'] What to confirm, moving the checklist to the trash by default
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    openKbDialog = ($event: React.KeyboardEvent<HTMLButtonElement>, id: number, mode: DialogMode = 'trash') => {
+        if ($event.key === 'Enter' || $event.key === ' ') {
+            $event.preventDefault();
+
+            this.setState({
+                dialogActive: true,
+                dialogId: id,
+                dialogMode: mode,
+                dialogUseKeyboard: true,
+            });
+        }
+    };
+
+    /**
+     * cancelDialog
+     *
+     * Close the dialog window.
+     *
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    cancelDialog = () => {
+        this.setState({
+            dialogActive: false,
+        });
+    };
+
+    /**
+     * deleteChecklist
+     *
+     * Move the requested checklist to the trash and refresh the Landing data.
+     * The user can undo the deletion for as long as the message is visible.
+     *
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    deleteChecklist = () => {
+        // Move the checklist to the trash.
+        trashChecklist(this.context, this.state.dialogId).then((removed) => {
+            // Hide the dialog.
+            this.cancelDialog();
+
+            // Refresh the Landing data.
+            this.props.onRefresh();
+
+            // Display a message to the user, offering to restore the removed checklist.
+            this.props.onMessage(
+                'Checklist moved to the trash',
+                removed ? { label: 'Undo', onClick: () => this.undoDelete(removed) } : undefined
+            );
+        });
+    };
+
+    /**
+     * undoDelete
+     *
+     * Restore the checklist as it was before it was moved to the trash and add it back to the Landing data.
+     *
+     * @param {ChecklistData} data The removed checklist
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    undoDelete = (data: ChecklistData) => {
+        restoreChecklist(this.context, data).then((restored) => this.props.onRefresh(restored));
+    };
+
+    /**
+     * restoreFromTrash
+     *
+     * Take the given checklist out of the trash.
+     *
+     * @param {ChecklistData} data The checklist to restore
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    restoreFromTrash = (data: ChecklistData) => {
+        restoreChecklist(this.context, data).then((restored) => {
+            // Update the Landing data with the restored checklist.
+            this.props.onRefresh(restored);
+
+            // Display a message to the user.
+            this.props.onMessage('Checklist restored');
+        });
+    };
+
+    /**
+     * deleteForever
+     *
+     * Permanently delete the requested checklist from storage and refresh the Landing data.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    deleteForever = () => {
+        purgeChecklist(this.context, this.state.dialogId).then(() => {
+            // Hide the dialog.
+            this.cancelDialog();
+
+            // Refresh the Landing data.
+            this.props.onRefresh();
+
+            // Display a message to the user.
+            this.props.onMessage('Checklist permanently deleted');
+        });
+    };
+
+    /**
+     * emptyTrash
+     *
+     * Permanently delete all checklists in the trash and refresh the Landing data.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    emptyTrash = () => {
+        purgeTrash(this.context, 0).then((purged) => {
+            // Hide the dialog.
+            this.cancelDialog();
+
+            // Refresh the Landing data.
+            this.props.onRefresh();
+
+            // Display a message to the user.
+            this.props.onMessage(
+                purged === 1 ? 'One checklist permanently deleted' : `${purged} checklists permanently deleted`
+            );
+        });
+    };
+
+    /**
+     * showDialog
+     *
+     * Render the dialog asking the user to confirm the requested removal.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    showDialog = () => {
+        switch (this.state.dialogMode) {
+            case 'delete':
+                return (
+                    <Dialog
+                        title={'Delete checklist'}
+                        description={'Are you sure you want to delete this checklist for good? This cannot be undone.'}
+                        keyboard={this.state.dialogUseKeyboard}
+                        onConfirm={this.deleteForever}
+                        onCancel={this.cancelDialog}
+                    />
+                );
+            case 'empty':
+                return (
+                    <Dialog
+                        title={'Empty trash'}
+                        description={
+                            'Are you sure you want to delete all checklists in the trash for good? This cannot be undone.'
+                        }
+                        keyboard={this.state.dialogUseKeyboard}
+                        onConfirm={this.emptyTrash}
+                        onCancel={this.cancelDialog}
+                    />
+                );
+            case 'folder':
+                return (
+                    <Dialog
+                        title={this.state.dialogId ? 'Edit folder' : 'New folder'}
+                        description={'Give the folder a name and a color.'}
+                        keyboard={this.state.dialogUseKeyboard}
+                        actions={[{ label: 'Save', onClick: this.saveFolderChanges }]}
+                        onCancel={this.cancelDialog}
+                    >
+                        <div
+                            className={`mdf-textfield ${
+                                this.state.folderTitleError ? 'mdf-textfield--state-error' : ''
+                            }`}
+                        >
+                            <label htmlFor="folder-title">Name</label>
+                            <input
+                                id="folder-title"
+                                className="mdf-textfield__input"
+                                type="text"
+                                value={this.state.folderTitle}
+                                onChange={this.updateFolderTitle}
+                            />
+
+                            {this.state.folderTitleError && (
+                                <div className="mdf-textfield__helper-line">
+                                    <span className="mdf-textfield__helper">Folders need a name</span>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="mdf-textfield">
+                            <label htmlFor="folder-color">Color</label>
+                            <select id="folder-color" value={this.state.folderColor} onChange={this.updateFolderColor}>
+                                {this.preferences.accents.map((accent) => (
+                                    <option key={accent} value={accent}>
+                                        {accent.charAt(0).toUpperCase() + accent.slice(1).replace('-', ' ')}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </Dialog>
+                );
+            case 'deleteFolder':
+                return (
+                    <Dialog
+                        title={'Delete folder'}
+                        description={
+                            'Do you want to keep the checklists of this folder, or move them to the trash along with it?'
+                        }
+                        keyboard={this.state.dialogUseKeyboard}
+                        actions={[
+                            { label: 'Keep checklists', onClick: () => this.removeFolder(true) },
+                            { label: 'Delete checklists', onClick: () => this.removeFolder(false) },
+                        ]}
+                        onCancel={this.cancelDialog}
+                    />
+                );
+            case 'move':
+                return (
+                    <Dialog
+                        title={'Move checklist'}
+                        description={'Choose the folder this checklist belongs to.'}
+                        keyboard={this.state.dialogUseKeyboard}
+                        actions={[{ label: 'Move', onClick: this.moveChecklist }]}
+                        onCancel={this.cancelDialog}
+                    >
+                        <div className="mdf-textfield">
+                            <label htmlFor="move-folder">Folder</label>
+                            <select id="move-folder" value={this.state.moveTarget} onChange={this.updateMoveTarget}>
+                                <option value="">No folder</option>
+                                {this.state.folders.map((folder) => (
+                                    <option key={folder.id} value={folder.id}>
+                                        {folder.title}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </Dialog>
+                );
+            default:
+                return (
+                    <Dialog
+                        title={'Remove checklist'}
+                        description={'Are you sure you want to move this checklist to the trash?'}
+                        keyboard={this.state.dialogUseKeyboard}
+                        onConfirm={this.deleteChecklist}
+                        onCancel={this.cancelDialog}
+                    />
+                );
+        }
+    };
+
+    /**
+     * updateSortMode
+     *
+     * Update how the checklists are sorted and remember the choice.
+     *
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    updateSortMode = ($event: React.ChangeEvent<HTMLSelectElement>) => {
+        this.preferences.set('sort', $event.target.value);
+
+        this.setState({
+            sortMode: $event.target.value as SortMode,
+        });
+    };
+
+    /**
+     * updateGroupMode
+     *
+     * Update how the checklists are grouped and remember the choice.
+     *
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    updateGroupMode = ($event: React.ChangeEvent<HTMLSelectElement>) => {
+        this.preferences.set('group', $event.target.value);
+
+        this.setState({
+            groupMode: $event.target.value as GroupMode,
+        });
+    };
+
+    /**
+     * listOptions
+     *
+     * Render the HTML for choosing how the open and complete checklists are sorted and grouped.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    listOptions = () => {
+        return (
+            <div className="mdf-checklist-sort">
+                <label htmlFor="checklist-sort">Sort by</label>
+                <select id="checklist-sort" value={this.state.sortMode} onChange={this.updateSortMode}>
+                    {(Object.keys(SORT_LABELS) as SortMode[]).map((mode) => (
+                        <option key={mode} value={mode}>
+                            {SORT_LABELS[mode]}
+                        </option>
+                    ))}
+                </select>
+
+                <label htmlFor="checklist-group">Group by</label>
+                <select id="checklist-group" value={this.state.groupMode} onChange={this.updateGroupMode}>
+                    {(Object.keys(GROUP_LABELS) as GroupMode[]).map((mode) => (
+                        <option key={mode} value={mode}>
+                            {GROUP_LABELS[mode]}
+                        </option>
+                    ))}
+                </select>
+            </div>
+        );
+    };
+
+    /**
+     * toggleFilterTag
+     *
+     * Add the given tag to the tag filter, or remove it if it's there already.
+     *
+     * @param {string} tag The tag to toggle
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    toggleFilterTag = (tag: string) => {
+        this.setState((state) => ({
+            filterTags: hasTag(state.filterTags, tag)
+                ? state.filterTags.filter((current) => current !== tag)
+                : state.filterTags.concat(tag),
+        }));
+    };
+
+    /**
+     * updateFilterMatch
+     *
+     * Update whether checklists need all or any of the filtered tags.
+     *
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    updateFilterMatch = ($event: React.ChangeEvent<HTMLSelectElement>) => {
+        this.setState({
+            filterMatch: $event.target.value as TagMatch,
+        });
+    };
+
+    /**
+     * clearFilter
+     *
+     * Show the checklists of every tag again.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    clearFilter = () => {
+        this.setState({
+            filterTags: [],
+        });
+    };
+
+    /**
+     * filterChecklists
+     *
+     * Returns the given checklists in the folder being shown that match the tag filter.
+     *
+     * @param {ChecklistData[]} checklists The checklists to filter
+     * @return {*} {ChecklistData[]}
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    filterChecklists = (checklists: ChecklistData[]): ChecklistData[] => {
+        return checklists.filter(
+            (data) => this.inFolder(data) && matchesTags(data, this.state.filterTags, this.state.filterMatch)
+        );
+    };
+
+    /**
+     * tagChips
+     *
+     * Render the HTML for the tags of the given checklist, the ones in the filter stand out.
+     *
+     * @param {ChecklistData} data The checklist to render the tags for
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    tagChips = (data: ChecklistData) => {
+        return (
+            !!data.tags?.length && (
+                <ul className="mdf-checklist-list__item-tags" aria-label="Tags">
+                    {data.tags.map((tag) => (
+                        <li
+                            key={tag}
+                            className={`mdf-tag ${hasTag(this.state.filterTags, tag) ? 'mdf-tag--active' : ''}`}
+                        >
+                            {tag}
+                        </li>
+                    ))}
+                </ul>
+            )
+        );
+    };
+
+    /**
+     * filterBar
+     *
+     * Render the HTML for narrowing the open and complete checklists down by their tags.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    filterBar = () => {
+        const tags = collectTags(this.props.data.filter((data) => !data.deleted));
+
+        return (
+            !!tags.length && (
+                <div className="mdf-tag-filter" role="group" aria-label="Filter by tags">
+                    {tags.map((tag) => (
+                        <button
+                            key={tag}
+                            className={`mdf-tag mdf-tag--filter ${
+                                hasTag(this.state.filterTags, tag) ? 'mdf-tag--active' : ''
+                            }`}
+                            aria-pressed={hasTag(this.state.filterTags, tag)}
+                            onClick={() => this.toggleFilterTag(tag)}
+                        >
+                            {tag}
+                        </button>
+                    ))}
+
+                    {this.state.filterTags.length > 1 && (
+                        <select
+                            aria-label="How to combine the tags"
+                            value={this.state.filterMatch}
+                            onChange={this.updateFilterMatch}
+                        >
+                            <option value="and">All tags</option>
+                            <option value="or">Any tag</option>
+                        </select>
+                    )}
+
+                    {!!this.state.filterTags.length && (
+                        <button className="mdf-button" onClick={this.clearFilter}>
+                            Clear
+                        </button>
+                    )}
+                </div>
+            )
+        );
+    };
+
+    /**
+     * updateQuery
+     *
+     * Search the checklists for what the user typed.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    updateQuery = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        this.setState({
+            query: $event.target.value,
+        });
+    };
+
+    /**
+     * handleSearchKeyDown
+     *
+     * Clear the search when the user presses Escape.
+     *
+     * @param {React.KeyboardEvent<HTMLInputElement>} $event
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    handleSearchKeyDown = ($event: React.KeyboardEvent<HTMLInputElement>) => {
+        if ($event.key === 'Escape') {
+            this.setState({
+                query: '',
+            });
+        }
+    };
+
+    /**
+     * getSearchIndex
+     *
+     * Returns the search index for the current checklists, only building it again once they changed.
+     *
+     * @return {*} {SearchEntry[]}
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    getSearchIndex = (): SearchEntry[] => {
+        if (this.indexedData !== this.props.data) {
+            this.indexedData = this.props.data;
+            this.searchIndex = createSearchIndex(this.props.data);
+        }
+
+        return this.searchIndex;
+    };
+
+    /**
+     * highlight
+     *
+     * Render the given text with the parts matching the search terms highlighted.
+     *
+     * @param {string} text The text to render
+     * @param {string[]} terms The lower case search terms
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    highlight = (text: string, terms: string[]) => {
+        return splitMatches(text, terms).map((part, index) =>
+            part.match ? <mark key={index}>{part.text}</mark> : <React.Fragment key={index}>{part.text}</React.Fragment>
+        );
+    };
+
+    /**
+     * searchResults
+     *
+     * Render the HTML for the checklists matching the search, with the matching tasks listed below each one.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    searchResults = () => {
+        const terms = searchTerms(this.state.query);
+        const results = searchChecklists(this.getSearchIndex(), this.state.query);
+
+        if (!results.length) {
+            return (
+                <h5 style={{ marginTop: '2rem', textAlign: 'center' }} role="status">
+                    No checklists or tasks match &ldquo;{this.state.query.trim()}&rdquo;.
+                </h5>
+            );
+        }
+
+        return (
+            <>
+                <p className="mdf-search-summary" role="status">
+                    {results.length} {results.length === 1 ? 'checklist' : 'checklists'} found
+                    {results.length > SEARCH_RESULT_LIMIT && `, showing the first ${SEARCH_RESULT_LIMIT}`}
+                </p>
+
+                <ul className="mdf-checklist-list mdf-search-results">
+                    {results.slice(0, SEARCH_RESULT_LIMIT).map(({ data, tasks }) => (
+                        <li key={data.id} className="mdf-checklist-list__item mdf-search-results__item">
+                            <button className="mdf-search-results__title" onClick={() => this.openView(data)}>
+                                {this.highlight(data.title, terms)}
+                            </button>
+
+                            {!!tasks.length && (
+                                <ul className="mdf-search-results__tasks" aria-label="Matching tasks">
+                                    {tasks.slice(0, SEARCH_TASK_LIMIT).map((task) => (
+                                        <li key={task.id}>
+                                            <button
+                                                className="mdf-search-results__task"
+                                                onClick={() => this.props.onSlideChange('view', data, task.id)}
+                                            >
+                                                {this.highlight(task.text, terms)}
+                                            </button>
+                                        </li>
+                                    ))}
+
+                                    {tasks.length > SEARCH_TASK_LIMIT && (
+                                        <li className="mdf-search-results__more">
+                                            and {tasks.length - SEARCH_TASK_LIMIT} more{' '}
+                                            {tasks.length - SEARCH_TASK_LIMIT === 1 ? 'task' : 'tasks'}
+                                        </li>
+                                    )}
+                                </ul>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </>
+        );
+    };
+
+    /**
+     * priorityMarker
+     *
+     * Render the HTML for the priority of the given checklist, if it has one.
+     *
+     * @param {ChecklistData} data The checklist to render the priority for
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    priorityMarker = (data: ChecklistData) => {
+        return (
+            data.priority && (
+                <span
+                    className={`mdf-priority mdf-priority--${PRIORITY_ACCENTS[data.priority]}`}
+                    title={`${PRIORITY_LABELS[data.priority]} priority`}
+                    aria-label={`${PRIORITY_LABELS[data.priority]} priority`}
+                    role="img"
+                ></span>
+            )
+        );
+    };
+
+    /**
+     * inFolder
+     *
+     * Check whether the given checklist belongs to the folder being shown.
+     * At the top level, that's every checklist outside of any folder, including those of folders that no longer exist.
+     *
+     * @param {ChecklistData} data The checklist to check
+     * @return {*} {boolean}
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    inFolder = (data: ChecklistData): boolean => {
+        if (this.state.folderId === null) {
+            return !this.state.folders.some((folder) => folder.id === data.folder);
+        }
+
+        return data.folder === this.state.folderId;
+    };
+
+    /**
+     * loadFolders
+     *
+     * Get the folders from storage, returning to the top level if the folder being shown is gone.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    loadFolders = () => {
+        getFolders(this.context).then((folders) => {
+            this.setState((state) => ({
+                folderId: folders.some((folder) => folder.id === state.folderId) ? state.folderId : null,
+                folders: folders,
+            }));
+        });
+    };
+
+    /**
+     * openFolder
+     *
+     * Show the checklists of the given folder, or those outside of any folder when left out.
+     *
+     * @param {FolderData} [folder] The folder to show
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    openFolder = (folder?: FolderData) => {
+        this.setState({
+            activeTab: 0,
+            folderId: folder ? folder.id : null,
+        });
+    };
+
+    /**
+     * openFolderDialog
+     *
+     * Open the dialog for naming and coloring the given folder, or a new one when left out.
+     *
+     * @param {FolderData} [folder] The folder to change
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    openFolderDialog = (folder?: FolderData) => {
+        this.setState({
+            dialogActive: true,
+            dialogId: folder ? folder.id : 0,
+            dialogMode: 'folder',
+            dialogUseKeyboard: false,
+            folderColor: folder ? folder.color : 'blue',
+            folderTitle: folder ? folder.title : '',
+            folderTitleError: false,
+        });
+    };
+
+    /**
+     * updateFolderTitle
+     *
+     * Update the folder name in the folder dialog.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    updateFolderTitle = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        this.setState({
+            folderTitle: $event.target.value,
+            folderTitleError: false,
+        });
+    };
+
+    /**
+     * updateFolderColor
+     *
+     * Update the folder color in the folder dialog.
+     *
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    updateFolderColor = ($event: React.ChangeEvent<HTMLSelectElement>) => {
+        this.setState({
+            folderColor: $event.target.value,
+        });
+    };
+
+    /**
+     * saveFolderChanges
+     *
+     * Save the folder from the folder dialog, creating it if it's new.
+     * Without a name the dialog stays open and points out the missing name.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    saveFolderChanges = (): boolean => {
+        const title = this.state.folderTitle.trim();
+        const existing = this.state.folders.find((folder) => folder.id === this.state.dialogId);
+
+        if (!title.length) {
+            this.setState({
+                folderTitleError: true,
+            });
+
+            return false;
+        }
+
+        const folder = existing
+            ? Object.assign({}, existing, { color: this.state.folderColor, title: title })
+            : createFolder(title, this.state.folderColor);
+
+        // Hide the dialog.
+        this.cancelDialog();
+
+        saveFolder(this.context, folder).then(() => {
+            this.loadFolders();
+            this.props.onMessage(existing ? 'Folder saved' : 'Folder created');
+        });
+
+        return true;
+    };
+
+    /**
+     * removeFolder
+     *
+     * Delete the folder being shown, keeping its checklists or moving them to the trash.
+     *
+     * @param {boolean} keepChecklists Whether to keep the checklists of the folder
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    removeFolder = (keepChecklists: boolean) => {
+        const folder = this.state.folders.find((current) => current.id === this.state.dialogId);
+
+        // Hide the dialog.
+        this.cancelDialog();
+
+        if (!folder) return;
+
+        deleteFolder(this.context, folder, this.props.data, keepChecklists).then(() => {
+            // Return to the top level and reload the folders and checklists.
+            this.openFolder();
+            this.loadFolders();
+            this.props.onRefresh();
+
+            this.props.onMessage(
+                keepChecklists
+                    ? 'Folder deleted, its checklists were kept'
+                    : 'Folder deleted, its checklists were moved to the trash'
+            );
+        });
+    };
+
+    /**
+     * openMoveDialog
+     *
+     * Open the dialog for moving the given checklist to another folder.
+     *
+     * @param {ChecklistData} data The checklist to move
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    openMoveDialog = (data: ChecklistData) => {
+        this.setState({
+            dialogActive: true,
+            dialogId: data.id,
+            dialogMode: 'move',
+            dialogUseKeyboard: false,
+            moveTarget: data.folder !== undefined ? data.folder.toString() : '',
+        });
+    };
+
+    /**
+     * updateMoveTarget
+     *
+     * Update the folder chosen in the move dialog.
+     *
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    updateMoveTarget = ($event: React.ChangeEvent<HTMLSelectElement>) => {
+        this.setState({
+            moveTarget: $event.target.value,
+        });
+    };
+
+    /**
+     * moveChecklist
+     *
+     * Move the checklist from the move dialog into the chosen folder.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    moveChecklist = () => {
+        const data = this.props.data.find((current) => current.id === this.state.dialogId);
+        const folder = this.state.folders.find((current) => current.id.toString() === this.state.moveTarget);
+
+        // Hide the dialog.
+        this.cancelDialog();
+
+        if (!data) return;
+
+        moveToFolder(this.context, data, folder ? folder.id : undefined).then((saved) => {
+            this.props.onRefresh(saved);
+            this.props.onMessage(folder ? `Checklist moved to ${folder.title}` : 'Checklist moved out of its folder');
+        });
+    };
+
+    /**
+     * moveButton
+     *
+     * Render the HTML for the button moving the given checklist to another folder.
+     *
+     * @param {ChecklistData} data The checklist to move
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    moveButton = (data: ChecklistData) => {
+        return (
+            <button
+                className="mdf-button mdf-button--icon"
+                aria-label="Move checklist to a folder"
+                onClick={() => this.openMoveDialog(data)}
+            >
+                <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                    <use href={`${Icons}#view-grid`}></use>
+                </svg>
+            </button>
+        );
+    };
+
+    /**
+     * progressBar
+     *
+     * Render the HTML for the given progress of a folder.
+     *
+     * @param {number} progress Share of the tasks that are done, from `0` to `1`
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    progressBar = (progress: number) => {
+        return (
+            <span
+                className="mdf-folder__progress"
+                role="progressbar"
+                aria-label="Tasks done"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(progress * 100)}
+            >
+                <span style={{ width: `${Math.round(progress * 100)}%` }}></span>
+            </span>
+        );
+    };
+
+    /**
+     * folderList
+     *
+     * Render the HTML for the folders at the top level, each with its number of checklists and progress.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    folderList = () => {
+        return (
+            <section className="mdf-folders" aria-label="Folders">
+                {this.state.folders.map((folder) => {
+                    const stats = getFolderStats(folder, this.props.data);
+
+                    return (
+                        <button
+                            key={folder.id}
+                            className={`mdf-folder mdf-folder--${folder.color}`}
+                            onClick={() => this.openFolder(folder)}
+                        >
+                            <span className="mdf-folder__title">{folder.title}</span>
+                            <span className="mdf-folder__meta">
+                                {stats.count} {stats.count === 1 ? 'checklist' : 'checklists'} &mdash;{' '}
+                                {Math.round(stats.progress * 100)}% done
+                            </span>
+                            {this.progressBar(stats.progress)}
+                        </button>
+                    );
+                })}
+
+                <button className="mdf-button mdf-button--leading-icon" onClick={() => this.openFolderDialog()}>
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#add`}></use>
+                    </svg>
+                    New folder
+                </button>
+            </section>
+        );
+    };
+
+    /**
+     * folderHeader
+     *
+     * Render the HTML for the folder being shown, with a way back to the top level.
+     *
+     * @param {FolderData} folder The folder being shown
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    folderHeader = (folder: FolderData) => {
+        const stats = getFolderStats(folder, this.props.data);
+
+        return (
+            <div className={`mdf-folder mdf-folder--open mdf-folder--${folder.color}`}>
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Return to all checklists"
+                    onClick={() => this.openFolder()}
+                >
+                    <svg className="mdf-icon mdf-rotate-180" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#arrow-keyboard`}></use>
+                    </svg>
+                </button>
+
+                <div className="mdf-folder__content">
+                    <h3 className="mdf-folder__title">{folder.title}</h3>
+                    <span className="mdf-folder__meta">
+                        {stats.count} {stats.count === 1 ? 'checklist' : 'checklists'} &mdash;{' '}
+                        {Math.round(stats.progress * 100)}% done
+                    </span>
+                    {this.progressBar(stats.progress)}
+                </div>
+
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Rename folder"
+                    onClick={() => this.openFolderDialog(folder)}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#edit`}></use>
+                    </svg>
+                </button>
+
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Delete folder"
+                    onClick={() => this.openDialog(folder.id, 'deleteFolder')}
+                    onKeyDown={($event) => this.openKbDialog($event, folder.id, 'deleteFolder')}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#delete`}></use>
+                    </svg>
+                </button>
+            </div>
+        );
+    };
+
+    /**
+     * togglePin
      *
-     * Request the Edit slide with the given data.
+     * Pin the given checklist, or unpin it if it's pinned already.
      *
-     * @param {ChecklistData} data The checklist data provided to the slide
+     * @param {ChecklistData} data The checklist to pin or unpin
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    openEdit = (data: ChecklistData) => {
-        this.props.onSlideChange('edit', data);
+    togglePin = (data: ChecklistData) => {
+        const pinned = data.pinned === undefined;
+        const saving = pinned ? pinChecklist(this.context, data, this.props.data) : unpinChecklist(this.context, data);
+
+        saving.then((saved) => {
+            this.props.onRefresh(saved);
+            this.props.onMessage(pinned ? 'Checklist pinned' : 'Checklist unpinned');
+        });
     };
 
     /**
-     * openView
+     * movePin
      *
-     * Request the View slide with the given data.
+     * Move the pinned checklist at the given index to another place among the pinned checklists.
      *
-     * @param {ChecklistData} data The checklist data provided to the slide
+     * @param {number} from Index of the checklist to move
+     * @param {number} to Index to move the checklist to
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    openView = (data: ChecklistData) => {
-        this.props.onSlideChange('view', data);
+    movePin = (from: number, to: number) => {
+        const pinned = this.pinnedList();
+
+        if (from === to || to < 0 || to >= pinned.length) {
+            return;
+        }
+
+        movePinned(this.context, pinned, from, to).then((saved) => {
+            saved.forEach((data) => this.props.onRefresh(data));
+
+            // Keep the keyboard focus on the moved checklist.
+            setTimeout(() => document.querySelector<HTMLElement>(`#pin-handle-${pinned[from].id}`)?.focus());
+        });
     };
 
     /**
-     * date
+     * handlePinDragStart
      *
-     * Convert timestamp to date string showing month, day and year.
+     * Remember which pinned checklist is being dragged.
      *
-     * @param {number} time The timestamp to convert
+     * @param {React.DragEvent<HTMLElement>} $event
+     * @param {number} index Index of the dragged checklist
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    date = (time: number): string => {
-        return dayjs(time).format('MMM, DD YYYY');
+    handlePinDragStart = ($event: React.DragEvent<HTMLElement>, index: number) => {
+        // Firefox only starts dragging when data is set.
+        $event.dataTransfer.effectAllowed = 'move';
+        $event.dataTransfer.setData('text/plain', index.toString());
+
+        this.draggedPin = index;
     };
 
     /**
-     * time
+     * handlePinDragOver
      *
-     * Convert timestamp to date string showing hours:minutes and AM/PM indicator.
+     * Allow dropping a dragged pinned checklist on the given one and highlight it.
      *
-     * @param {number} time The timestamp to convert
+     * @param {React.DragEvent<HTMLElement>} $event
+     * @param {number} index Index of the checklist dragged over
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    time = (time: number): string => {
-        return dayjs(time).format('H:mm A');
+    handlePinDragOver = ($event: React.DragEvent<HTMLElement>, index: number) => {
+        if (this.draggedPin === null) return;
+
+        $event.preventDefault();
+        $event.dataTransfer.dropEffect = 'move';
+
+        if (this.state.pinDropTarget !== index) {
+            this.setState({ pinDropTarget: index });
+        }
     };
 
     /**
-     * setActiveTab
+     * handlePinDrop
      *
-     * Set the active tab with the given index.
-     * `0` targets the first tab, `1` the second.
+     * Move the dragged pinned checklist to the place of the given one.
      *
-     * @param {number} index The tab index
+     * @param {React.DragEvent<HTMLElement>} $event
+     * @param {number} index Index of the checklist dropped on
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    setActiveTab = (index: number) => {
-        this.setState({
-            activeTab: index,
-        });
+    handlePinDrop = ($event: React.DragEvent<HTMLElement>, index: number) => {
+        $event.preventDefault();
+
+        if (this.draggedPin !== null) {
+            this.movePin(this.draggedPin, index);
+        }
+
+        this.handlePinDragEnd();
     };
 
     /**
-     * switchActiveTab
+     * handlePinDragEnd
      *
-     * Allows the left and right arrow keys on the keyboard to switch the active tab.
+     * Forget the dragged pinned checklist and remove the drop highlight.
      *
-     * @param {React.KeyboardEvent<HTMLButtonElement>} $event
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    switchActiveTab = ($event: React.KeyboardEvent<HTMLButtonElement>) => {
-        // Get the currently active tab.
-        let targetIndex = this.state.activeTab;
-
-        if ($event.key === 'ArrowLeft') {
-            $event.preventDefault();
-
-            // If the left arrow key has been used, we either move one tab backwards or jump to the end of the tab order.
-            if (targetIndex > 0) {
-                targetIndex = 0;
-            } else {
-                targetIndex = 1;
-            }
-        } else if ($event.key === 'ArrowRight') {
-            $event.preventDefault();
-
-            // If the right arrow key has been used, we either move one tab forwards or jump to the start of the tab order.
-            if (targetIndex < 1) {
-                targetIndex = 1;
-            } else {
-                targetIndex = 0;
-            }
-        }
-
-        // Set the active tab using the calculated index.
-        this.setActiveTab(targetIndex);
+    handlePinDragEnd = () => {
+        this.draggedPin = null;
+        this.setState({ pinDropTarget: null });
     };
 
     /**
-     * openDialog
+     * handlePinKeyDown
      *
-     * Open the `Remove checklist` dialog window.
+     * Move the pinned checklist with `Alt + ArrowUp` and `Alt + ArrowDown`.
      *
-     * @param {number} id The id of the checklist to remove
+     * @param {React.KeyboardEvent<HTMLElement>} $event
+     * @param {number} index Index of the pinned checklist
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    openDialog = (id: number) => {
-        this.setState({
-            dialogActive: true,
-            dialogId: id,
-            dialogUseKeyboard: false,
-        });
+    handlePinKeyDown = ($event: React.KeyboardEvent<HTMLElement>, index: number) => {
+        if (!$event.altKey || ($event.key !== 'ArrowUp' && $event.key !== 'ArrowDown')) return;
+
+        $event.preventDefault();
+        this.movePin(index, $event.key === 'ArrowUp' ? index - 1 : index + 1);
     };
 
     /**
-     * openKbDialog
+     * pinButton
      *
-     * Open the `Remove checklist` dialog window with keyboard controls.
+     * Render the HTML for the button pinning or unpinning the given checklist.
      *
-     * @param {React.KeyboardEvent<HTMLButtonElement>} $event
-     * @param {number} id The id of the checklist to remove
+     * @param {ChecklistData} data The checklist to pin or unpin
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    openKbDialog = ($event: React.KeyboardEvent<HTMLButtonElement>, id: number) => {
-        if ($event.key === 'Enter' || $event.key === ' ') {
-            $event.preventDefault();
-
-            this.setState({
-                dialogActive: true,
-                dialogId: id,
-                dialogUseKeyboard: true,
-            });
-        }
+    pinButton = (data: ChecklistData) => {
+        return (
+            <button
+                className={`mdf-button mdf-button--icon mdf-pin ${data.pinned !== undefined ? 'mdf-pin--active' : ''}`}
+                aria-label={data.pinned !== undefined ? 'Unpin checklist' : 'Pin checklist'}
+                aria-pressed={data.pinned !== undefined}
+                onClick={() => this.togglePin(data)}
+            >
+                <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                    <use href={`${Icons}#favorite`}></use>
+                </svg>
+            </button>
+        );
     };
 
     /**
-     * cancelDialog
+     * pinnedList
      *
-     * Close the dialog window.
+     * Returns the pinned checklists matching the tag filter, in their pinned order.
+     * Inside a folder only its own checklists are listed, at the top level those of every folder.
      *
+     * @return {*} {ChecklistData[]}
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    cancelDialog = () => {
-        this.setState({
-            dialogActive: false,
-        });
+    pinnedList = (): ChecklistData[] => {
+        return getPinned(
+            this.props.data.filter(
+                (data) =>
+                    (this.state.folderId === null || this.inFolder(data)) &&
+                    matchesTags(data, this.state.filterTags, this.state.filterMatch)
+            )
+        );
     };
 
     /**
-     * deleteChecklist
+     * pinnedChecklists
      *
-     * Delete the requested checklist from storage and refresh the Landing data.
+     * Render the HTML for the pinned checklists, which can be put in order by dragging them.
      *
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    deleteChecklist = () => {
-        // Delete the checklist from storage.
-        this.storage.delete(this.state.dialogId.toString()).then(() => {
-            // Hide the dialog.
-            this.cancelDialog();
+    pinnedChecklists = () => {
+        const pinned = this.pinnedList();
 
-            // Refresh the Landing data.
-            this.props.onRefresh();
+        return (
+            !!pinned.length && (
+                <section className="mdf-pinned" aria-label="Pinned checklists">
+                    <h6 className="mdf-checklist-group__title">Pinned</h6>
 
-            // Display a message to the user.
-            this.props.onMessage('Checklist successfully removed');
-        });
+                    <ul className="mdf-checklist-list">
+                        {pinned.map((data, index) => (
+                            <li
+                                key={data.id}
+                                className={`mdf-checklist-list__item ${
+                                    data.complete ? 'mdf-checklist-list__item--complete' : ''
+                                } ${this.state.pinDropTarget === index ? 'mdf-drop-target' : ''}`}
+                                onDragOver={($event) => this.handlePinDragOver($event, index)}
+                                onDragLeave={() => this.setState({ pinDropTarget: null })}
+                                onDrop={($event) => this.handlePinDrop($event, index)}
+                            >
+                                <button
+                                    id={`pin-handle-${data.id}`}
+                                    className="mdf-button mdf-button--icon mdf-drag-handle"
+                                    aria-label={`Move ${data.title}, use Alt and the arrow keys`}
+                                    draggable={true}
+                                    onDragStart={($event) => this.handlePinDragStart($event, index)}
+                                    onDragEnd={this.handlePinDragEnd}
+                                    onKeyDown={($event) => this.handlePinKeyDown($event, index)}
+                                >
+                                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                        <use href={`${Icons}#menu`}></use>
+                                    </svg>
+                                </button>
+
+                                <div
+                                    className="mdf-checklist-list__item-content"
+                                    aria-label="View checklist"
+                                    onClick={() => this.openView(data)}
+                                >
+                                    <h6 className="mdf-checklist-list__item-title">
+                                        {data.title}
+                                        {this.priorityMarker(data)}
+                                    </h6>
+
+                                    <span className="mdf-checklist-list__item-meta">
+                                        Tasks left: {countTasksLeft(data)}
+                                        {this.dueLabel(data)}
+                                    </span>
+                                </div>
+
+                                {this.pinButton(data)}
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )
+        );
     };
 
     /**
-     * unfinishedChecklists
+     * unfinishedItem
      *
-     * Render the HTML for the unfinished checklists.
+     * Render the HTML for the given unfinished checklist.
      *
+     * @param {ChecklistData} data The checklist to render
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    unfinishedChecklists = () => {
-        // Create list of all unfinished checklists.
-        const incompleteLists = this.props.data.filter((data) => data.complete === false);
-
-        // Create array of unfinished checklist elements.
-        const items = incompleteLists.map((data) => (
-            <li className="mdf-checklist-list__item" key={data.id}>
+    unfinishedItem = (data: ChecklistData) => {
+        return (
+            <li
+                className={`mdf-checklist-list__item ${
+                    nextDueDate(data) !== undefined
+                        ? `mdf-checklist-list__item--${getDueStatus(nextDueDate(data)!)}`
+                        : ''
+                }`}
+                key={data.id}
+            >
                 <button
                     className="mdf-button mdf-button--icon"
                     aria-label="View checklist"
@@ -274,14 +1564,24 @@ export default class Landing extends React.Component<LandingProps, LandingState>
                     aria-label="View checklist"
                     onClick={() => this.openView(data)}
                 >
-                    <h6 className="mdf-checklist-list__item-title">{data.title}</h6>
+                    <h6 className="mdf-checklist-list__item-title">
+                        {data.title}
+                        {this.priorityMarker(data)}
+                    </h6>
 
                     <span className="mdf-checklist-list__item-meta">
                         Created {this.date(data.time)} at {this.time(data.time)} &mdash; Tasks left:{' '}
-                        {data.tasks.length - data.done.length}
+                        {countTasksLeft(data)}
+                        {this.dueLabel(data)}
                     </span>
+
+                    {this.tagChips(data)}
                 </div>
 
+                {this.moveButton(data)}
+
+                {this.pinButton(data)}
+
                 <button
                     className="mdf-button mdf-button--icon"
                     aria-label="Edit checklist"
@@ -292,26 +1592,20 @@ export default class Landing extends React.Component<LandingProps, LandingState>
                     </svg>
                 </button>
             </li>
-        ));
-
-        // Return the elements for rendering.
-        return items;
+        );
     };
 
     /**
-     * completedChecklists
+     * completedItem
      *
-     * Render the HTML for the completed checklists.
+     * Render the HTML for the given completed checklist.
      *
+     * @param {ChecklistData} data The checklist to render
      * @memberof Landing
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    completedChecklists = () => {
-        // Create list of all completed checklists.
-        const completeLists = this.props.data.filter((data) => data.complete === true);
-
-        // Create array of complete checklist elements.
-        const items = completeLists.map((data) => (
+    completedItem = (data: ChecklistData) => {
+        return (
             <li className="mdf-checklist-list__item mdf-checklist-list__item--complete" key={data.id}>
                 <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
                     <use href={`${Icons}#checklist`}></use>
@@ -322,10 +1616,16 @@ export default class Landing extends React.Component<LandingProps, LandingState>
 
                     <span className="mdf-checklist-list__item-meta">
                         Created {this.date(data.time)} at {this.time(data.time)} &mdash; Tasks left:{' '}
-                        {data.tasks.length - data.done.length}
+                        {countTasksLeft(data)}
                     </span>
+
+                    {this.tagChips(data)}
                 </div>
 
+                {this.moveButton(data)}
+
+                {this.pinButton(data)}
+
                 <button
                     className="mdf-button mdf-button--icon"
                     aria-label="Delete task"
@@ -337,6 +1637,131 @@ export default class Landing extends React.Component<LandingProps, LandingState>
                     </svg>
                 </button>
             </li>
+        );
+    };
+
+    /**
+     * groupedLists
+     *
+     * Render the HTML for the given checklists, split into the chosen groups with a heading each.
+     *
+     * @param {ChecklistData[]} checklists The sorted checklists
+     * @param {(data: ChecklistData) => JSX.Element} item Renders a single checklist
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    groupedLists = (checklists: ChecklistData[], item: (data: ChecklistData) => JSX.Element) => {
+        return groupChecklists(checklists, this.state.groupMode).map((group) =>
+            group.label ? (
+                <section key={group.key} className="mdf-checklist-group" aria-label={group.label}>
+                    <h6 className="mdf-checklist-group__title">
+                        {group.label} <span>({group.checklists.length})</span>
+                    </h6>
+
+                    <ul className="mdf-checklist-list">{group.checklists.map(item)}</ul>
+                </section>
+            ) : (
+                <ul key={group.key} className="mdf-checklist-list">
+                    {group.checklists.map(item)}
+                </ul>
+            )
+        );
+    };
+
+    /**
+     * unfinishedChecklists
+     *
+     * Render the HTML for the unfinished checklists, sorted and grouped the way the user chose.
+     *
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    unfinishedChecklists = () => {
+        // Create list of all unfinished checklists matching the tag filter, in the chosen order.
+        // Pinned checklists are shown above them already.
+        const incompleteLists = sortChecklists(
+            this.filterChecklists(this.props.data).filter(
+                (data) => data.complete === false && !data.deleted && data.pinned === undefined
+            ),
+            this.state.sortMode
+        );
+
+        // Render the unfinished checklists in their groups.
+        return this.groupedLists(incompleteLists, this.unfinishedItem);
+    };
+
+    /**
+     * completedChecklists
+     *
+     * Render the HTML for the completed checklists, sorted and grouped the way the user chose.
+     *
+     * @memberof Landing
+     * @since 1.0.0
+     */
+    completedChecklists = () => {
+        // Create list of all completed checklists matching the tag filter, in the chosen order.
+        const completeLists = sortChecklists(
+            this.filterChecklists(this.props.data).filter((data) => data.complete === true && !data.deleted),
+            this.state.sortMode
+        );
+
+        // Render the completed checklists in their groups.
+        return this.groupedLists(completeLists, this.completedItem);
+    };
+
+    /**
+     * trashedChecklists
+     *
+     * Render the HTML for the checklists in the trash.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    trashedChecklists = () => {
+        // Create list of all trashed checklists, most recently deleted first.
+        const trashedLists = this.props.data
+            .filter((data) => data.deleted)
+            .sort((a, b) => (b.deleted as number) - (a.deleted as number));
+
+        // Create array of trashed checklist elements.
+        const items = trashedLists.map((data) => (
+            <li
+                className="mdf-checklist-list__item mdf-checklist-list__item--complete mdf-checklist-list__item--trashed"
+                key={data.id}
+            >
+                <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                    <use href={`${Icons}#delete`}></use>
+                </svg>
+
+                <div className="mdf-checklist-list__item-content">
+                    <h6 className="mdf-checklist-list__item-title">{data.title}</h6>
+
+                    <span className="mdf-checklist-list__item-meta">
+                        Deleted {this.date(data.deleted!)} at {this.time(data.deleted!)}
+                    </span>
+                </div>
+
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Restore checklist"
+                    onClick={() => this.restoreFromTrash(data)}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#undo`}></use>
+                    </svg>
+                </button>
+
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Delete checklist for good"
+                    onClick={() => this.openDialog(data.id, 'delete')}
+                    onKeyDown={($event) => this.openKbDialog($event, data.id, 'delete')}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#delete-forever`}></use>
+                    </svg>
+                </button>
+            </li>
         ));
 
         // Return the elements for rendering.
@@ -346,14 +1771,24 @@ export default class Landing extends React.Component<LandingProps, LandingState>
     /**
      * showTabs
      *
-     * Renders the HTML for the open/complete tabs holding our checklists.
+     * Renders the HTML for the open/complete/trash tabs holding our checklists.
      *
      * @memberof Landing
      * @since 1.0.0
      */
     showTabs = () => {
+        // The open and complete tabs only count the checklists in the folder being shown matching the tag filter.
+        const filtered = this.filterChecklists(this.props.data);
+        const folder = this.state.folders.find((current) => current.id === this.state.folderId);
+
         return (
             <div className="mdf-group mdf-group--stacked">
+                {folder ? this.folderHeader(folder) : this.folderList()}
+
+                {this.filterBar()}
+
+                {this.props.data.some((data) => !data.deleted) && this.listOptions()}
+
                 <Tabs activeTab={this.state.activeTab}>
                     <div
                         className="mdf-tabs__bar mdf-tabs__bar--left"
@@ -366,7 +1801,7 @@ export default class Landing extends React.Component<LandingProps, LandingState>
                             onClick={() => this.setActiveTab(0)}
                             onKeyDown={($event) => this.switchActiveTab($event)}
                         >
-                            Open ({this.props.data.filter((data) => !data.complete).length})
+                            Open ({filtered.filter((data) => !data.complete && !data.deleted).length})
                         </Tab>
 
                         <Tab
@@ -375,25 +1810,65 @@ export default class Landing extends React.Component<LandingProps, LandingState>
                             onClick={() => this.setActiveTab(1)}
                             onKeyDown={($event) => this.switchActiveTab($event)}
                         >
-                            Complete ({this.props.data.filter((data) => data.complete).length})
+                            Complete ({filtered.filter((data) => data.complete && !data.deleted).length})
+                        </Tab>
+
+                        <Tab
+                            id={2}
+                            selected={this.state.activeTab === 2 ? true : false}
+                            onClick={() => this.setActiveTab(2)}
+                            onKeyDown={($event) => this.switchActiveTab($event)}
+                        >
+                            Trash ({this.props.data.filter((data) => data.deleted).length})
                         </Tab>
                     </div>
 
                     <div className="mdf-tabs__panels">
                         <TabsPanel id={0} selected={this.state.activeTab === 0 ? true : false}>
-                            {this.props.data.filter((data) => !data.complete).length === 0 && (
-                                <h5 style={{ marginTop: '2rem', textAlign: 'center' }}>
-                                    Seems like you have no open checklists right now.
-                                    <br />
-                                    Why not add one?
-                                </h5>
-                            )}
+                            {this.pinnedChecklists()}
+
+                            {filtered.filter((data) => !data.complete && !data.deleted).length === 0 &&
+                                (this.state.filterTags.length ? (
+                                    <h5 style={{ marginTop: '2rem', textAlign: 'center' }}>
+                                        No open checklists match the chosen tags.
+                                    </h5>
+                                ) : this.state.folderId !== null ? (
+                                    <h5 style={{ marginTop: '2rem', textAlign: 'center' }}>
+                                        There are no open checklists in this folder.
+                                    </h5>
+                                ) : (
+                                    <h5 style={{ marginTop: '2rem', textAlign: 'center' }}>
+                                        Seems like you have no open checklists right now.
+                                        <br />
+                                        Why not add one?
+                                    </h5>
+                                ))}
 
-                            <ul className="mdf-checklist-list">{this.unfinishedChecklists()}</ul>
+                            {this.unfinishedChecklists()}
                         </TabsPanel>
 
                         <TabsPanel id={1} selected={this.state.activeTab === 1 ? true : false}>
-                            <ul className="mdf-checklist-list">{this.completedChecklists()}</ul>
+                            {this.completedChecklists()}
+                        </TabsPanel>
+
+                        <TabsPanel id={2} selected={this.state.activeTab === 2 ? true : false}>
+                            {this.props.data.some((data) => data.deleted) ? (
+                                <button
+                                    id="empty-trash"
+                                    className="mdf-button mdf-button--leading-icon"
+                                    onClick={() => this.openDialog(0, 'empty')}
+                                    onKeyDown={($event) => this.openKbDialog($event, 0, 'empty')}
+                                >
+                                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                        <use href={`${Icons}#delete-forever`}></use>
+                                    </svg>
+                                    Empty trash
+                                </button>
+                            ) : (
+                                <h5 style={{ marginTop: '2rem', textAlign: 'center' }}>The trash is empty.</h5>
+                            )}
+
+                            <ul className="mdf-checklist-list">{this.trashedChecklists()}</ul>
                         </TabsPanel>
                     </div>
                 </Tabs>
@@ -409,15 +1884,7 @@ export default class Landing extends React.Component<LandingProps, LandingState>
                     </svg>
                 </button>
 
-                {this.state.dialogActive && (
-                    <Dialog
-                        title={'Remove checklist'}
-                        description={'Are you sure you want to remove this checklist?'}
-                        keyboard={this.state.dialogUseKeyboard}
-                        onConfirm={this.deleteChecklist}
-                        onCancel={this.cancelDialog}
-                    />
-                )}
+                {this.state.dialogActive && this.showDialog()}
             </div>
         );
     };
@@ -452,7 +1919,42 @@ export default class Landing extends React.Component<LandingProps, LandingState>
                 <header className="mdf-slide__header">
                     <h2 className="mdf-slide__title">Thoughts.</h2>
 
+                    {!!this.props.data.length && (
+                        <div className="mdf-search" role="search">
+                            <input
+                                id="checklist-search"
+                                className="mdf-search__input"
+                                type="search"
+                                aria-label="Search checklists and tasks"
+                                placeholder="Search..."
+                                value={this.state.query}
+                                onChange={this.updateQuery}
+                                onKeyDown={this.handleSearchKeyDown}
+                            />
+                        </div>
+                    )}
+
                     <div className="mdf-slide__controls">
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Show what is due today"
+                            onClick={this.openAgenda}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#report`} />
+                            </svg>
+                        </button>
+
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Show your checklist templates"
+                            onClick={this.openTemplates}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#thumbnails`} />
+                            </svg>
+                        </button>
+
                         <button
                             id="show-options"
                             className="mdf-button mdf-button--icon"
@@ -468,7 +1970,11 @@ export default class Landing extends React.Component<LandingProps, LandingState>
 
                 <main className="mdf-slide__main">
                     <div className={`mdf-slide__content ${this.props.data.length ? 'mdf-slide__content--top' : ''}`}>
-                        {this.props.data.length ? this.showTabs() : this.welcomeMessage()}
+                        {!this.props.data.length
+                            ? this.welcomeMessage()
+                            : this.state.query.trim().length
+                            ? this.searchResults()
+                            : this.showTabs()}
                     </div>
                 </main>
 
@@ -483,4 +1989,11 @@ export default class Landing extends React.Component<LandingProps, LandingState>
             </div>
         );
     }
+
+    componentDidUpdate(prevProps: LandingProps) {
+        // Load the folders again whenever the checklists were reloaded, storage is only ready after the first load.
+        if (prevProps.data !== this.props.data) {
+            this.loadFolders();
+        }
+    }
 }
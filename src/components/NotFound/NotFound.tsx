@@ -0,0 +1,67 @@
+import React from 'react';
+
+import './NotFound.scoped.scss';
+import Icons from '../../assets/images/icons.svg';
+
+interface NotFoundProps {
+    onBack: () => void;
+}
+
+/**
+ * NotFound
+ *
+ * Displayed when a link points to a page or checklist that doesn't exist.
+ *
+ * @export
+ * @class NotFound
+ * @extends {React.Component<NotFoundProps>}
+ * @version 1.0.0
+ */
+export default class NotFound extends React.Component<NotFoundProps> {
+    render() {
+        return (
+            <div className="mdf-slide">
+                <header className="mdf-slide__header">
+                    <div className="mdf-slide__controls">
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Return to the previous page"
+                            onClick={this.props.onBack}
+                        >
+                            <svg className="mdf-icon mdf-rotate-180" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#arrow-keyboard`}></use>
+                            </svg>
+                        </button>
+                    </div>
+
+                    <h2 className="mdf-slide__title">
+                        Nothing <span> </span>
+                        <strong>here.</strong>
+                    </h2>
+                </header>
+
+                <main className="mdf-slide__main">
+                    <div className="mdf-slide__content">
+                        <div id="not-found">
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#warning`}></use>
+                            </svg>
+
+                            <p id="not-found-heading">
+                                This checklist doesn't exist.
+                                <br />
+                                <span>It may have been removed, or the link is incomplete.</span>
+                            </p>
+                        </div>
+                    </div>
+                </main>
+
+                <footer className="mdf-slide__footer">
+                    <button className="mdf-button mdf-button--filled mdf-button--large" onClick={this.props.onBack}>
+                        Show all checklists
+                    </button>
+                </footer>
+            </div>
+        );
+    }
+}
@@ -1,17 +1,25 @@
 import React from 'react';
+import dayjs from 'dayjs';
+import Dialog from '../Dialog/Dialog';
 import PreferencesManager from '../../preferences.manager';
-import { removeClassByPrefix } from '../../helpers';
+import StorageContext from '../../storage.provider';
+import { BackupData, createBackup, parseBackup, restoreBackup } from '../../backup';
+import { downloadFile, readFile, removeClassByPrefix } from '../../helpers';
 
 import './Preferences.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
 
 interface PreferencesProps {
     onBack: () => void;
+    onRefresh: () => void;
+    onMessage: (message: string) => void;
 }
 
 interface PreferencesState {
     accent: string;
+    backup: BackupData | null;
     gradient: string;
+    retention: string;
     useDarkTheme: boolean;
 }
 
@@ -19,17 +27,28 @@ interface PreferencesState {
  * Preferences
  *
  * Displays the user options to change the visual preferences for the app.
+ * Also allows the user to back up and restore all checklists and preferences.
  *
  * @export
  * @class Preferences
  * @extends {React.Component<PreferencesProps, PreferencesState>}
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class Preferences extends React.Component<PreferencesProps, PreferencesState> {
+    static contextType = StorageContext; // Storage adapter provided by the App.
+    context!: React.ContextType<typeof StorageContext>;
+
     appContainer!: HTMLElement; // App container element.
+    fileRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the backup file input.
     preferences: PreferencesManager; // Handles getting/setting the user settings.
 
-    state = { accent: 'green', gradient: 'Quepal', useDarkTheme: false };
+    state: PreferencesState = {
+        accent: 'green',
+        backup: null,
+        gradient: 'Quepal',
+        retention: '30',
+        useDarkTheme: false,
+    };
 
     constructor(props: PreferencesProps) {
         super(props);
@@ -116,6 +135,168 @@ export default class Preferences extends React.Component<PreferencesProps, Prefe
         });
     };
 
+    /**
+     * setTheme
+     *
+     * Set the given theme as active.
+     *
+     * @param {string} theme The desired theme, `light` or `dark`
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    setTheme = (theme: string) => {
+        // Add or remove the dark theme class.
+        document.body.classList.toggle('mdf-theme-dark', theme === 'dark');
+
+        // Store the theme in localStorage.
+        this.preferences.set('theme', theme);
+
+        // Update our state.
+        this.setState({
+            useDarkTheme: theme === 'dark',
+        });
+    };
+
+    /**
+     * setRetention
+     *
+     * Set the number of days checklists are kept in the trash.
+     *
+     * @param {string} retention The desired retention period, `never` keeps them forever
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    setRetention = (retention: string) => {
+        // Store the retention period in localStorage.
+        this.preferences.set('retention', retention);
+
+        // Update our state.
+        this.setState({
+            retention: retention,
+        });
+    };
+
+    /**
+     * exportBackup
+     *
+     * Download a backup file holding all checklists and preferences.
+     *
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    exportBackup = () => {
+        createBackup(this.context, this.preferences)
+            .then((backup) => {
+                // Offer the backup as a download, the date in the file name makes it easier to keep several.
+                downloadFile(
+                    `thoughts-backup-${dayjs(backup.created).format('YYYY-MM-DD')}.json`,
+                    JSON.stringify(backup, null, 2),
+                    'application/json'
+                );
+
+                // Display a message to the user.
+                this.props.onMessage('Backup successfully exported');
+            })
+            .catch(() => {
+                this.props.onMessage('Backup could not be exported');
+            });
+    };
+
+    /**
+     * chooseBackup
+     *
+     * Open the file picker to choose a backup file.
+     *
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    chooseBackup = () => {
+        this.fileRef.current!.click();
+    };
+
+    /**
+     * importBackup
+     *
+     * Read and validate the chosen backup file, then ask the user how to restore it.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    importBackup = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = $event.target.files ? $event.target.files[0] : null;
+
+        // Reset the input so the same file can be chosen again.
+        $event.target.value = '';
+
+        if (!file) return;
+
+        readFile(file)
+            .then((content) => {
+                // Store the validated backup and show the merge-or-replace dialog.
+                this.setState({
+                    backup: parseBackup(content, this.preferences),
+                });
+            })
+            .catch((error: Error) => {
+                // Let the user know why the file can't be restored.
+                this.props.onMessage(`Backup could not be imported: ${error.message}`);
+            });
+    };
+
+    /**
+     * restore
+     *
+     * Restore the chosen backup, either merged with or replacing the existing checklists.
+     *
+     * @param {('merge' | 'replace')} mode How to treat existing checklists
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    restore = (mode: 'merge' | 'replace') => {
+        const backup = this.state.backup;
+
+        if (!backup) return;
+
+        // Hide the dialog.
+        this.cancelDialog();
+
+        restoreBackup(this.context, this.preferences, backup, mode)
+            .then((report) => {
+                // Apply the restored preferences.
+                this.setAccent(this.preferences.get('accent')!);
+                this.setGradient(this.preferences.get('gradient')!);
+                this.setTheme(this.preferences.get('theme')!);
+                this.setRetention(this.preferences.get('retention')!);
+
+                // Request a total refresh of the Landing slide data.
+                this.props.onRefresh();
+
+                // Display a message to the user.
+                this.props.onMessage(
+                    `Backup successfully restored: ${report.added} added, ${report.updated} updated` +
+                        (mode === 'replace' ? `, ${report.removed} removed` : '')
+                );
+            })
+            .catch(() => {
+                this.props.onMessage('Backup could not be restored');
+            });
+    };
+
+    /**
+     * cancelDialog
+     *
+     * Close the restore dialog and forget the chosen backup.
+     *
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    cancelDialog = () => {
+        this.setState({
+            backup: null,
+        });
+    };
+
     /**
      * applyPreferences
      *
@@ -128,10 +309,47 @@ export default class Preferences extends React.Component<PreferencesProps, Prefe
         this.setState({
             accent: this.preferences.get('accent')!,
             gradient: this.preferences.get('gradient')!,
+            retention: this.preferences.get('retention')!,
             useDarkTheme: this.preferences.get('theme') === 'dark' ? true : false,
         });
     };
 
+    /**
+     * listRetentions
+     *
+     * Render the HTML for our trash retention periods.
+     *
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    listRetentions = () => {
+        return this.preferences.retentions.map((retention) => (
+            <button
+                key={retention}
+                className={`mdf-button ${this.state.retention === retention ? 'mdf-button--filled' : ''}`}
+                aria-pressed={this.state.retention === retention}
+                onClick={() => this.setRetention(retention)}
+            >
+                {retention === 'never' ? 'Forever' : `${retention} days`}
+            </button>
+        ));
+    };
+
+    /**
+     * handleStorageEvent
+     *
+     * Update our state when the preferences were changed in another tab.
+     *
+     * @param {StorageEvent} $event
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    handleStorageEvent = ($event: StorageEvent) => {
+        if (this.preferences.isSettingKey($event.key)) {
+            this.applyPreferences();
+        }
+    };
+
     /**
      * listAccents
      *
@@ -245,10 +463,70 @@ export default class Preferences extends React.Component<PreferencesProps, Prefe
                                 </div>
                             </div>
                         </div>
+
+                        <div id="trash" className="mdf-group">
+                            <div className="mdf-group__header">
+                                <h6 className="mdf-group__title">Trash</h6>
+                                <p className="mdf-group__description">
+                                    Choose how long deleted checklists are kept in the trash before they are removed for
+                                    good.
+                                </p>
+                            </div>
+
+                            <div className="mdf-group__grid">{this.listRetentions()}</div>
+                        </div>
+
+                        <div id="backup" className="mdf-group">
+                            <div className="mdf-group__header">
+                                <h6 className="mdf-group__title">Backup</h6>
+                                <p className="mdf-group__description">
+                                    Save all your checklists and preferences to a file, or restore them from one.
+                                </p>
+                            </div>
+
+                            <div className="mdf-group__grid">
+                                <button
+                                    className="mdf-button mdf-button--filled mdf-button--leading-icon"
+                                    onClick={this.exportBackup}
+                                >
+                                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                        <use href={`${Icons}#download`} />
+                                    </svg>
+                                    Export backup
+                                </button>
+
+                                <button className="mdf-button mdf-button--leading-icon" onClick={this.chooseBackup}>
+                                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                        <use href={`${Icons}#cached`} />
+                                    </svg>
+                                    Import backup
+                                </button>
+
+                                <input
+                                    ref={this.fileRef}
+                                    type="file"
+                                    accept="application/json,.json"
+                                    hidden
+                                    onChange={($event) => this.importBackup($event)}
+                                />
+                            </div>
+                        </div>
                     </div>
                 </main>
 
                 <footer className="mdf-slide__footer"></footer>
+
+                {this.state.backup && (
+                    <Dialog
+                        title={'Restore backup'}
+                        description={`The backup holds ${this.state.backup.checklists.length} checklists. Merge them with your current checklists or replace all of them?`}
+                        actions={[
+                            { label: 'Merge', onClick: () => this.restore('merge') },
+                            { label: 'Replace', onClick: () => this.restore('replace') },
+                        ]}
+                        onCancel={this.cancelDialog}
+                    />
+                )}
             </div>
         );
     }
@@ -259,5 +537,12 @@ export default class Preferences extends React.Component<PreferencesProps, Prefe
 
         // Save the initial preferences to our state.
         this.applyPreferences();
+
+        // Follow preferences changed in other tabs.
+        window.addEventListener('storage', this.handleStorageEvent);
+    }
+
+    componentWillUnmount() {
+        window.removeEventListener('storage', this.handleStorageEvent);
     }
 }
@@ -0,0 +1,290 @@
+import React from 'react';
+import dayjs from 'dayjs';
+import StorageContext from '../../storage.provider';
+import { finishRun, formatDuration, getRuns, getRunStats, RunData, RunTask, saveRun, setRunTask } from '../../runs';
+import { SnackbarAction } from '../../snackbar.provider';
+import { ChecklistData } from '../../types';
+
+import './Runs.scoped.scss';
+import Icons from '../../assets/images/icons.svg';
+
+interface RunsProps {
+    data: ChecklistData;
+    onBack: () => void;
+    onMessage: (message: string, action?: SnackbarAction) => void;
+}
+
+interface RunsState {
+    runs: RunData[];
+}
+
+/**
+ * Runs
+ *
+ * Works through the current run of a checklist and lists its past runs.
+ * Runs keep their own results, the checklist itself is never changed.
+ *
+ * @export
+ * @class Runs
+ * @extends {React.Component<RunsProps, RunsState>}
+ * @version 1.0.0
+ */
+export default class Runs extends React.Component<RunsProps, RunsState> {
+    static contextType = StorageContext; // Storage adapter provided by the App.
+    context!: React.ContextType<typeof StorageContext>;
+
+    state: RunsState = { runs: [] };
+
+    /**
+     * loadRuns
+     *
+     * Load the runs of the checklist.
+     *
+     * @memberof Runs
+     * @since 1.0.0
+     */
+    loadRuns = () => {
+        getRuns(this.context, this.props.data.id).then((runs) => {
+            this.setState({
+                runs: runs,
+            });
+        });
+    };
+
+    /**
+     * getActiveRun
+     *
+     * Returns the latest run that is still in progress, if any.
+     *
+     * @return {*} {(RunData | undefined)}
+     * @memberof Runs
+     * @since 1.0.0
+     */
+    getActiveRun = (): RunData | undefined => {
+        return this.state.runs
+            .slice()
+            .reverse()
+            .find((run) => run.finished === null);
+    };
+
+    /**
+     * updateRun
+     *
+     * Show the given run and save it to storage.
+     *
+     * @param {RunData} run The updated run
+     * @memberof Runs
+     * @since 1.0.0
+     */
+    updateRun = (run: RunData) => {
+        this.setState((state) => ({
+            runs: state.runs.map((current) => (current.id === run.id ? run : current)),
+        }));
+
+        return saveRun(this.context, run);
+    };
+
+    /**
+     * toggleTask
+     *
+     * Mark the given task of the active run as done, or open it again.
+     *
+     * @param {RunData} run The active run
+     * @param {RunTask} task The task to toggle
+     * @memberof Runs
+     * @since 1.0.0
+     */
+    toggleTask = (run: RunData, task: RunTask) => {
+        this.updateRun(setRunTask(run, task.id, task.status === 'done' ? 'open' : 'done'));
+    };
+
+    /**
+     * skipTask
+     *
+     * Mark the given task of the active run as skipped, or open it again.
+     *
+     * @param {RunData} run The active run
+     * @param {RunTask} task The task to skip
+     * @memberof Runs
+     * @since 1.0.0
+     */
+    skipTask = (run: RunData, task: RunTask) => {
+        this.updateRun(setRunTask(run, task.id, task.status === 'skipped' ? 'open' : 'skipped'));
+    };
+
+    /**
+     * finish
+     *
+     * Finish the active run and let the user know how it went.
+     *
+     * @param {RunData} run The active run
+     * @memberof Runs
+     * @since 1.0.0
+     */
+    finish = (run: RunData) => {
+        const finished = finishRun(run);
+        const stats = getRunStats(finished);
+
+        this.updateRun(finished).then(() => {
+            this.props.onMessage(`Run finished, ${stats.done} of ${stats.total} tasks done`);
+        });
+    };
+
+    /**
+     * activeTemplate
+     *
+     * Render the HTML for the tasks of the active run.
+     *
+     * @param {RunData} run The active run
+     * @memberof Runs
+     * @since 1.0.0
+     */
+    activeTemplate = (run: RunData) => {
+        return (
+            <section className="mdf-runs__section">
+                <h5 className="mdf-runs__heading">Current run</h5>
+                <span className="mdf-runs__meta">
+                    Started by {run.runner} on {dayjs(run.started).format('MMM, DD YYYY H:mm A')}
+                </span>
+
+                <ul className="mdf-runs__tasks">
+                    {run.tasks.map((task) => (
+                        <li
+                            key={task.id}
+                            className={`mdf-runs__task mdf-runs__task--${task.status}`}
+                            style={{ paddingLeft: `${(task.indent || 0) * 1.5}rem` }}
+                        >
+                            <button
+                                className="mdf-button mdf-button--icon"
+                                aria-label={task.status === 'done' ? 'Open task again' : 'Mark task as done'}
+                                aria-pressed={task.status === 'done'}
+                                onClick={() => this.toggleTask(run, task)}
+                            >
+                                <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                    <use
+                                        href={`${Icons}#${task.status === 'done' ? 'checkbox' : 'checkbox-outline'}`}
+                                    ></use>
+                                </svg>
+                            </button>
+
+                            <span className="mdf-runs__task-text">{task.text}</span>
+
+                            <button
+                                className="mdf-button mdf-button--icon"
+                                aria-label={task.status === 'skipped' ? 'Stop skipping task' : 'Skip task'}
+                                aria-pressed={task.status === 'skipped'}
+                                onClick={() => this.skipTask(run, task)}
+                            >
+                                <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                    <use href={`${Icons}#block`}></use>
+                                </svg>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </section>
+        );
+    };
+
+    /**
+     * pastTemplate
+     *
+     * Render the HTML for the finished runs, newest first.
+     *
+     * @param {RunData[]} runs The finished runs
+     * @memberof Runs
+     * @since 1.0.0
+     */
+    pastTemplate = (runs: RunData[]) => {
+        return (
+            <section className="mdf-runs__section">
+                <h5 className="mdf-runs__heading">Past runs</h5>
+
+                <ul className="mdf-runs__list">
+                    {runs
+                        .slice()
+                        .reverse()
+                        .map((run) => {
+                            const stats = getRunStats(run);
+
+                            return (
+                                <li key={run.id} className="mdf-runs__item">
+                                    <h6 className="mdf-runs__item-title">
+                                        {run.runner} &mdash; {dayjs(run.started).format('MMM, DD YYYY H:mm A')}
+                                    </h6>
+
+                                    <span className="mdf-runs__meta">
+                                        {stats.done} of {stats.total} done ({Math.round(stats.rate * 100)}%)
+                                        {!!stats.skipped && `, ${stats.skipped} skipped`}
+                                        {stats.duration !== null && ` in ${formatDuration(stats.duration)}`}
+                                    </span>
+                                </li>
+                            );
+                        })}
+                </ul>
+            </section>
+        );
+    };
+
+    render() {
+        const active = this.getActiveRun();
+        const past = this.state.runs.filter((run) => run.finished !== null);
+
+        return (
+            <div className="mdf-slide">
+                <header className="mdf-slide__header">
+                    <div className="mdf-slide__controls">
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Return to the previous page"
+                            onClick={this.props.onBack}
+                        >
+                            <svg className="mdf-icon mdf-rotate-180" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#arrow-keyboard`}></use>
+                            </svg>
+                        </button>
+                    </div>
+
+                    <h2 className="mdf-slide__title">
+                        Checklist <span> </span>
+                        <strong>runs.</strong>
+                    </h2>
+                </header>
+
+                <main className="mdf-slide__main">
+                    <div className="mdf-slide__content">
+                        {this.state.runs.length ? (
+                            <div className="mdf-runs">
+                                {active && this.activeTemplate(active)}
+                                {!!past.length && this.pastTemplate(past)}
+                            </div>
+                        ) : (
+                            <h5 style={{ marginTop: '2rem', textAlign: 'center' }}>
+                                This checklist hasn't been run yet.
+                            </h5>
+                        )}
+                    </div>
+                </main>
+
+                <footer className="mdf-slide__footer">
+                    {active ? (
+                        <button
+                            className="mdf-button mdf-button--filled mdf-button--large"
+                            onClick={() => this.finish(active)}
+                        >
+                            Finish run
+                        </button>
+                    ) : (
+                        <button className="mdf-button mdf-button--filled mdf-button--large" onClick={this.props.onBack}>
+                            Return
+                        </button>
+                    )}
+                </footer>
+            </div>
+        );
+    }
+
+    componentDidMount() {
+        this.loadRuns();
+    }
+}
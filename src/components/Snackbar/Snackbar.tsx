@@ -1,6 +1,6 @@
 import React from 'react';
 import ReactDOM from 'react-dom';
-import SnackbarContext from '../../snackbar.provider';
+import SnackbarContext, { SnackbarAction, SnackbarMessage } from '../../snackbar.provider';
 
 import './Snackbar.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
@@ -10,6 +10,7 @@ interface SnackbarProps {
 }
 
 interface SnackbarState {
+    action: SnackbarAction | null;
     active: boolean;
 }
 
@@ -26,11 +27,12 @@ const CLASS = {
  * Snackbar
  *
  * Displays a message to the user at the bottom of the screen.
+ * Messages can offer an action, like `Undo`, which is available for as long as the message is visible.
  *
  * @export
  * @class Snackbar
  * @extends {React.Component<SnackbarProps, SnackbarState>}
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class Snackbar extends React.Component<SnackbarProps, SnackbarState> {
     static contextType = SnackbarContext; // Context from the Snackbar.Provider.
@@ -40,25 +42,26 @@ export default class Snackbar extends React.Component<SnackbarProps, SnackbarSta
     textRef: React.RefObject<HTMLSpanElement> = React.createRef(); // Ref to the snackbar text element.
 
     delay: number = 5000; // Delay before hiding the message automatically (in ms).
-    queue: string[] = []; // Messages queue.
+    queue: SnackbarMessage[] = []; // Messages queue.
     text: string = ''; // Current snackbar text.
     timeout: number = 0; // Timeout instance.
 
-    state = { active: false };
+    state: SnackbarState = { action: null, active: false };
 
     /**
      * showSnackbar
      *
      * Snow the snackbar with the given message.
      * Adds the message to the queue if a snackbar is already active.
+     * Messages with an action replace the active message right away, so the action is offered while it still applies.
      *
-     * @param {string} message The message to display
+     * @param {SnackbarMessage} message The message to display
      * @memberof Snackbar
      * @since 1.0.0
      */
-    showSnackbar = (message: string) => {
+    showSnackbar = (message: SnackbarMessage) => {
         // If a snackbar is still active, add the message to the queue and don't continue.
-        if (this.state.active) {
+        if (this.state.active && !message.action) {
             // We fire the dispatch event to avoid the snackbar showing the same message repeatedly.
             this.props.onDispatch();
 
@@ -71,16 +74,18 @@ export default class Snackbar extends React.Component<SnackbarProps, SnackbarSta
         clearTimeout(this.timeout);
 
         // Set snackbar message.
-        this.text = message;
-        this.textRef.current!.textContent = message;
+        this.text = message.text;
+        this.textRef.current!.textContent = message.text;
 
-        // Set the snackbar as `active`.
+        // Set the snackbar as `active` and offer the message action, if any.
         this.setState({
+            action: message.action ? message.action : null,
             active: true,
         });
 
         // Let the script know the current message has been shown to the user.
-        if (!this.queue.length) {
+        // Messages with an action skip the queue, so they always have to be dispatched here.
+        if (!this.queue.length || message.action) {
             this.props.onDispatch();
         }
 
@@ -165,8 +170,9 @@ export default class Snackbar extends React.Component<SnackbarProps, SnackbarSta
             // Clear the snackbar timeout id.
             clearTimeout(this.timeout);
 
-            // Set 'active' status to 'false'.
+            // Set 'active' status to 'false', the action expires with the message.
             this.setState({
+                action: null,
                 active: false,
             });
 
@@ -181,6 +187,22 @@ export default class Snackbar extends React.Component<SnackbarProps, SnackbarSta
         this.containerRef.current!.addEventListener('transitionend', waitForTransition);
     };
 
+    /**
+     * runAction
+     *
+     * Execute the action of the current message and hide the snackbar.
+     *
+     * @memberof Snackbar
+     * @since 1.1.0
+     */
+    runAction = () => {
+        if (this.state.action) {
+            this.state.action.onClick();
+        }
+
+        this.hideSnackbar();
+    };
+
     /**
      * keyboardEvents
      *
@@ -208,6 +230,12 @@ export default class Snackbar extends React.Component<SnackbarProps, SnackbarSta
                 <span ref={this.textRef} className="mdf-snackbar__text"></span>
 
                 <div className="mdf-snackbar__actions">
+                    {this.state.action && (
+                        <button className="mdf-snackbar__action mdf-button" onClick={this.runAction}>
+                            {this.state.action.label}
+                        </button>
+                    )}
+
                     <button className="mdf-snackbar__close" aria-label="Dismiss snackbar" onClick={this.hideSnackbar}>
                         <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
                             <use href={`${Icons}#clear`}></use>
@@ -230,7 +258,7 @@ export default class Snackbar extends React.Component<SnackbarProps, SnackbarSta
             // Loop through the available messages.
             for (const message of this.context) {
                 // Make sure there is a message to display.
-                if (message.length) {
+                if (message.text.length) {
                     // Show the snackbar with the given message.
                     this.showSnackbar(message);
                 }
@@ -0,0 +1,212 @@
+import React from 'react';
+import Dialog from '../Dialog/Dialog';
+import StorageContext from '../../storage.provider';
+import { deleteTemplate, findVariables, getTemplates, TemplateData } from '../../templates';
+import { SnackbarAction } from '../../snackbar.provider';
+
+import './Templates.scoped.scss';
+import Icons from '../../assets/images/icons.svg';
+
+interface TemplatesProps {
+    onBack: () => void;
+    onMessage: (message: string, action?: SnackbarAction) => void;
+}
+
+interface TemplatesState {
+    dialogTemplate: TemplateData | null;
+    templates: TemplateData[];
+}
+
+/**
+ * Templates
+ *
+ * Lists the saved checklist templates and allows the user to delete them.
+ * Templates are saved from the View slide and picked in the Add slide.
+ *
+ * @export
+ * @class Templates
+ * @extends {React.Component<TemplatesProps, TemplatesState>}
+ * @version 1.0.0
+ */
+export default class Templates extends React.Component<TemplatesProps, TemplatesState> {
+    static contextType = StorageContext; // Storage adapter provided by the App.
+    context!: React.ContextType<typeof StorageContext>;
+
+    state: TemplatesState = { dialogTemplate: null, templates: [] };
+
+    /**
+     * loadTemplates
+     *
+     * Load the saved templates.
+     *
+     * @memberof Templates
+     * @since 1.0.0
+     */
+    loadTemplates = () => {
+        getTemplates(this.context).then((templates) => {
+            this.setState({
+                templates: templates,
+            });
+        });
+    };
+
+    /**
+     * openDialog
+     *
+     * Ask the user to confirm deleting the given template.
+     *
+     * @param {TemplateData} template The template to delete
+     * @memberof Templates
+     * @since 1.0.0
+     */
+    openDialog = (template: TemplateData) => {
+        this.setState({
+            dialogTemplate: template,
+        });
+    };
+
+    /**
+     * cancelDialog
+     *
+     * Close the dialog window.
+     *
+     * @memberof Templates
+     * @since 1.0.0
+     */
+    cancelDialog = () => {
+        this.setState({
+            dialogTemplate: null,
+        });
+    };
+
+    /**
+     * removeTemplate
+     *
+     * Delete the template the dialog was opened for.
+     *
+     * @memberof Templates
+     * @since 1.0.0
+     */
+    removeTemplate = () => {
+        const template = this.state.dialogTemplate!;
+
+        // Hide the dialog.
+        this.cancelDialog();
+
+        deleteTemplate(this.context, template.id).then(() => {
+            // Reload the list without the deleted template.
+            this.loadTemplates();
+
+            // Display a message to the user.
+            this.props.onMessage('Template deleted');
+        });
+    };
+
+    /**
+     * listTemplates
+     *
+     * Render the HTML for the saved templates.
+     *
+     * @memberof Templates
+     * @since 1.0.0
+     */
+    listTemplates = () => {
+        return (
+            <ul className="mdf-templates">
+                {this.state.templates.map((template) => {
+                    const variables = findVariables(template);
+
+                    return (
+                        <li className="mdf-templates__item" key={template.id}>
+                            <div className="mdf-templates__item-content">
+                                <h6 className="mdf-templates__item-title">{template.title}</h6>
+
+                                <span className="mdf-templates__item-meta">
+                                    {template.tasks.length === 1 ? '1 task' : `${template.tasks.length} tasks`}
+                                    {!!variables.length && ` — asks for ${variables.join(', ')}`}
+                                </span>
+                            </div>
+
+                            <button
+                                className="mdf-button mdf-button--icon"
+                                aria-label={`Delete the template ${template.title}`}
+                                onClick={() => this.openDialog(template)}
+                            >
+                                <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                    <use href={`${Icons}#delete`}></use>
+                                </svg>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        );
+    };
+
+    render() {
+        return (
+            <div className="mdf-slide">
+                <header className="mdf-slide__header">
+                    <div className="mdf-slide__controls">
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Return to the previous page"
+                            onClick={this.props.onBack}
+                        >
+                            <svg className="mdf-icon mdf-rotate-180" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#arrow-keyboard`}></use>
+                            </svg>
+                        </button>
+                    </div>
+
+                    <h2 className="mdf-slide__title">
+                        Your <span> </span>
+                        <strong>templates.</strong>
+                    </h2>
+                </header>
+
+                <main className="mdf-slide__main">
+                    <div className="mdf-slide__content">
+                        {this.state.templates.length ? (
+                            this.listTemplates()
+                        ) : (
+                            <div id="templates-empty">
+                                <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                    <use href={`${Icons}#thumbnails`}></use>
+                                </svg>
+
+                                <p id="templates-empty-heading">
+                                    No templates yet.
+                                    <br />
+                                    <span>
+                                        Save any checklist as a template while viewing it. Placeholders like{' '}
+                                        <code>{'{{service}}'}</code> are filled in when a checklist is created from it.
+                                    </span>
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                </main>
+
+                <footer className="mdf-slide__footer">
+                    <button className="mdf-button mdf-button--filled mdf-button--large" onClick={this.props.onBack}>
+                        Return
+                    </button>
+                </footer>
+
+                {this.state.dialogTemplate && (
+                    <Dialog
+                        title={'Delete template'}
+                        description={`Are you sure you want to delete the template "${this.state.dialogTemplate.title}"? Checklists created from it are kept.`}
+                        onConfirm={this.removeTemplate}
+                        onCancel={this.cancelDialog}
+                    />
+                )}
+            </div>
+        );
+    }
+
+    componentDidMount() {
+        this.loadTemplates();
+    }
+}
@@ -1,16 +1,33 @@
 import React from 'react';
 import Checklist from '../Checklist/Checklist';
-import Storage from '../../storage';
+import Dialog from '../Dialog/Dialog';
+import PreferencesManager from '../../preferences.manager';
+import StorageContext from '../../storage.provider';
+import { restoreCompletion, updateChecklist } from '../../checklists';
+import { checklistToMarkdown } from '../../markdown';
+import { downloadFile } from '../../helpers';
+import { pinChecklist, unpinChecklist } from '../../pins';
+import { saveRun, startRun } from '../../runs';
+import { createTemplate, saveTemplate } from '../../templates';
+import { SnackbarAction } from '../../snackbar.provider';
 import { ChecklistData } from '../../types';
 
 import './View.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
 
 interface ViewProps {
+    checklists: ChecklistData[];
     data: ChecklistData;
+    task?: number;
+    onOpen: (name: string, data?: ChecklistData | null) => void;
     onBack: () => void;
     onRefresh: (data: ChecklistData) => void;
-    onMessage: (message: string) => void;
+    onMessage: (message: string, action?: SnackbarAction) => void;
+}
+
+interface ViewState {
+    dialogActive: boolean;
+    runner: string;
 }
 
 /**
@@ -20,45 +37,209 @@ interface ViewProps {
  *
  * @export
  * @class View
- * @extends {React.Component<ViewProps>}
- * @version 1.0.0
+ * @extends {React.Component<ViewProps, ViewState>}
+ * @version 1.1.0
  */
-export default class View extends React.Component<ViewProps> {
+export default class View extends React.Component<ViewProps, ViewState> {
+    static contextType = StorageContext; // Storage adapter provided by the App.
+    context!: React.ContextType<typeof StorageContext>;
+
     checklistRef: React.RefObject<Checklist> = React.createRef(); // Ref to the current checklist instance.
+    preferences: PreferencesManager = new PreferencesManager(); // Remembers who ran the last checklist.
 
-    storage = new Storage('checklist'); // localStorage wrapper to save any changes made.
+    state: ViewState = { dialogActive: false, runner: '' };
 
     /**
      * setAsComplete
      *
-     * Set the checklist as complete and return to the Landing slide.
+     * Set the checklist as complete and return to the previous slide.
      *
      * @memberof View
      * @since 1.0.0
      */
     setAsComplete = () => {
-        // Get the current checklist data set.
-        const currentData = this.props.data;
+        // Mark every open task as done, tasks that were done already keep their completion time.
+        const update = (data: ChecklistData): ChecklistData =>
+            Object.assign({}, data, {
+                complete: true,
+                tasks: data.tasks.map((task) =>
+                    task.done ? task : Object.assign({}, task, { done: true, doneTime: Date.now() })
+                ),
+            });
 
-        // Create object holding the updated checklist data.
-        const updateData: ChecklistData = Object.assign({}, this.props.data, {
-            complete: true,
-            done: this.props.data.tasks,
-        });
+        // Keep the current data, so the change can be undone.
+        const previous = this.props.data;
 
         // Save the data to storage.
-        this.storage.set(currentData.id.toString(), updateData).then(() => {
+        updateChecklist(this.context, previous, update).then((updateData) => {
             // Update the Landing slide data with our changes.
             this.props.onRefresh(updateData);
 
-            // Return to the Landing slide.
+            // Return to the previous slide.
             this.props.onBack();
 
-            // Display a message to the user.
-            this.props.onMessage('Checklist set as complete');
+            // Display a message to the user, offering to undo the change.
+            this.props.onMessage('Checklist set as complete', {
+                label: 'Undo',
+                onClick: () =>
+                    updateChecklist(this.context, updateData, (data) => restoreCompletion(data, previous)).then(
+                        this.props.onRefresh
+                    ),
+            });
         });
     };
 
+    /**
+     * openEdit
+     *
+     * Open the checklist for editing, saving or leaving the Edit slide returns here.
+     *
+     * @memberof View
+     * @since 1.1.0
+     */
+    openEdit = () => {
+        this.props.onOpen('edit', this.props.data);
+    };
+
+    /**
+     * openHistory
+     *
+     * Open the version history of the checklist.
+     *
+     * @memberof View
+     * @since 1.1.0
+     */
+    openHistory = () => {
+        this.props.onOpen('history', this.props.data);
+    };
+
+    /**
+     * openRuns
+     *
+     * Open the current and past runs of the checklist.
+     *
+     * @memberof View
+     * @since 1.1.0
+     */
+    openRuns = () => {
+        this.props.onOpen('runs', this.props.data);
+    };
+
+    /**
+     * togglePin
+     *
+     * Pin the checklist to the top of the Landing slide, or unpin it if it's pinned already.
+     *
+     * @memberof View
+     * @since 1.1.0
+     */
+    togglePin = () => {
+        const pinned = this.props.data.pinned === undefined;
+        const saving = pinned
+            ? pinChecklist(this.context, this.props.data, this.props.checklists)
+            : unpinChecklist(this.context, this.props.data);
+
+        saving.then((saved) => {
+            this.props.onRefresh(saved);
+            this.props.onMessage(pinned ? 'Checklist pinned' : 'Checklist unpinned');
+        });
+    };
+
+    /**
+     * openDialog
+     *
+     * Open the `Start run` dialog window, suggesting whoever ran the last checklist.
+     *
+     * @memberof View
+     * @since 1.1.0
+     */
+    openDialog = () => {
+        this.setState({
+            dialogActive: true,
+            runner: this.preferences.get('runner') || '',
+        });
+    };
+
+    /**
+     * cancelDialog
+     *
+     * Close the dialog window.
+     *
+     * @memberof View
+     * @since 1.1.0
+     */
+    cancelDialog = () => {
+        this.setState({
+            dialogActive: false,
+        });
+    };
+
+    /**
+     * updateRunner
+     *
+     * Update who runs the checklist in state.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof View
+     * @since 1.1.0
+     */
+    updateRunner = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        this.setState({
+            runner: $event.target.value,
+        });
+    };
+
+    /**
+     * beginRun
+     *
+     * Start a new run of the checklist and open it, the checklist itself stays as it is.
+     *
+     * @memberof View
+     * @since 1.1.0
+     */
+    beginRun = () => {
+        const runner = this.state.runner.trim() || 'Anonymous';
+
+        // Hide the dialog and remember the runner for next time.
+        this.cancelDialog();
+        this.preferences.set('runner', runner);
+
+        saveRun(this.context, startRun(this.props.data, runner)).then(this.openRuns);
+    };
+
+    /**
+     * saveAsTemplate
+     *
+     * Save the title and tasks of the checklist as a template for new checklists.
+     *
+     * @memberof View
+     * @since 1.1.0
+     */
+    saveAsTemplate = () => {
+        saveTemplate(this.context, createTemplate(this.props.data)).then(() => {
+            // Display a message to the user, offering to manage the templates.
+            this.props.onMessage('Saved as template', {
+                label: 'Show',
+                onClick: () => this.props.onOpen('templates'),
+            });
+        });
+    };
+
+    /**
+     * exportMarkdown
+     *
+     * Download the checklist as a Markdown file.
+     *
+     * @memberof View
+     * @since 1.1.0
+     */
+    exportMarkdown = () => {
+        // Turn the title into a file name that works on every system.
+        const name = this.props.data.title.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'checklist';
+
+        downloadFile(`${name}.md`, checklistToMarkdown(this.props.data), 'text/markdown');
+    };
+
     render() {
         return (
             <div className="mdf-slide">
@@ -74,6 +255,61 @@ export default class View extends React.Component<ViewProps> {
                                 <use href={`${Icons}#arrow-keyboard`}></use>
                             </svg>
                         </button>
+
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Edit this checklist"
+                            onClick={this.openEdit}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#edit`}></use>
+                            </svg>
+                        </button>
+
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Show the history of this checklist"
+                            onClick={this.openHistory}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#cached`}></use>
+                            </svg>
+                        </button>
+
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Save this checklist as a template"
+                            onClick={this.saveAsTemplate}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#copy`}></use>
+                            </svg>
+                        </button>
+
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Show the runs of this checklist"
+                            onClick={this.openRuns}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#chart`}></use>
+                            </svg>
+                        </button>
+
+                        <button
+                            className={`mdf-button mdf-button--icon ${
+                                this.props.data.pinned !== undefined ? 'mdf-pin--active' : ''
+                            }`}
+                            aria-label={
+                                this.props.data.pinned !== undefined ? 'Unpin this checklist' : 'Pin this checklist'
+                            }
+                            aria-pressed={this.props.data.pinned !== undefined}
+                            onClick={this.togglePin}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#favorite`}></use>
+                            </svg>
+                        </button>
                     </div>
 
                     <h2 className="mdf-slide__title">
@@ -84,7 +320,14 @@ export default class View extends React.Component<ViewProps> {
 
                 <main className="mdf-slide__main">
                     <div className="mdf-slide__content">
-                        <Checklist mode={'view'} data={this.props.data} ref={this.checklistRef}></Checklist>
+                        <Checklist
+                            mode={'view'}
+                            data={this.props.data}
+                            ref={this.checklistRef}
+                            focusTask={this.props.task}
+                            onChange={this.props.onRefresh}
+                            onMessage={this.props.onMessage}
+                        ></Checklist>
                     </div>
                 </main>
 
@@ -92,7 +335,46 @@ export default class View extends React.Component<ViewProps> {
                     <button className="mdf-button mdf-button--filled mdf-button--large" onClick={this.setAsComplete}>
                         Set as complete
                     </button>
+
+                    <button
+                        className="mdf-button mdf-button--large mdf-button--leading-icon"
+                        onClick={this.exportMarkdown}
+                    >
+                        <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                            <use href={`${Icons}#download`}></use>
+                        </svg>
+                        Export as Markdown
+                    </button>
+
+                    <button className="mdf-button mdf-button--large mdf-button--leading-icon" onClick={this.openDialog}>
+                        <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                            <use href={`${Icons}#launch`}></use>
+                        </svg>
+                        Start run
+                    </button>
                 </footer>
+
+                {this.state.dialogActive && (
+                    <Dialog
+                        title={'Start run'}
+                        description={
+                            'Work through a fresh copy of this checklist. The checklist itself is left as it is.'
+                        }
+                        actions={[{ label: 'Start run', onClick: this.beginRun }]}
+                        onCancel={this.cancelDialog}
+                    >
+                        <div className="mdf-textfield">
+                            <label htmlFor="run-runner">Who is running it?</label>
+                            <input
+                                className="mdf-textfield__input"
+                                id="run-runner"
+                                type="text"
+                                value={this.state.runner}
+                                onChange={this.updateRunner}
+                            />
+                        </div>
+                    </Dialog>
+                )}
             </div>
         );
     }
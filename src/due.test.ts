@@ -0,0 +1,53 @@
+import dayjs from 'dayjs';
+import { createTask } from './checklists';
+import { collectAgenda, compareDueDates, getDueStatus, nextDueDate, parseDueDate } from './due';
+import { checklist } from './test-utils/fixtures';
+
+const now = dayjs('2021-10-05T14:30:00').valueOf();
+const day = (offset: number) => dayjs(now).startOf('day').add(offset, 'day').valueOf();
+
+test('parses date input values at the start of the day', () => {
+    expect(parseDueDate('2021-10-05')).toBe(day(0));
+    expect(parseDueDate('')).toBeUndefined();
+});
+
+test('tells overdue, today and due soon apart', () => {
+    expect(getDueStatus(day(-1), now)).toBe('overdue');
+    expect(getDueStatus(day(0), now)).toBe('today');
+    expect(getDueStatus(day(3), now)).toBe('soon');
+    expect(getDueStatus(day(4), now)).toBe('later');
+});
+
+test('sorts checklists by their next due date', () => {
+    const taskDue = checklist(3);
+    taskDue.tasks.push(Object.assign(createTask('Pay rent'), { due: day(1) }));
+
+    const sorted = [checklist(1), checklist(2, { due: day(5) }), taskDue].sort(compareDueDates);
+
+    expect(sorted.map((data) => data.id)).toEqual([3, 2, 1]);
+    expect(nextDueDate(taskDue)).toBe(day(1));
+});
+
+test('gathers open checklists and tasks due today or earlier', () => {
+    const overdue = checklist(1, { due: day(-2) });
+    const today = checklist(2);
+    today.tasks.push(Object.assign(createTask('Pay rent'), { due: day(0) }));
+    today.tasks.push(Object.assign(createTask('Call bank'), { done: true, due: day(0) }));
+
+    const items = collectAgenda(
+        [
+            overdue,
+            today,
+            checklist(3, { due: day(2) }),
+            checklist(4, { due: day(-1) }),
+            { ...checklist(5, { due: day(0) }), complete: true },
+        ],
+        now
+    );
+
+    expect(items.map((item) => [item.checklist.id, item.task ? item.task.text : null, item.status])).toEqual([
+        [1, null, 'overdue'],
+        [4, null, 'overdue'],
+        [2, 'Pay rent', 'today'],
+    ]);
+});
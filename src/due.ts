@@ -0,0 +1,152 @@
+import dayjs from 'dayjs';
+import { ChecklistData, TaskData } from './types';
+
+// How close a due date is compared to today.
+export type DueStatus = 'overdue' | 'today' | 'soon' | 'later';
+
+export interface AgendaItem {
+    checklist: ChecklistData; // The checklist that is due, or holds the due task.
+    due: number; // The due date.
+    status: DueStatus; // How close the due date is.
+    task: TaskData | null; // The due task, `null` if the checklist itself is due.
+}
+
+// Number of days ahead that count as due soon.
+export const DUE_SOON_DAYS = 3;
+
+// Format used by date inputs.
+const INPUT_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * parseDueDate
+ *
+ * Turn the value of a date input into a due date at the start of that day.
+ * Returns `undefined` for empty or invalid values.
+ *
+ * @export
+ * @param {string} value The date input value
+ * @returns {(number | undefined)}
+ * @version 1.0.0
+ */
+export function parseDueDate(value: string): number | undefined {
+    const date = dayjs(value);
+
+    return value && date.isValid() ? date.startOf('day').valueOf() : undefined;
+}
+
+/**
+ * formatDueDate
+ *
+ * Turn a due date into the value of a date input.
+ *
+ * @export
+ * @param {number} [due] The due date
+ * @returns {string}
+ * @version 1.0.0
+ */
+export function formatDueDate(due?: number): string {
+    return due !== undefined ? dayjs(due).format(INPUT_FORMAT) : '';
+}
+
+/**
+ * getDueStatus
+ *
+ * Tell how close the given due date is.
+ *
+ * @export
+ * @param {number} due The due date
+ * @param {number} [now=Date.now()] The current time
+ * @returns {DueStatus}
+ * @version 1.0.0
+ */
+export function getDueStatus(due: number, now: number = Date.now()): DueStatus {
+    const days = dayjs(due).startOf('day').diff(dayjs(now).startOf('day'), 'day');
+
+    if (days < 0) {
+        return 'overdue';
+    } else if (days === 0) {
+        return 'today';
+    }
+
+    return days <= DUE_SOON_DAYS ? 'soon' : 'later';
+}
+
+/**
+ * nextDueDate
+ *
+ * Return the earliest due date of the given checklist or its open tasks.
+ * Returns `undefined` if nothing is due.
+ *
+ * @export
+ * @param {ChecklistData} data The checklist to check
+ * @returns {(number | undefined)}
+ * @version 1.0.0
+ */
+export function nextDueDate(data: ChecklistData): number | undefined {
+    const dates = data.tasks.filter((task) => !task.done && task.due !== undefined).map((task) => task.due as number);
+
+    if (data.due !== undefined) {
+        dates.push(data.due);
+    }
+
+    return dates.length ? Math.min(...dates) : undefined;
+}
+
+/**
+ * compareDueDates
+ *
+ * Sort checklists by their next due date, checklists without one go last in their current order.
+ *
+ * @export
+ * @param {ChecklistData} a The first checklist
+ * @param {ChecklistData} b The second checklist
+ * @returns {number}
+ * @version 1.0.0
+ */
+export function compareDueDates(a: ChecklistData, b: ChecklistData): number {
+    const dueA = nextDueDate(a);
+    const dueB = nextDueDate(b);
+
+    if (dueA === undefined || dueB === undefined) {
+        return dueA === dueB ? 0 : dueA === undefined ? 1 : -1;
+    }
+
+    return dueA - dueB;
+}
+
+/**
+ * collectAgenda
+ *
+ * Gather the unfinished checklists and open tasks that are due today or overdue, earliest first.
+ * Checklists in the trash are left out.
+ *
+ * @export
+ * @param {ChecklistData[]} checklists All checklists
+ * @param {number} [now=Date.now()] The current time
+ * @returns {AgendaItem[]}
+ * @version 1.0.0
+ */
+export function collectAgenda(checklists: ChecklistData[], now: number = Date.now()): AgendaItem[] {
+    const items: AgendaItem[] = [];
+
+    for (const checklist of checklists) {
+        if (checklist.complete || checklist.deleted) continue;
+
+        if (checklist.due !== undefined) {
+            items.push({
+                checklist: checklist,
+                due: checklist.due,
+                status: getDueStatus(checklist.due, now),
+                task: null,
+            });
+        }
+
+        for (const task of checklist.tasks) {
+            if (!task.done && task.due !== undefined) {
+                items.push({ checklist: checklist, due: task.due, status: getDueStatus(task.due, now), task: task });
+            }
+        }
+    }
+
+    return items.filter((item) => item.status === 'overdue' || item.status === 'today').sort((a, b) => a.due - b.due);
+}
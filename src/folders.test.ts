@@ -0,0 +1,60 @@
+import { saveChecklist } from './checklists';
+import { checklist, tasksDone } from './test-utils/fixtures';
+import { createFolder, deleteFolder, getFolders, getFolderStats, moveToFolder, saveFolder } from './folders';
+import MemoryStorage from './storage.memory';
+import { ChecklistData } from './types';
+
+test('saves folders and lists them by name', async () => {
+    const storage = new MemoryStorage('checklist');
+
+    await saveFolder(storage, createFolder('Work', 'blue'));
+    await saveFolder(storage, createFolder('Home', 'green'));
+
+    expect((await getFolders(storage)).map((folder) => folder.title)).toEqual(['Home', 'Work']);
+    expect(await storage.keys()).toEqual([]);
+});
+
+test('adds up the progress of all checklists in a folder', () => {
+    const folder = createFolder('Work', 'blue');
+    const checklists = [
+        checklist(1, { folder: folder.id, tasks: tasksDone([true, false, false]) }),
+        checklist(2, { complete: true, folder: folder.id, tasks: tasksDone([false]) }),
+        checklist(3, { deleted: 5, folder: folder.id, tasks: tasksDone([true]) }),
+        checklist(4, { tasks: tasksDone([true]) }),
+    ];
+
+    expect(getFolderStats(folder, checklists)).toEqual({ count: 2, progress: 0.5 });
+});
+
+test('moves checklists between folders', async () => {
+    const storage = new MemoryStorage('checklist');
+    const folder = createFolder('Work', 'blue');
+    const saved = (await saveChecklist(storage, checklist(1, { tasks: tasksDone([false]) }))).data;
+
+    const moved = await moveToFolder(storage, saved, folder.id);
+
+    expect(moved.folder).toBe(folder.id);
+    expect((await moveToFolder(storage, moved)).folder).toBeUndefined();
+});
+
+test('deletes a folder, keeping its checklists or moving them to the trash', async () => {
+    const storage = new MemoryStorage('checklist');
+    const kept = createFolder('Kept', 'blue');
+    const trashed = createFolder('Trashed', 'red');
+
+    await saveFolder(storage, kept);
+    await saveFolder(storage, trashed);
+
+    const checklists = [
+        (await saveChecklist(storage, checklist(1, { folder: kept.id, tasks: tasksDone([false]) }))).data,
+        (await saveChecklist(storage, checklist(2, { folder: trashed.id, tasks: tasksDone([false]) }))).data,
+    ];
+
+    await deleteFolder(storage, kept, checklists, true);
+    await deleteFolder(storage, trashed, checklists, false);
+
+    expect(await getFolders(storage)).toEqual([]);
+    expect(((await storage.get('1')) as ChecklistData).folder).toBeUndefined();
+    expect(((await storage.get('1')) as ChecklistData).deleted).toBeUndefined();
+    expect(((await storage.get('2')) as ChecklistData).deleted).toEqual(expect.any(Number));
+});
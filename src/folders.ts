@@ -0,0 +1,176 @@
+import Storage from './storage';
+import { countTasksLeft, hasSubtasks, trashChecklist, updateChecklist } from './checklists';
+import { generateUUID } from './helpers';
+import { FOLDER_PREFIX } from './prefixes';
+import { ChecklistData } from './types';
+
+// Declared as a type, so folders can be saved as plain storage records.
+export type FolderData = {
+    color: string; // Accent color of the folder, one of the accents of the PreferencesManager.
+    id: number; // Unique id, also the key of the folder in storage.
+    time: number; // Time the folder was created.
+    title: string; // Name of the folder.
+};
+
+export interface FolderStats {
+    count: number; // Number of checklists in the folder.
+    progress: number; // Share of the tasks of all checklists in the folder that are done, from `0` to `1`.
+}
+
+/**
+ * isFolderData
+ *
+ * Check whether the given record is a folder.
+ *
+ * @export
+ * @param {unknown} record The record to check
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function isFolderData(record: unknown): record is FolderData {
+    const folder = record as FolderData | null;
+
+    return (
+        !!folder &&
+        typeof folder.id === 'number' &&
+        typeof folder.title === 'string' &&
+        typeof folder.color === 'string' &&
+        typeof folder.time === 'number'
+    );
+}
+
+/**
+ * getFolders
+ *
+ * Get all folders, sorted by title.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @returns {Promise<FolderData[]>}
+ * @version 1.0.0
+ */
+export async function getFolders(storage: Storage): Promise<FolderData[]> {
+    const scoped = storage.scope(FOLDER_PREFIX);
+    const folders: FolderData[] = [];
+
+    for (const key of await scoped.keys()) {
+        const folder = await scoped.get(key);
+
+        if (isFolderData(folder)) {
+            folders.push(folder);
+        }
+    }
+
+    return folders.sort((a, b) => a.title.localeCompare(b.title, undefined, { numeric: true }));
+}
+
+/**
+ * saveFolder
+ *
+ * Save the given folder, replacing any folder with the same id.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {FolderData} folder The folder to save
+ * @version 1.0.0
+ */
+export async function saveFolder(storage: Storage, folder: FolderData): Promise<void> {
+    await storage.scope(FOLDER_PREFIX).set(folder.id.toString(), folder);
+}
+
+/**
+ * createFolder
+ *
+ * Create a new, empty folder.
+ *
+ * @export
+ * @param {string} title Name of the folder
+ * @param {string} color Accent color of the folder
+ * @param {number} [time=Date.now()] Time the folder is created
+ * @returns {FolderData}
+ * @version 1.0.0
+ */
+export function createFolder(title: string, color: string, time: number = Date.now()): FolderData {
+    return { color: color, id: generateUUID(), time: time, title: title };
+}
+
+/**
+ * deleteFolder
+ *
+ * Remove the given folder.
+ * Its checklists are either kept, outside of any folder, or moved to the trash.
+ * Returns the checklists that were changed.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {FolderData} folder The folder to remove
+ * @param {ChecklistData[]} checklists All checklists
+ * @param {boolean} keepChecklists Whether to keep the checklists of the folder
+ * @returns {Promise<ChecklistData[]>}
+ * @version 1.0.0
+ */
+export async function deleteFolder(
+    storage: Storage,
+    folder: FolderData,
+    checklists: ChecklistData[],
+    keepChecklists: boolean
+): Promise<ChecklistData[]> {
+    const changed: ChecklistData[] = [];
+
+    for (const data of checklists.filter((current) => current.folder === folder.id)) {
+        if (keepChecklists || data.deleted) {
+            // Checklists in the trash come back outside of any folder if they are restored.
+            changed.push(await moveToFolder(storage, data));
+        } else {
+            await trashChecklist(storage, data.id);
+        }
+    }
+
+    await storage.scope(FOLDER_PREFIX).delete(folder.id.toString());
+
+    return changed;
+}
+
+/**
+ * moveToFolder
+ *
+ * Move the given checklist into the folder with the given id, or out of any folder.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData} data The checklist to move
+ * @param {number} [folderId] Id of the folder, leave out to move the checklist out of its folder
+ * @returns {Promise<ChecklistData>} The saved checklist
+ * @version 1.0.0
+ */
+export async function moveToFolder(storage: Storage, data: ChecklistData, folderId?: number): Promise<ChecklistData> {
+    return updateChecklist(storage, data, (current) => Object.assign({}, current, { folder: folderId }));
+}
+
+/**
+ * getFolderStats
+ *
+ * Count the checklists of the given folder and how far along they are together.
+ * Only tasks without subtasks count, the tasks of complete checklists are all done.
+ * Checklists in the trash are left out.
+ *
+ * @export
+ * @param {FolderData} folder The folder to count
+ * @param {ChecklistData[]} checklists All checklists
+ * @returns {FolderStats}
+ * @version 1.0.0
+ */
+export function getFolderStats(folder: FolderData, checklists: ChecklistData[]): FolderStats {
+    const contents = checklists.filter((data) => data.folder === folder.id && !data.deleted);
+    let done = 0;
+    let total = 0;
+
+    for (const data of contents) {
+        const tasks = data.tasks.filter((task, index) => !hasSubtasks(data.tasks, index)).length;
+
+        total += tasks;
+        done += data.complete ? tasks : tasks - countTasksLeft(data);
+    }
+
+    return { count: contents.length, progress: total ? done / total : 0 };
+}
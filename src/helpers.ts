@@ -102,3 +102,75 @@ export function debounce(func: (...args: unknown[]) => void, timeout: number): (
 
     return debouncedFunc;
 }
+
+/**
+ * generateUUID
+ *
+ * Generate a unique id for checklists and tasks.
+ *
+ * @export
+ * @returns {number}
+ * @version 1.0.0
+ */
+export function generateUUID(): number {
+    // Set min and max values.
+    const min = 0;
+    const max = 8;
+
+    // This will generate an Array holding different integers.
+    const baseArray = window.crypto.getRandomValues(new Uint32Array(max));
+
+    // We use this seed to pick a random number between the set min and the max range.
+    const seed = Math.floor(Math.random() * (max - 1 - min) + min);
+
+    // Select the UUID from the array.
+    const uuid = baseArray[seed];
+
+    // Return the UUID as an absolute value.
+    return Math.abs(uuid + Date.now());
+}
+
+/**
+ * downloadFile
+ *
+ * Offer the given content to the user as a file download.
+ *
+ * @export
+ * @param {string} name The file name
+ * @param {string} content The file content
+ * @param {string} type The MIME type of the file
+ * @version 1.0.0
+ */
+export function downloadFile(name: string, content: string, type: string): void {
+    // Create a temporary URL pointing to the file content.
+    const url = URL.createObjectURL(new Blob([content], { type: type }));
+
+    // Use a temporary link element to start the download.
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.click();
+
+    // Release the URL once the download has started.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * readFile
+ *
+ * Read the text content of the given file.
+ *
+ * @export
+ * @param {File} file The file to read
+ * @returns {Promise<string>}
+ * @version 1.0.0
+ */
+export function readFile(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsText(file);
+    });
+}
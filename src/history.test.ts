@@ -0,0 +1,61 @@
+import { createTask, rollbackChecklist, saveChecklist } from './checklists';
+import { checklist } from './test-utils/fixtures';
+import { addSnapshot, diffTasks, getHistory, HISTORY_LIMIT } from './history';
+import MemoryStorage from './storage.memory';
+import { ChecklistData } from './types';
+
+const groceries = (): ChecklistData =>
+    checklist(1, {
+        tasks: [createTask('Buy milk'), createTask('Buy bread'), createTask('Buy eggs')],
+        time: 1633046400000,
+        title: 'Groceries',
+    });
+
+test('adds a snapshot on every save and keeps history out of the checklist keys', async () => {
+    const storage = new MemoryStorage('checklist');
+    const first = await saveChecklist(storage, groceries());
+    await saveChecklist(storage, { ...first.data, title: 'Shopping' });
+
+    const history = await getHistory(storage, 1);
+
+    expect(history.map((entry) => entry.data.revision)).toEqual([0, 1]);
+    expect(history.map((entry) => entry.data.title)).toEqual(['Groceries', 'Shopping']);
+    expect(await storage.keys()).toEqual(['checklist-1']);
+});
+
+test('keeps only the newest snapshots', async () => {
+    const storage = new MemoryStorage('checklist');
+
+    for (let revision = 1; revision <= HISTORY_LIMIT + 5; revision++) {
+        await addSnapshot(storage, { ...groceries(), revision }, revision);
+    }
+
+    const history = await getHistory(storage, 1);
+
+    expect(history).toHaveLength(HISTORY_LIMIT);
+    expect(history[0].data.revision).toBe(6);
+});
+
+test('lists added, removed and changed tasks in order', () => {
+    const [milk, bread, eggs] = groceries().tasks;
+    const butter = createTask('Buy butter');
+
+    const diff = diffTasks([milk, bread, eggs], [{ ...milk, done: true }, eggs, butter]);
+
+    expect(diff.map((entry) => entry.type)).toEqual(['changed', 'removed', 'unchanged', 'added']);
+    expect(diff[1].previous).toEqual(bread);
+});
+
+test('rolls back to an earlier revision as a new revision', async () => {
+    const storage = new MemoryStorage('checklist');
+    const first = await saveChecklist(storage, groceries());
+    const second = await saveChecklist(storage, { ...first.data, title: 'Shopping', tasks: [] });
+
+    const [entry] = await getHistory(storage, 1);
+    const restored = await rollbackChecklist(storage, second.data, entry);
+
+    expect(restored.revision).toBe(2);
+    expect(restored.title).toBe('Groceries');
+    expect(restored.tasks).toHaveLength(3);
+    expect(await getHistory(storage, 1)).toHaveLength(3);
+});
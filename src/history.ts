@@ -0,0 +1,141 @@
+import Storage from './storage';
+import { ARCHIVE_PREFIX, HISTORY_PREFIX } from './prefixes';
+import { ChecklistData, TaskData } from './types';
+
+export interface HistoryEntry {
+    data: ChecklistData; // The checklist as it was saved.
+    time: number; // Time the checklist was saved.
+}
+
+export interface ArchivedRun {
+    data: ChecklistData; // The checklist as it was when it recurred.
+    time: number; // Time the checklist recurred.
+}
+
+export interface TaskDiff {
+    previous: TaskData | null; // The task in the older revision, `null` if it was added.
+    task: TaskData | null; // The task in the newer revision, `null` if it was removed.
+    type: 'added' | 'removed' | 'changed' | 'unchanged';
+}
+
+// Number of snapshots kept per checklist, older ones are dropped.
+export const HISTORY_LIMIT = 50;
+
+// Number of archived runs kept per checklist, older ones are dropped.
+export const ARCHIVE_LIMIT = 100;
+
+/**
+ * getHistory
+ *
+ * Get all snapshots of the checklist with the given id, oldest first.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {number} id Id of the checklist
+ * @returns {Promise<HistoryEntry[]>}
+ * @version 1.0.0
+ */
+export async function getHistory(storage: Storage, id: number): Promise<HistoryEntry[]> {
+    const history = await storage.scope(HISTORY_PREFIX).get(id.toString());
+
+    return Array.isArray(history) ? (history as HistoryEntry[]) : [];
+}
+
+/**
+ * addSnapshot
+ *
+ * Add the given checklist to its history.
+ * Only the newest `HISTORY_LIMIT` snapshots are kept.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData} data The checklist as it was saved
+ * @param {number} [time=Date.now()] Time the checklist was saved
+ * @version 1.0.0
+ */
+export async function addSnapshot(storage: Storage, data: ChecklistData, time: number = Date.now()): Promise<void> {
+    const history = await getHistory(storage, data.id);
+
+    history.push({ data: data, time: time });
+
+    await storage.scope(HISTORY_PREFIX).set(data.id.toString(), history.slice(-HISTORY_LIMIT));
+}
+
+/**
+ * getArchive
+ *
+ * Get the archived runs of the checklist with the given id, oldest first.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {number} id Id of the checklist
+ * @returns {Promise<ArchivedRun[]>}
+ * @version 1.0.0
+ */
+export async function getArchive(storage: Storage, id: number): Promise<ArchivedRun[]> {
+    const archive = await storage.scope(ARCHIVE_PREFIX).get(id.toString());
+
+    return Array.isArray(archive) ? (archive as ArchivedRun[]) : [];
+}
+
+/**
+ * archiveRun
+ *
+ * Keep the results of the given checklist before it is reset.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData} data The checklist as it was when it recurred
+ * @param {number} [time=Date.now()] Time the checklist recurred
+ * @version 1.0.0
+ */
+export async function archiveRun(storage: Storage, data: ChecklistData, time: number = Date.now()): Promise<void> {
+    const archive = await getArchive(storage, data.id);
+
+    archive.push({ data: data, time: time });
+
+    await storage.scope(ARCHIVE_PREFIX).set(data.id.toString(), archive.slice(-ARCHIVE_LIMIT));
+}
+
+/**
+ * diffTasks
+ *
+ * Compare the tasks of two revisions of a checklist.
+ * Tasks are matched by id and listed in the order of the newer revision, removed tasks follow their predecessor.
+ *
+ * @export
+ * @param {TaskData[]} older The tasks of the older revision
+ * @param {TaskData[]} newer The tasks of the newer revision
+ * @returns {TaskDiff[]}
+ * @version 1.0.0
+ */
+export function diffTasks(older: TaskData[], newer: TaskData[]): TaskDiff[] {
+    const diff: TaskDiff[] = newer.map((task) => {
+        const previous = older.find((current) => current.id === task.id) || null;
+
+        if (!previous) {
+            return { previous: null, task: task, type: 'added' };
+        }
+
+        const changed =
+            previous.text !== task.text ||
+            previous.done !== task.done ||
+            (previous.indent || 0) !== (task.indent || 0) ||
+            previous.due !== task.due ||
+            previous.priority !== task.priority;
+
+        return { previous: previous, task: task, type: changed ? 'changed' : 'unchanged' };
+    });
+
+    // Insert the removed tasks after the task that preceded them in the older revision.
+    older.forEach((task, index) => {
+        if (newer.some((current) => current.id === task.id)) return;
+
+        const predecessor = index > 0 ? older[index - 1].id : null;
+        const position = diff.findIndex((entry) => (entry.task || entry.previous)!.id === predecessor);
+
+        diff.splice(position + 1, 0, { previous: task, task: null, type: 'removed' });
+    });
+
+    return diff;
+}
@@ -0,0 +1,58 @@
+import { checklistToMarkdown, parseMarkdown } from './markdown';
+
+const markdown = `# Release
+
+Some notes that are not part of the checklist.
+
+- [x] Bump version
+- [ ] Deploy
+    - [X] Backend
+    - [ ] Frontend
+- [ ] Announce
+
+## Empty section
+
+## Onboarding
+* [ ] Create accounts
+`;
+
+test('builds one checklist per heading that holds tasks', () => {
+    const checklists = parseMarkdown(markdown);
+
+    expect(checklists.map((data) => data.title)).toEqual(['Release', 'Onboarding']);
+    expect(checklists[0].tasks.map((task) => task.text)).toEqual([
+        'Bump version',
+        'Deploy',
+        'Backend',
+        'Frontend',
+        'Announce',
+    ]);
+    expect(checklists[0].tasks.map((task) => task.done)).toEqual([true, false, true, false, false]);
+    expect(checklists[0].tasks.map((task) => task.indent)).toEqual([0, 0, 1, 1, 0]);
+    expect(checklists[0].complete).toBe(false);
+    expect(checklists[0].id).not.toBe(checklists[1].id);
+});
+
+test('collects tasks before the first heading under a default title', () => {
+    const checklists = parseMarkdown('- [x] Only task');
+
+    expect(checklists).toHaveLength(1);
+    expect(checklists[0].title).toBe('Imported checklist');
+    expect(checklists[0].complete).toBe(true);
+});
+
+test('exports ticked tasks and indentation that parse back to the same checklist', () => {
+    const [data] = parseMarkdown(markdown);
+    const exported = checklistToMarkdown(data);
+
+    expect(exported).toBe(
+        '# Release\n\n- [x] Bump version\n- [ ] Deploy\n  - [x] Backend\n  - [ ] Frontend\n- [ ] Announce\n'
+    );
+
+    const [parsed] = parseMarkdown(exported);
+
+    expect(parsed.title).toBe(data.title);
+    expect(parsed.tasks.map(({ text, done, indent }) => ({ text, done, indent }))).toEqual(
+        data.tasks.map(({ text, done, indent }) => ({ text, done, indent }))
+    );
+});
@@ -0,0 +1,107 @@
+import { createTask } from './checklists';
+import { generateUUID } from './helpers';
+import { SCHEMA_VERSION } from './migrations';
+import { ChecklistData, TaskData } from './types';
+
+// Matches a heading, which starts a new checklist.
+const HEADING = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/;
+
+// Matches a task list item like `- [ ] Task` or `1. [x] Task`.
+const TASK = /^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/;
+
+// Title used for tasks found before the first heading.
+const DEFAULT_TITLE = 'Imported checklist';
+
+/**
+ * checklistToMarkdown
+ *
+ * Convert the given checklist to Markdown.
+ * The title becomes a heading and every task a task list item, indented by its nesting level.
+ *
+ * @export
+ * @param {ChecklistData} data The checklist to convert
+ * @returns {string}
+ * @version 1.0.0
+ */
+export function checklistToMarkdown(data: ChecklistData): string {
+    const tasks = data.tasks.map(
+        (task) => `${'  '.repeat(task.indent ? task.indent : 0)}- [${task.done ? 'x' : ' '}] ${task.text}`
+    );
+
+    return `# ${data.title}\n\n${tasks.join('\n')}\n`;
+}
+
+/**
+ * parseMarkdown
+ *
+ * Build checklists from the task lists found in the given Markdown.
+ * Every heading starts a new checklist, headings without any tasks are skipped.
+ *
+ * @export
+ * @param {string} content The Markdown to parse
+ * @returns {ChecklistData[]}
+ * @version 1.0.0
+ */
+export function parseMarkdown(content: string): ChecklistData[] {
+    const checklists: ChecklistData[] = [];
+
+    let title = DEFAULT_TITLE;
+    let tasks: TaskData[] = [];
+    let indents: number[] = []; // Indentation widths of the currently open nesting levels.
+
+    // Save the checklist collected so far.
+    const finish = () => {
+        if (tasks.length) {
+            checklists.push({
+                complete: tasks.every((task) => task.done),
+                id: generateUUID(),
+                revision: 0,
+                tasks: tasks,
+                time: Date.now(),
+                title: title,
+                version: SCHEMA_VERSION,
+            });
+        }
+
+        tasks = [];
+        indents = [];
+    };
+
+    for (const line of content.split(/\r?\n/)) {
+        const heading = line.match(HEADING);
+
+        if (heading) {
+            finish();
+            title = heading[1];
+            continue;
+        }
+
+        const item = line.match(TASK);
+
+        if (item && item[3].trim().length) {
+            // Tabs count as four spaces.
+            const width = item[1].replace(/\t/g, '    ').length;
+
+            // Close all nesting levels that are indented deeper than this item.
+            while (indents.length && width < indents[indents.length - 1]) {
+                indents.pop();
+            }
+
+            // Open a new nesting level if this item is indented deeper than its predecessor.
+            if (!indents.length || width > indents[indents.length - 1]) {
+                indents.push(width);
+            }
+
+            tasks.push(
+                Object.assign(createTask(item[3].trim()), {
+                    done: item[2] !== ' ',
+                    indent: indents.length - 1,
+                })
+            );
+        }
+    }
+
+    finish();
+
+    return checklists;
+}
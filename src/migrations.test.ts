@@ -0,0 +1,48 @@
+import { getVersion, isChecklistData, migrateRecord, runMigrations, SCHEMA_VERSION } from './migrations';
+import MemoryStorage from './storage.memory';
+
+// Checklist as it was saved before records carried a schema version.
+const legacyRecord = {
+    complete: false,
+    done: ['Buy milk'],
+    id: 1,
+    tasks: ['Buy milk', 'Buy bread', 'Buy milk'],
+    time: 1633046400000,
+    title: 'Groceries',
+};
+
+test('treats records without a version marker as version 1', () => {
+    expect(getVersion(legacyRecord)).toBe(1);
+    expect(isChecklistData(legacyRecord)).toBe(false);
+});
+
+test('upgrades legacy records to task objects with their own ids', () => {
+    const data = migrateRecord(legacyRecord);
+
+    expect(data.version).toBe(SCHEMA_VERSION);
+    expect(data.revision).toBe(0);
+    expect(data).not.toHaveProperty('done');
+    expect(data.tasks.map((task) => task.text)).toEqual(['Buy milk', 'Buy bread', 'Buy milk']);
+    expect(data.tasks.map((task) => task.done)).toEqual([true, false, true]);
+    expect(new Set(data.tasks.map((task) => task.id)).size).toBe(3);
+    expect(isChecklistData(data)).toBe(true);
+});
+
+test('rejects records it cannot upgrade', () => {
+    expect(() => migrateRecord(null)).toThrow();
+    expect(() => migrateRecord({ version: SCHEMA_VERSION + 1 })).toThrow();
+    expect(() => migrateRecord({ title: 'Broken' })).toThrow();
+});
+
+test('saves upgraded records and reports the ones that failed', async () => {
+    const storage = new MemoryStorage('checklist');
+    await storage.set('1', legacyRecord);
+    await storage.set('2', { title: 'Broken' });
+
+    const report = await runMigrations(storage);
+
+    expect(report.migrated).toBe(1);
+    expect(report.failed).toEqual(['checklist-2']);
+    expect(isChecklistData(await storage.get('1'))).toBe(true);
+    expect(await storage.get('2')).toEqual({ title: 'Broken' });
+});
@@ -0,0 +1,163 @@
+import Storage from './storage';
+import { createTask } from './checklists';
+import { ChecklistData, TaskData } from './types';
+
+// Loosely typed record as it is found in storage, before it has been migrated.
+type StoredRecord = Record<string, unknown>;
+
+// Upgrades a record from one schema version to the next.
+type Migration = (record: StoredRecord) => StoredRecord;
+
+export interface MigrationReport {
+    failed: string[]; // Keys of the records that could not be migrated.
+    migrated: number; // Number of records that were upgraded.
+}
+
+// The schema version new checklists are saved with.
+export const SCHEMA_VERSION = 3;
+
+/**
+ * Holds the migrations, keyed by the schema version they upgrade from.
+ * Add a new step here and bump `SCHEMA_VERSION` whenever a change to `ChecklistData` breaks stored records,
+ * like a new required field or a field whose meaning or type changes.
+ * New optional fields need neither, records saved without them are still valid.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+    // Version 1 stored tasks as plain strings and tracked completion by text in a separate `done` array.
+    1: (record) => {
+        const done: string[] = Array.isArray(record.done) ? record.done : [];
+        const tasks: TaskData[] = (record.tasks as (TaskData | string)[]).map((task) =>
+            typeof task === 'string' ? Object.assign(createTask(task), { done: done.includes(task) }) : task
+        );
+
+        const { done: _done, ...rest } = record;
+        return Object.assign({}, rest, { tasks: tasks });
+    },
+
+    // Version 2 had no revision counter to detect changes saved by someone else.
+    2: (record) => Object.assign({}, record, { revision: 0 }),
+};
+
+/**
+ * getVersion
+ *
+ * Return the schema version of the given record.
+ * Records saved before the version marker existed count as version `1`.
+ *
+ * @export
+ * @param {StoredRecord} record The record to check
+ * @returns {number}
+ * @version 1.0.0
+ */
+export function getVersion(record: StoredRecord): number {
+    return typeof record.version === 'number' ? record.version : 1;
+}
+
+/**
+ * isChecklistData
+ *
+ * Check whether the given record matches the current `ChecklistData` schema.
+ *
+ * @export
+ * @param {unknown} record The record to check
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function isChecklistData(record: unknown): record is ChecklistData {
+    const data = record as StoredRecord | null;
+
+    return (
+        !!data &&
+        typeof data === 'object' &&
+        data.version === SCHEMA_VERSION &&
+        typeof data.id === 'number' &&
+        typeof data.revision === 'number' &&
+        typeof data.title === 'string' &&
+        typeof data.time === 'number' &&
+        typeof data.complete === 'boolean' &&
+        Array.isArray(data.tasks) &&
+        data.tasks.every((task: StoredRecord) => task && typeof task.id === 'number' && typeof task.text === 'string')
+    );
+}
+
+/**
+ * migrateRecord
+ *
+ * Upgrade the given record step by step until it matches the current schema version.
+ * Throws if a step is missing or the result does not match the current schema.
+ *
+ * @export
+ * @param {unknown} record The record as it was found in storage
+ * @returns {ChecklistData}
+ * @version 1.0.0
+ */
+export function migrateRecord(record: unknown): ChecklistData {
+    if (!record || typeof record !== 'object') {
+        throw new Error('Record is not an object');
+    }
+
+    let data = record as StoredRecord;
+    let version = getVersion(data);
+
+    if (version > SCHEMA_VERSION) {
+        throw new Error(`Record was saved by a newer version of the app (schema ${version})`);
+    }
+
+    // Run every step between the record version and the current version.
+    while (version < SCHEMA_VERSION) {
+        const migration = MIGRATIONS[version];
+
+        if (!migration) {
+            throw new Error(`No migration found for schema ${version}`);
+        }
+
+        data = migration(data);
+        version++;
+        data = Object.assign({}, data, { version: version });
+    }
+
+    // Make sure we ended up with valid data.
+    if (!isChecklistData(data)) {
+        throw new Error('Record does not match the current schema');
+    }
+
+    return data;
+}
+
+/**
+ * runMigrations
+ *
+ * Upgrade all outdated records in the given storage and save them back.
+ * Records that fail to migrate are left untouched and reported back.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @returns {Promise<MigrationReport>}
+ * @version 1.0.0
+ */
+export async function runMigrations(storage: Storage): Promise<MigrationReport> {
+    const report: MigrationReport = { failed: [], migrated: 0 };
+
+    for (const key of await storage.keys()) {
+        try {
+            const record = (await storage.get(key)) as StoredRecord;
+
+            // Records on the current version only need to be valid.
+            if (record && getVersion(record) === SCHEMA_VERSION) {
+                if (!isChecklistData(record)) {
+                    report.failed.push(key);
+                }
+
+                continue;
+            }
+
+            // Upgrade the record and save the result.
+            await storage.set(key, migrateRecord(record));
+            report.migrated++;
+        } catch (error) {
+            report.failed.push(key);
+        }
+    }
+
+    return report;
+}
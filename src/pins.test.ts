@@ -0,0 +1,59 @@
+import { saveChecklist } from './checklists';
+import { checklist } from './test-utils/fixtures';
+import { getPinned, movePinned, pinChecklist, unpinChecklist } from './pins';
+import MemoryStorage from './storage.memory';
+import { ChecklistData } from './types';
+
+const save = async (storage: MemoryStorage, data: ChecklistData[]) => {
+    const saved: ChecklistData[] = [];
+
+    for (const current of data) {
+        saved.push((await saveChecklist(storage, current)).data);
+    }
+
+    return saved;
+};
+
+test('lists pinned checklists in their pinned order, leaving out the trash', () => {
+    const checklists = [
+        checklist(1, { pinned: 2 }),
+        checklist(2),
+        checklist(3, { pinned: 0 }),
+        checklist(4, { deleted: 5, pinned: 1 }),
+    ];
+
+    expect(getPinned(checklists).map((data) => data.id)).toEqual([3, 1]);
+});
+
+test('pins below the pinned checklists and unpins again', async () => {
+    const storage = new MemoryStorage('checklist');
+    const checklists = await save(storage, [checklist(1, { pinned: 0 }), checklist(2, { pinned: 4 }), checklist(3)]);
+
+    const pinned = await pinChecklist(storage, checklists[2], checklists);
+
+    expect(pinned.pinned).toBe(5);
+    expect(((await storage.get('3')) as ChecklistData).pinned).toBe(5);
+
+    const unpinned = await unpinChecklist(storage, pinned);
+
+    expect(unpinned.pinned).toBeUndefined();
+});
+
+test('moves a pinned checklist and only saves the ones whose place changed', async () => {
+    const storage = new MemoryStorage('checklist');
+    const checklists = await save(storage, [
+        checklist(1, { pinned: 0 }),
+        checklist(2, { pinned: 1 }),
+        checklist(3, { pinned: 2 }),
+        checklist(4, { pinned: 3 }),
+    ]);
+
+    const saved = await movePinned(storage, checklists, 2, 0);
+
+    expect(saved.map((data) => [data.id, data.pinned])).toEqual([
+        [3, 0],
+        [1, 1],
+        [2, 2],
+    ]);
+    expect(((await storage.get('4')) as ChecklistData).revision).toBe(0);
+});
@@ -0,0 +1,94 @@
+import Storage from './storage';
+import { updateChecklist } from './checklists';
+import { ChecklistData } from './types';
+
+/**
+ * getPinned
+ *
+ * Get the pinned checklists in their pinned order.
+ * Checklists in the trash are left out.
+ *
+ * @export
+ * @param {ChecklistData[]} checklists All checklists
+ * @returns {ChecklistData[]}
+ * @version 1.0.0
+ */
+export function getPinned(checklists: ChecklistData[]): ChecklistData[] {
+    return checklists
+        .filter((data) => data.pinned !== undefined && !data.deleted)
+        .sort((a, b) => (a.pinned as number) - (b.pinned as number) || a.time - b.time);
+}
+
+/**
+ * pinChecklist
+ *
+ * Pin the given checklist below the ones pinned already.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData} data The checklist to pin
+ * @param {ChecklistData[]} checklists All checklists
+ * @returns {Promise<ChecklistData>} The saved checklist
+ * @version 1.0.0
+ */
+export async function pinChecklist(
+    storage: Storage,
+    data: ChecklistData,
+    checklists: ChecklistData[]
+): Promise<ChecklistData> {
+    const pinned = getPinned(checklists);
+    const position = pinned.length ? (pinned[pinned.length - 1].pinned as number) + 1 : 0;
+
+    return updateChecklist(storage, data, (current) => Object.assign({}, current, { pinned: position }));
+}
+
+/**
+ * unpinChecklist
+ *
+ * Remove the given checklist from the pinned checklists.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData} data The checklist to unpin
+ * @returns {Promise<ChecklistData>} The saved checklist
+ * @version 1.0.0
+ */
+export async function unpinChecklist(storage: Storage, data: ChecklistData): Promise<ChecklistData> {
+    return updateChecklist(storage, data, (current) => Object.assign({}, current, { pinned: undefined }));
+}
+
+/**
+ * movePinned
+ *
+ * Move the pinned checklist at the given index to another place and number the pinned checklists again.
+ * Only the checklists whose place changed are saved, and returned.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData[]} pinned The pinned checklists, in their pinned order
+ * @param {number} from Index of the checklist to move
+ * @param {number} to Index to move the checklist to
+ * @returns {Promise<ChecklistData[]>} The saved checklists
+ * @version 1.0.0
+ */
+export async function movePinned(
+    storage: Storage,
+    pinned: ChecklistData[],
+    from: number,
+    to: number
+): Promise<ChecklistData[]> {
+    const ordered = pinned.slice();
+    const saved: ChecklistData[] = [];
+
+    ordered.splice(to, 0, ordered.splice(from, 1)[0]);
+
+    for (const [position, data] of ordered.entries()) {
+        if (data.pinned !== position) {
+            saved.push(
+                await updateChecklist(storage, data, (current) => Object.assign({}, current, { pinned: position }))
+            );
+        }
+    }
+
+    return saved;
+}
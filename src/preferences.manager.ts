@@ -1,3 +1,6 @@
+import { removeClassByPrefix } from './helpers';
+import { GROUP_LABELS, GroupMode, SORT_LABELS, SortMode } from './sorting';
+
 /**
  * PreferencesManager
  *
@@ -5,14 +8,23 @@
  *
  * @export
  * @class PreferencesManager
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class PreferencesManager {
     accent: string | null; // Holds current accent.
     accents: string[]; // List of all available accents.
     gradient: string | null; // Holds current gradient.
     gradients: string[]; // List of all available gradients.
+    group: string | null; // Holds how the checklists on the Landing slide are grouped.
+    groups: string[]; // List of all available group modes.
+    retention: string | null; // Holds the number of days checklists are kept in the trash.
+    retentions: string[]; // List of all available retention periods, `never` keeps checklists forever.
+    runner: string | null; // Holds the name of whoever ran the last checklist.
+    settings: string[]; // List of all settings we store.
+    sort: string | null; // Holds how the checklists on the Landing slide are sorted.
+    sorts: string[]; // List of all available sort modes.
     theme: string | null; // Holds current theme.
+    themes: string[]; // List of all available themes.
 
     constructor() {
         // Create list of all available accents.
@@ -38,10 +50,27 @@ export default class PreferencesManager {
             'Quepal',
         ];
 
+        // Create list of all available themes.
+        this.themes = ['light', 'dark'];
+
+        // Create list of all available trash retention periods.
+        this.retentions = ['7', '30', '90', 'never'];
+
+        // Create lists of all available sort and group modes for the Landing slide.
+        this.sorts = Object.keys(SORT_LABELS);
+        this.groups = Object.keys(GROUP_LABELS);
+
+        // Create list of all settings we store.
+        this.settings = ['accent', 'gradient', 'theme', 'retention', 'sort', 'group', 'runner'];
+
         // Store current user preferences.
         this.accent = this.get('accent');
         this.gradient = this.get('gradient');
         this.theme = this.get('theme');
+        this.retention = this.get('retention');
+        this.sort = this.get('sort');
+        this.group = this.get('group');
+        this.runner = this.get('runner');
 
         // If no user preferences exist yet, save default values.
         this.setDefaults();
@@ -74,6 +103,114 @@ export default class PreferencesManager {
         localStorage.setItem(`app-${setting}`, value);
     };
 
+    /**
+     * isSettingKey
+     *
+     * Check whether the given localStorage key holds one of our settings.
+     *
+     * @param {(string | null)} key The localStorage key
+     * @memberof PreferencesManager
+     * @since 1.1.0
+     */
+    isSettingKey = (key: string | null): boolean => {
+        return key !== null && this.settings.some((setting) => key === `app-${setting}`);
+    };
+
+    /**
+     * getAll
+     *
+     * Get all stored settings from localStorage.
+     *
+     * @memberof PreferencesManager
+     * @since 1.1.0
+     */
+    getAll = (): Record<string, string> => {
+        const preferences: Record<string, string> = {};
+
+        for (const setting of this.settings) {
+            const value = this.get(setting);
+
+            if (value !== null) {
+                preferences[setting] = value;
+            }
+        }
+
+        return preferences;
+    };
+
+    /**
+     * isValid
+     *
+     * Check whether the given value is allowed for the given setting.
+     *
+     * @param {string} setting Setting to check
+     * @param {string} value Setting value
+     * @memberof PreferencesManager
+     * @since 1.1.0
+     */
+    isValid = (setting: string, value: string): boolean => {
+        switch (setting) {
+            case 'accent':
+                return this.accents.includes(value);
+            case 'gradient':
+                return this.gradients.includes(value);
+            case 'theme':
+                return this.themes.includes(value);
+            case 'retention':
+                return this.retentions.includes(value);
+            case 'sort':
+                return this.sorts.includes(value);
+            case 'group':
+                return this.groups.includes(value);
+            case 'runner':
+                return value.trim().length > 0;
+            default:
+                return false;
+        }
+    };
+
+    /**
+     * getRetention
+     *
+     * Get the number of days checklists are kept in the trash, `null` if they are kept forever.
+     *
+     * @memberof PreferencesManager
+     * @since 1.1.0
+     */
+    getRetention = (): number | null => {
+        const retention = this.get('retention');
+
+        return retention === null || retention === 'never' ? null : Number(retention);
+    };
+
+    /**
+     * getSortMode
+     *
+     * Get how the checklists on the Landing slide are sorted, by due date unless chosen otherwise.
+     *
+     * @memberof PreferencesManager
+     * @since 1.1.0
+     */
+    getSortMode = (): SortMode => {
+        const sort = this.get('sort');
+
+        return sort !== null && this.isValid('sort', sort) ? (sort as SortMode) : 'due';
+    };
+
+    /**
+     * getGroupMode
+     *
+     * Get how the checklists on the Landing slide are grouped, not at all unless chosen otherwise.
+     *
+     * @memberof PreferencesManager
+     * @since 1.1.0
+     */
+    getGroupMode = (): GroupMode => {
+        const group = this.get('group');
+
+        return group !== null && this.isValid('group', group) ? (group as GroupMode) : 'none';
+    };
+
     /**
      * setDefaults
      *
@@ -94,6 +231,22 @@ export default class PreferencesManager {
         if (!this.theme) {
             this.set('theme', 'light');
         }
+
+        if (!this.retention) {
+            this.set('retention', '30');
+        }
+
+        if (!this.sort) {
+            this.set('sort', 'due');
+        }
+
+        if (!this.group) {
+            this.set('group', 'none');
+        }
+
+        if (!this.runner) {
+            this.set('runner', 'Anonymous');
+        }
     };
 
     /**
@@ -121,4 +274,27 @@ export default class PreferencesManager {
             document.body.classList.add('mdf-theme-dark');
         }
     };
+
+    /**
+     * reapplyPreferences
+     *
+     * Replace the preferences applied to the DOM with the stored ones, e.g. after they changed in another tab.
+     *
+     * @memberof PreferencesManager
+     * @since 1.1.0
+     */
+    reapplyPreferences = () => {
+        const appContainer = document.querySelector('.mdf-app') as HTMLElement | null;
+
+        // Remove the applied gradient, accent and theme.
+        if (appContainer) {
+            removeClassByPrefix(appContainer, 'mdf-gradient-');
+        }
+
+        removeClassByPrefix(document.body, 'mdf-accent-');
+        document.body.classList.remove('mdf-theme-dark');
+
+        // Apply the stored preferences.
+        this.applyPreferences();
+    };
 }
@@ -0,0 +1,21 @@
+// Prefixes of the records saved next to the checklists through `storage.scope`.
+// Kept apart from the modules using them, so those modules never have to import each other for a prefix.
+// They must differ from `checklist` and each other, each storage lists the keys starting with its prefix.
+
+// Prefix of the records holding the checklist histories.
+export const HISTORY_PREFIX = 'history';
+
+// Prefix of the records holding the archived runs of recurring checklists.
+export const ARCHIVE_PREFIX = 'archive';
+
+// Prefix of the records holding the runs of each checklist.
+export const RUN_PREFIX = 'run';
+
+// Prefix of the records holding the templates.
+export const TEMPLATE_PREFIX = 'template';
+
+// Prefix of the records holding the pending reminders.
+export const REMINDER_PREFIX = 'reminder';
+
+// Prefix of the records holding the folders.
+export const FOLDER_PREFIX = 'folder';
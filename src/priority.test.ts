@@ -0,0 +1,41 @@
+import { createTask } from './checklists';
+import { comparePriorities, parsePriority, sortTasksByPriority } from './priority';
+import { Priority, TaskData } from './types';
+
+const task = (text: string, priority?: Priority, indent?: number): TaskData =>
+    Object.assign(createTask(text), { indent: indent, priority: priority });
+
+test('parses priority select values', () => {
+    expect(parsePriority('urgent')).toBe('urgent');
+    expect(parsePriority('')).toBeUndefined();
+    expect(parsePriority('critical')).toBeUndefined();
+});
+
+test('puts the most important checklists first and keeps the order of equals', () => {
+    const items = [
+        { id: 1 },
+        { id: 2, priority: 'low' as Priority },
+        { id: 3, priority: 'urgent' as Priority },
+        { id: 4 },
+    ];
+
+    expect(items.sort(comparePriorities).map((item) => item.id)).toEqual([3, 2, 1, 4]);
+});
+
+test('sorts tasks among their siblings and keeps subtasks with their parent', () => {
+    const tasks = [
+        task('Pack'),
+        task('Socks', 'low', 1),
+        task('Passport', 'urgent', 1),
+        task('Book taxi', 'high'),
+        task('Water plants', 'medium'),
+    ];
+
+    expect(sortTasksByPriority(tasks).map((current) => current.text)).toEqual([
+        'Book taxi',
+        'Water plants',
+        'Pack',
+        'Passport',
+        'Socks',
+    ]);
+});
@@ -0,0 +1,92 @@
+import { subtreeEnd } from './checklists';
+import { Priority, TaskData } from './types';
+
+// All priority levels, from least to most important. No priority at all ranks below `low`.
+export const PRIORITIES: Priority[] = ['low', 'medium', 'high', 'urgent'];
+
+// Name of each priority level shown to the user.
+export const PRIORITY_LABELS: Record<Priority, string> = {
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+    urgent: 'Urgent',
+};
+
+// Accent color of each priority level, taken from the accents of the PreferencesManager.
+export const PRIORITY_ACCENTS: Record<Priority, string> = {
+    low: 'blue',
+    medium: 'yellow',
+    high: 'orange',
+    urgent: 'red',
+};
+
+/**
+ * parsePriority
+ *
+ * Turn the value of a priority select into a priority level.
+ * Returns `undefined` for empty or unknown values.
+ *
+ * @export
+ * @param {string} value The select value
+ * @returns {(Priority | undefined)}
+ * @version 1.0.0
+ */
+export function parsePriority(value: string): Priority | undefined {
+    return PRIORITIES.includes(value as Priority) ? (value as Priority) : undefined;
+}
+
+/**
+ * priorityRank
+ *
+ * Rank the given priority level, `0` for no priority up to `4` for `urgent`.
+ *
+ * @export
+ * @param {Priority} [priority] The priority level
+ * @returns {number}
+ * @version 1.0.0
+ */
+export function priorityRank(priority?: Priority): number {
+    return priority ? PRIORITIES.indexOf(priority) + 1 : 0;
+}
+
+/**
+ * comparePriorities
+ *
+ * Sort checklists or tasks by priority, the most important first.
+ * Items with the same priority keep their current order.
+ *
+ * @export
+ * @param {{ priority?: Priority }} a The first item
+ * @param {{ priority?: Priority }} b The second item
+ * @returns {number}
+ * @version 1.0.0
+ */
+export function comparePriorities(a: { priority?: Priority }, b: { priority?: Priority }): number {
+    return priorityRank(b.priority) - priorityRank(a.priority);
+}
+
+/**
+ * sortTasksByPriority
+ *
+ * Sort the tasks of a checklist by priority, the most important first.
+ * Subtasks stay with their parent and are sorted among their siblings.
+ *
+ * @export
+ * @param {TaskData[]} tasks The tasks of the checklist
+ * @returns {TaskData[]}
+ * @version 1.0.0
+ */
+export function sortTasksByPriority(tasks: TaskData[]): TaskData[] {
+    // Split the tasks into the subtrees of the top level tasks.
+    const groups: TaskData[][] = [];
+
+    for (let index = 0; index < tasks.length; index = subtreeEnd(tasks, index)) {
+        groups.push(tasks.slice(index, subtreeEnd(tasks, index)));
+    }
+
+    // Sort the subtrees by their top task, then sort the subtasks of each one the same way.
+    return groups
+        .map((group, index) => ({ group: group, index: index }))
+        .sort((a, b) => comparePriorities(a.group[0], b.group[0]) || a.index - b.index)
+        .reduce<TaskData[]>((sorted, { group }) => sorted.concat(group[0], sortTasksByPriority(group.slice(1))), []);
+}
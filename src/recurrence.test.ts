@@ -0,0 +1,80 @@
+import dayjs from 'dayjs';
+import { createTask } from './checklists';
+import { checklist } from './test-utils/fixtures';
+import { getArchive } from './history';
+import { createRecurrence, nextOccurrence, runRecurrences } from './recurrence';
+import MemoryStorage from './storage.memory';
+import { ChecklistData, Recurrence } from './types';
+
+// A Tuesday afternoon.
+const now = dayjs('2021-10-05T14:30:00').valueOf();
+const day = (offset: number) => dayjs(now).startOf('day').add(offset, 'day').valueOf();
+
+const chores = (recurrence: Recurrence): ChecklistData =>
+    checklist(1, {
+        complete: true,
+        recurrence: recurrence,
+        tasks: [Object.assign(createTask('Water plants'), { done: true, doneTime: now })],
+        time: day(-7),
+        title: 'Chores',
+    });
+
+test('finds the next occurrence of each rule', () => {
+    expect(createRecurrence('daily', [], 'reset', now).next).toBe(day(1));
+    expect(createRecurrence('weekly', [1, 5], 'reset', now).next).toBe(day(3));
+    expect(createRecurrence('monthly', [], 'reset', now).next).toBe(dayjs(day(0)).add(1, 'month').valueOf());
+
+    // Friday is followed by Monday on weekdays.
+    expect(nextOccurrence({ days: [], mode: 'reset', next: day(3), rule: 'weekdays' }, day(3))).toBe(day(6));
+});
+
+test('keeps monthly recurrences on their day of the month', () => {
+    const recurrence = createRecurrence('monthly', [], 'reset', dayjs('2021-01-31T09:00:00').valueOf());
+    const occurrences = [recurrence.next];
+
+    // Each occurrence runs on its own day and moves on from there.
+    while (occurrences.length < 4) {
+        const last = occurrences[occurrences.length - 1];
+        occurrences.push(nextOccurrence(Object.assign({}, recurrence, { next: last }), last));
+    }
+
+    // Shorter months fall on their last day, without moving the months after them.
+    expect(occurrences.map((time) => dayjs(time).format('YYYY-MM-DD'))).toEqual([
+        '2021-02-28',
+        '2021-03-31',
+        '2021-04-30',
+        '2021-05-31',
+    ]);
+});
+
+test('archives and resets checklists that recur in place', async () => {
+    const storage = new MemoryStorage('checklist');
+    const data = chores({ days: [], mode: 'reset', next: day(0), rule: 'daily' });
+    await storage.set('1', data);
+
+    const saved = await runRecurrences(storage, [data], now);
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0].complete).toBe(false);
+    expect(saved[0].tasks[0].done).toBe(false);
+    expect(saved[0].recurrence!.next).toBe(day(1));
+    expect((await getArchive(storage, 1)).map((run) => run.data.complete)).toEqual([true]);
+
+    // Running again the same day does nothing.
+    expect(await runRecurrences(storage, saved, now)).toHaveLength(0);
+});
+
+test('hands the recurrence over to a fresh copy', async () => {
+    const storage = new MemoryStorage('checklist');
+    const data = chores({ days: [], mode: 'clone', next: day(0), rule: 'daily' });
+    await storage.set('1', data);
+
+    const [previous, copy] = await runRecurrences(storage, [data], now);
+
+    expect(previous.recurrence).toBeUndefined();
+    expect(previous.tasks[0].done).toBe(true);
+    expect(copy.id).not.toBe(1);
+    expect(copy.tasks[0].done).toBe(false);
+    expect(copy.recurrence!.next).toBe(day(1));
+    expect(await storage.keys()).toHaveLength(2);
+});
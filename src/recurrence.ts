@@ -0,0 +1,192 @@
+import dayjs from 'dayjs';
+import Storage from './storage';
+import { saveChecklist } from './checklists';
+import { generateUUID } from './helpers';
+import { archiveRun } from './history';
+import { isChecklistData } from './migrations';
+import { ChecklistData, Recurrence } from './types';
+
+// Names of the weekdays, starting with Sunday like `dayjs().day()`.
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * nextOccurrence
+ *
+ * Return the start of the first day after `now` the given recurrence falls on.
+ * Weekly recurrences without any weekdays recur on the weekday of their last occurrence.
+ * Monthly recurrences fall on their day of the month, or on the last day of shorter months.
+ *
+ * @export
+ * @param {Recurrence} recurrence The recurrence rule
+ * @param {number} [now=Date.now()] The current time
+ * @returns {number}
+ * @version 1.1.0
+ */
+export function nextOccurrence(recurrence: Recurrence, now: number = Date.now()): number {
+    if (recurrence.rule === 'monthly') {
+        // Recurrences saved without a day of the month keep the day of their last occurrence.
+        const day = recurrence.day || dayjs(recurrence.next).date();
+        const inMonth = (month: dayjs.Dayjs) => month.date(Math.min(day, month.daysInMonth()));
+        let month = dayjs(recurrence.next).startOf('month');
+
+        // Skip the months that already passed, starting from the day of the month every time.
+        while (!inMonth(month).isAfter(now)) {
+            month = month.add(1, 'month');
+        }
+
+        return inMonth(month).valueOf();
+    }
+
+    const days = {
+        daily: [0, 1, 2, 3, 4, 5, 6],
+        weekdays: [1, 2, 3, 4, 5],
+        weekly: recurrence.days.length ? recurrence.days : [dayjs(recurrence.next).day()],
+    }[recurrence.rule];
+
+    let next = dayjs(now).startOf('day').add(1, 'day');
+
+    while (!days.includes(next.day())) {
+        next = next.add(1, 'day');
+    }
+
+    return next.valueOf();
+}
+
+/**
+ * createRecurrence
+ *
+ * Create a recurrence with the given rule, starting after today.
+ * Monthly recurrences keep the day of the month of today.
+ *
+ * @export
+ * @param {Recurrence['rule']} rule How often the checklist recurs
+ * @param {number[]} days Weekdays for the `weekly` rule, `0` is Sunday
+ * @param {Recurrence['mode']} mode Whether to reset the checklist or start a fresh copy
+ * @param {number} [now=Date.now()] The current time
+ * @returns {Recurrence}
+ * @version 1.1.0
+ */
+export function createRecurrence(
+    rule: Recurrence['rule'],
+    days: number[],
+    mode: Recurrence['mode'],
+    now: number = Date.now()
+): Recurrence {
+    const today = dayjs(now).startOf('day');
+    const day = rule === 'monthly' ? today.date() : undefined;
+
+    return {
+        day: day,
+        days: days,
+        mode: mode,
+        next: nextOccurrence({ day, days, mode, next: today.valueOf(), rule }, now),
+        rule: rule,
+    };
+}
+
+/**
+ * describeRecurrence
+ *
+ * Describe how often the given recurrence repeats.
+ *
+ * @export
+ * @param {Recurrence} recurrence The recurrence to describe
+ * @returns {string}
+ * @version 1.0.0
+ */
+export function describeRecurrence(recurrence: Recurrence): string {
+    switch (recurrence.rule) {
+        case 'weekdays':
+            return 'Repeats on weekdays';
+        case 'weekly':
+            return `Repeats weekly on ${recurrence.days.map((day) => WEEKDAYS[day]).join(', ')}`;
+        default:
+            return `Repeats ${recurrence.rule}`;
+    }
+}
+
+/**
+ * isRecurring
+ *
+ * Check whether the given checklist is due to recur.
+ * Checklists in the trash don't recur.
+ *
+ * @export
+ * @param {ChecklistData} data The checklist to check
+ * @param {number} [now=Date.now()] The current time
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function isRecurring(data: ChecklistData, now: number = Date.now()): boolean {
+    return !!data.recurrence && !data.deleted && data.recurrence.next <= now;
+}
+
+/**
+ * resetChecklist
+ *
+ * Clear the completion of the checklist and all of its tasks, and move on to the next occurrence.
+ *
+ * @export
+ * @param {ChecklistData} data The checklist to reset
+ * @param {number} [now=Date.now()] The current time
+ * @returns {ChecklistData}
+ * @version 1.0.0
+ */
+export function resetChecklist(data: ChecklistData, now: number = Date.now()): ChecklistData {
+    return Object.assign({}, data, {
+        complete: false,
+        recurrence: data.recurrence
+            ? Object.assign({}, data.recurrence, { next: nextOccurrence(data.recurrence, now) })
+            : undefined,
+        tasks: data.tasks.map((task) => Object.assign({}, task, { done: false, doneTime: null })),
+    });
+}
+
+/**
+ * runRecurrences
+ *
+ * Let every checklist that is due to recur start over.
+ * Checklists set to `reset` are archived and cleared, checklists set to `clone` stay as they are
+ * and hand their recurrence over to a fresh copy.
+ * Returns the checklists that were saved.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {ChecklistData[]} checklists All checklists
+ * @param {number} [now=Date.now()] The current time
+ * @returns {Promise<ChecklistData[]>}
+ * @version 1.0.0
+ */
+export async function runRecurrences(
+    storage: Storage,
+    checklists: ChecklistData[],
+    now: number = Date.now()
+): Promise<ChecklistData[]> {
+    const saved: ChecklistData[] = [];
+
+    for (const { id } of checklists.filter((current) => isRecurring(current, now))) {
+        // Work on the stored checklist, another tab may have handled the occurrence already.
+        const data = await storage.get(id.toString());
+
+        if (!isChecklistData(data) || !isRecurring(data, now)) continue;
+
+        if (data.recurrence!.mode === 'reset') {
+            await archiveRun(storage, data, now);
+            saved.push((await saveChecklist(storage, resetChecklist(data, now))).data);
+        } else {
+            // The previous run keeps its results, without the recurrence.
+            const previous = await saveChecklist(storage, Object.assign({}, data, { recurrence: undefined }));
+
+            // Start a fresh copy that carries on recurring.
+            const copy = Object.assign(resetChecklist(data, now), {
+                id: generateUUID(),
+                revision: 0,
+                time: now,
+            });
+
+            saved.push(previous.data, (await saveChecklist(storage, copy)).data);
+        }
+    }
+
+    return saved;
+}
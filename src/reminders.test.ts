@@ -0,0 +1,90 @@
+import dayjs from 'dayjs';
+import { createTask } from './checklists';
+import { checklist } from './test-utils/fixtures';
+import ReminderScheduler, { Clock, Reminder, REMINDER_HOUR, SNOOZE_MINUTES } from './reminders';
+import MemoryStorage from './storage.memory';
+import { ChecklistData } from './types';
+
+const start = dayjs('2021-10-05T08:00:00').valueOf();
+const today = dayjs(start).startOf('day').valueOf();
+
+// Clock driven by Jest's fake timers.
+const fakeClock = (): Clock => ({
+    now: () => Date.now(),
+    setTimeout: (callback, delay) => setTimeout(callback, delay) as unknown as number,
+    clearTimeout: (handle) => clearTimeout(handle),
+});
+
+const errands = (): ChecklistData =>
+    checklist(1, {
+        tasks: [Object.assign(createTask('Pay rent'), { due: today }), createTask('Buy milk')],
+        time: start,
+        title: 'Errands',
+    });
+
+// Let the storage promises settle between timer steps.
+const flush = async () => {
+    for (let step = 0; step < 20; step++) {
+        await Promise.resolve();
+    }
+};
+
+beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(start);
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+test('falls back to a message once a task is due and only reminds once', async () => {
+    const shown: Reminder[] = [];
+    const storage = new MemoryStorage('reminder');
+    const scheduler = new ReminderScheduler(storage, jest.fn(), (reminder) => shown.push(reminder), fakeClock());
+    const data = errands();
+
+    await scheduler.sync([data]);
+
+    // Nothing happens before the reminder hour.
+    jest.advanceTimersByTime((REMINDER_HOUR - 8) * 60 * 60 * 1000 - 1);
+    await flush();
+    expect(shown).toHaveLength(0);
+
+    jest.advanceTimersByTime(1);
+    await flush();
+    expect(shown.map((reminder) => reminder.text)).toEqual(['Pay rent']);
+
+    // Scheduling again, like after a reload, doesn't show the reminder a second time.
+    await scheduler.sync([data]);
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    await flush();
+    expect(shown).toHaveLength(1);
+
+    scheduler.close();
+});
+
+test('shows snoozed reminders again and drops reminders of finished tasks', async () => {
+    const shown: Reminder[] = [];
+    const storage = new MemoryStorage('reminder');
+    const scheduler = new ReminderScheduler(storage, jest.fn(), (reminder) => shown.push(reminder), fakeClock());
+    const data = errands();
+
+    jest.setSystemTime(dayjs(start).add(REMINDER_HOUR, 'hour').valueOf());
+    await scheduler.sync([data]);
+    jest.advanceTimersByTime(0);
+    await flush();
+    expect(shown).toHaveLength(1);
+
+    await scheduler.snooze(shown[0]);
+    jest.advanceTimersByTime(SNOOZE_MINUTES * 60 * 1000);
+    await flush();
+    expect(shown).toHaveLength(2);
+
+    // Once the task is done its reminder is removed.
+    data.tasks[0].done = true;
+    await scheduler.sync([data]);
+    expect(await storage.keys()).toEqual([]);
+
+    scheduler.close();
+});
@@ -0,0 +1,362 @@
+import Storage from './storage';
+import { ChecklistData } from './types';
+
+// Declared as a type, so reminders can be saved as plain storage records.
+export type Reminder = {
+    checklistId: number; // Id of the checklist that is due, or holds the due task.
+    due: number; // The due date the reminder was created for.
+    fired: boolean; // Whether the reminder was shown already.
+    key: string; // Identifier of the reminder in storage, must never contain `checklist`.
+    taskId: number | null; // Id of the due task, `null` if the checklist itself is due.
+    text: string; // What is due.
+    time: number; // When to show the reminder.
+    title: string; // Title of the checklist.
+};
+
+// Keeps time for the scheduler, so tests can swap in fake timers.
+export interface Clock {
+    now: () => number;
+    setTimeout: (callback: () => void, delay: number) => number;
+    clearTimeout: (handle: number) => void;
+}
+
+// Message the reminders service worker posts when a notification action is clicked.
+interface ReminderMessage {
+    action: string; // `snooze`, `done` or an empty string for a click on the notification itself.
+    reminder: Reminder; // The reminder the notification was shown for.
+    type: 'reminder';
+}
+
+// Hour of the due date at which reminders are shown.
+export const REMINDER_HOUR = 9;
+
+// Minutes a reminder is put off when snoozed.
+export const SNOOZE_MINUTES = 10;
+
+// Longest delay timers support, longer delays are split up.
+const MAX_DELAY = 2147483647;
+
+// The clock of the browser.
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback, delay) => window.setTimeout(callback, delay),
+    clearTimeout: (handle) => window.clearTimeout(handle),
+};
+
+/**
+ * collectReminders
+ *
+ * Create a reminder for every unfinished checklist and open task that has a due date.
+ * Checklists in the trash are left out.
+ *
+ * @export
+ * @param {ChecklistData[]} checklists All checklists
+ * @returns {Reminder[]}
+ * @version 1.0.0
+ */
+export function collectReminders(checklists: ChecklistData[]): Reminder[] {
+    const reminders: Reminder[] = [];
+    const create = (data: ChecklistData, due: number, taskId: number | null, text: string): Reminder => ({
+        checklistId: data.id,
+        due: due,
+        fired: false,
+        key: taskId === null ? data.id.toString() : `${data.id}-${taskId}`,
+        taskId: taskId,
+        text: text,
+        time: due + REMINDER_HOUR * 60 * 60 * 1000,
+        title: data.title,
+    });
+
+    for (const data of checklists) {
+        if (data.complete || data.deleted) continue;
+
+        if (data.due !== undefined) {
+            reminders.push(create(data, data.due, null, data.title));
+        }
+
+        for (const task of data.tasks) {
+            if (!task.done && task.due !== undefined) {
+                reminders.push(create(data, task.due, task.id, task.text));
+            }
+        }
+    }
+
+    return reminders;
+}
+
+/**
+ * ReminderScheduler
+ *
+ * Keeps the pending reminders in storage and shows a notification once they are due.
+ * Notifications offer to snooze the reminder or mark the task as done through the reminders service worker.
+ * Without notification permission the given fallback is called instead.
+ *
+ * @export
+ * @class ReminderScheduler
+ * @version 1.0.0
+ */
+export default class ReminderScheduler {
+    clock: Clock; // Keeps time for the timers.
+    onDone: (reminder: Reminder) => void; // Called when the user marks a reminder as done.
+    onFallback: (reminder: Reminder) => void; // Called for due reminders that can't be shown as a notification.
+    storage: Storage; // Storage holding the pending reminders.
+    timers: Map<string, number> = new Map(); // Running timers, keyed by reminder.
+
+    /**
+     * Creates an instance of ReminderScheduler.
+     *
+     * @param {Storage} storage Storage to keep the reminders in.
+     * @param {(reminder: Reminder) => void} onDone Called when the user marks a reminder as done.
+     * @param {(reminder: Reminder) => void} onFallback Called for due reminders that can't be shown as a notification.
+     * @param {Clock} [clock=systemClock] Keeps time for the timers.
+     * @memberof ReminderScheduler
+     * @since 1.0.0
+     */
+    constructor(
+        storage: Storage,
+        onDone: (reminder: Reminder) => void,
+        onFallback: (reminder: Reminder) => void,
+        clock: Clock = systemClock
+    ) {
+        this.storage = storage;
+        this.onDone = onDone;
+        this.onFallback = onFallback;
+        this.clock = clock;
+
+        if (typeof navigator !== 'undefined' && navigator.serviceWorker) {
+            navigator.serviceWorker.addEventListener('message', this.handleMessage);
+        }
+    }
+
+    /**
+     * getReminders
+     *
+     * Get all reminders kept in storage.
+     *
+     * @return {*} {Promise<Reminder[]>}
+     * @memberof ReminderScheduler
+     * @since 1.0.0
+     */
+    async getReminders(): Promise<Reminder[]> {
+        const reminders: Reminder[] = [];
+
+        for (const key of await this.storage.keys()) {
+            const reminder = (await this.storage.get(key)) as Reminder | null;
+
+            if (reminder && typeof reminder.time === 'number') {
+                reminders.push(reminder);
+            }
+        }
+
+        return reminders;
+    }
+
+    /**
+     * sync
+     *
+     * Bring the stored reminders in line with the given checklists and schedule them.
+     * Reminders that were shown or snoozed keep that state as long as their due date stays the same.
+     *
+     * @param {ChecklistData[]} checklists All checklists
+     * @memberof ReminderScheduler
+     * @since 1.0.0
+     */
+    async sync(checklists: ChecklistData[]) {
+        const stored = await this.getReminders();
+        const reminders = collectReminders(checklists).map((reminder) => {
+            const existing = stored.find((current) => current.key === reminder.key);
+
+            return existing && existing.due === reminder.due
+                ? Object.assign({}, reminder, { fired: existing.fired, time: existing.time })
+                : reminder;
+        });
+
+        // Drop the reminders of tasks that are done, removed or no longer due.
+        for (const reminder of stored) {
+            if (!reminders.some((current) => current.key === reminder.key)) {
+                this.cancel(reminder.key);
+                await this.storage.delete(reminder.key);
+            }
+        }
+
+        for (const reminder of reminders) {
+            // Only save reminders that changed, every save is passed on to the other tabs.
+            const existing = stored.find((current) => current.key === reminder.key);
+
+            if (JSON.stringify(existing) !== JSON.stringify(reminder)) {
+                await this.storage.set(reminder.key, reminder);
+            }
+
+            this.schedule(reminder);
+        }
+    }
+
+    /**
+     * schedule
+     *
+     * Start the timer for the given reminder, unless it was shown already.
+     *
+     * @param {Reminder} reminder The reminder to schedule
+     * @memberof ReminderScheduler
+     * @since 1.0.0
+     */
+    schedule(reminder: Reminder) {
+        this.cancel(reminder.key);
+
+        if (reminder.fired) return;
+
+        const delay = Math.max(0, reminder.time - this.clock.now());
+
+        this.timers.set(
+            reminder.key,
+            this.clock.setTimeout(() => {
+                this.timers.delete(reminder.key);
+
+                // Timers can't run for more than about 24 days, keep waiting if the reminder isn't due yet.
+                if (delay > MAX_DELAY) {
+                    this.schedule(reminder);
+                } else {
+                    this.fire(reminder.key);
+                }
+            }, Math.min(delay, MAX_DELAY))
+        );
+    }
+
+    /**
+     * cancel
+     *
+     * Stop the timer of the reminder with the given key.
+     *
+     * @param {string} key Identifier of the reminder
+     * @memberof ReminderScheduler
+     * @since 1.0.0
+     */
+    cancel(key: string) {
+        const timer = this.timers.get(key);
+
+        if (timer !== undefined) {
+            this.clock.clearTimeout(timer);
+            this.timers.delete(key);
+        }
+    }
+
+    /**
+     * fire
+     *
+     * Show the reminder with the given key and note that it was shown.
+     * Another tab may have shown it already, in which case nothing happens.
+     *
+     * @param {string} key Identifier of the reminder
+     * @memberof ReminderScheduler
+     * @since 1.0.0
+     */
+    async fire(key: string) {
+        const reminder = (await this.storage.get(key)) as Reminder | null;
+
+        if (!reminder || reminder.fired) return;
+
+        await this.storage.set(key, Object.assign({}, reminder, { fired: true }));
+        await this.notify(reminder);
+    }
+
+    /**
+     * snooze
+     *
+     * Show the given reminder again in a few minutes.
+     *
+     * @param {Reminder} reminder The reminder to snooze
+     * @memberof ReminderScheduler
+     * @since 1.0.0
+     */
+    async snooze(reminder: Reminder) {
+        const snoozed = Object.assign({}, reminder, {
+            fired: false,
+            time: this.clock.now() + SNOOZE_MINUTES * 60 * 1000,
+        });
+
+        await this.storage.set(snoozed.key, snoozed);
+        this.schedule(snoozed);
+    }
+
+    /**
+     * notify
+     *
+     * Show a notification for the given reminder, asking for permission first if needed.
+     * Falls back to `onFallback` if notifications are not supported or not allowed.
+     *
+     * @param {Reminder} reminder The reminder to show
+     * @memberof ReminderScheduler
+     * @since 1.0.0
+     */
+    async notify(reminder: Reminder) {
+        if (typeof Notification === 'undefined' || Notification.permission === 'denied') {
+            this.onFallback(reminder);
+            return;
+        }
+
+        if (Notification.permission !== 'granted' && (await Notification.requestPermission()) !== 'granted') {
+            this.onFallback(reminder);
+            return;
+        }
+
+        const options = {
+            body: reminder.taskId === null ? 'This checklist is due' : `Due in ${reminder.title}`,
+            data: reminder,
+            tag: reminder.key,
+        };
+
+        try {
+            // Actions are only supported by notifications shown through a service worker.
+            const registration = await navigator.serviceWorker.register(`${process.env.PUBLIC_URL}/reminders-sw.js`);
+
+            await registration.showNotification(reminder.text, {
+                ...options,
+                actions: [
+                    { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} minutes` },
+                    { action: 'done', title: 'Mark done' },
+                ],
+            } as NotificationOptions);
+        } catch (error) {
+            // Without a service worker show a plain notification.
+            new Notification(reminder.text, options).onclick = () => window.focus();
+        }
+    }
+
+    /**
+     * handleMessage
+     *
+     * Follow the notification actions the reminders service worker passes on.
+     *
+     * @param {MessageEvent} $event
+     * @memberof ReminderScheduler
+     * @since 1.0.0
+     */
+    handleMessage = ($event: MessageEvent) => {
+        const message = $event.data as ReminderMessage;
+
+        if (!message || message.type !== 'reminder') return;
+
+        if (message.action === 'snooze') {
+            this.snooze(message.reminder);
+        } else if (message.action === 'done') {
+            this.onDone(message.reminder);
+        }
+    };
+
+    /**
+     * close
+     *
+     * Stop all timers and stop listening to the service worker.
+     *
+     * @memberof ReminderScheduler
+     * @since 1.0.0
+     */
+    close() {
+        this.timers.forEach((timer) => this.clock.clearTimeout(timer));
+        this.timers.clear();
+
+        if (typeof navigator !== 'undefined' && navigator.serviceWorker) {
+            navigator.serviceWorker.removeEventListener('message', this.handleMessage);
+        }
+    }
+}
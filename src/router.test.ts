@@ -0,0 +1,42 @@
+import { checklist } from './test-utils/fixtures';
+import { parseRoute, routePath } from './router';
+
+// Parse the given URL, split into its path and hash the way `window.location` does.
+const parseUrl = (url: string) => {
+    const [path, hash] = url.split('#');
+
+    return parseRoute(path, hash === undefined ? '' : `#${hash}`);
+};
+
+test('parses the path built for every slide back to the same slide', () => {
+    const data = checklist(42);
+
+    expect(parseUrl(routePath(null))).toEqual({ id: null, name: null });
+
+    for (const name of ['add', 'preferences', 'agenda', 'templates']) {
+        expect(parseUrl(routePath(name))).toEqual({ id: null, name: name });
+    }
+
+    for (const name of ['view', 'edit', 'history', 'runs']) {
+        expect(parseUrl(routePath(name, data))).toEqual({ id: 42, name: name });
+    }
+});
+
+test('points checklist paths with a task hash to the task', () => {
+    expect(routePath('view', checklist(42), 7)).toBe('/checklist/42#task-7');
+    expect(parseUrl(routePath('view', checklist(42), 7))).toEqual({ id: 42, name: 'view', task: 7 });
+
+    // Other hashes are ignored.
+    expect(parseRoute('/checklist/42', '#notes')).toEqual({ id: 42, name: 'view' });
+});
+
+test('builds the Landing path for checklist slides without a checklist', () => {
+    expect(routePath('view')).toBe('/');
+    expect(routePath('unknown')).toBe('/');
+});
+
+test('returns null for unknown paths', () => {
+    for (const path of ['/unknown', '/new/extra', '/checklist', '/checklist/abc', '/checklist/42/unknown']) {
+        expect(parseRoute(path)).toBeNull();
+    }
+});
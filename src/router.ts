@@ -0,0 +1,99 @@
+import { ChecklistData } from './types';
+
+export interface Route {
+    id: number | null; // Id of the checklist the slide shows, if any.
+    name: string | null; // Slide name, `null` for the Landing slide.
+    task?: number; // Id of the task the `view` slide scrolls to, if any.
+}
+
+// State we attach to the history entries we create ourselves.
+export interface RouteState {
+    depth: number; // Number of slides stacked on top of the Landing slide for this entry.
+}
+
+/**
+ * parseRoute
+ *
+ * Find the slide for the given path.
+ * Returns `null` for paths that don't belong to any slide.
+ * A `#task-:id` hash on a checklist path points to one of its tasks.
+ *
+ * @export
+ * @param {string} path The URL path
+ * @param {string} [hash=''] The URL hash
+ * @returns {(Route | null)}
+ * @version 1.1.0
+ */
+export function parseRoute(path: string, hash: string = ''): Route | null {
+    const parts = path.split('/').filter((part) => part.length);
+
+    // `/`
+    if (!parts.length) {
+        return { id: null, name: null };
+    }
+
+    // `/new`, `/preferences`, `/agenda` and `/templates`
+    if (parts.length === 1 && parts[0] === 'new') {
+        return { id: null, name: 'add' };
+    } else if (parts.length === 1 && parts[0] === 'preferences') {
+        return { id: null, name: 'preferences' };
+    } else if (parts.length === 1 && parts[0] === 'agenda') {
+        return { id: null, name: 'agenda' };
+    } else if (parts.length === 1 && parts[0] === 'templates') {
+        return { id: null, name: 'templates' };
+    }
+
+    // `/checklist/:id`, `/checklist/:id/edit`, `/checklist/:id/history` and `/checklist/:id/runs`
+    if (parts[0] === 'checklist' && /^\d+$/.test(parts[1])) {
+        if (parts.length === 2) {
+            const task = /^#task-(\d+)$/.exec(hash);
+
+            return task
+                ? { id: Number(parts[1]), name: 'view', task: Number(task[1]) }
+                : { id: Number(parts[1]), name: 'view' };
+        } else if (parts.length === 3 && parts[2] === 'edit') {
+            return { id: Number(parts[1]), name: 'edit' };
+        } else if (parts.length === 3 && parts[2] === 'history') {
+            return { id: Number(parts[1]), name: 'history' };
+        } else if (parts.length === 3 && parts[2] === 'runs') {
+            return { id: Number(parts[1]), name: 'runs' };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * routePath
+ *
+ * Build the path for the given slide.
+ *
+ * @export
+ * @param {(string | null)} name Slide name, `null` for the Landing slide
+ * @param {(ChecklistData | null)} [data=null] Slide data
+ * @param {number} [task] Id of the task the `view` slide scrolls to
+ * @returns {string}
+ * @version 1.1.0
+ */
+export function routePath(name: string | null, data: ChecklistData | null = null, task?: number): string {
+    switch (name) {
+        case 'add':
+            return '/new';
+        case 'preferences':
+            return '/preferences';
+        case 'agenda':
+            return '/agenda';
+        case 'templates':
+            return '/templates';
+        case 'view':
+            return data ? `/checklist/${data.id}${task !== undefined ? `#task-${task}` : ''}` : '/';
+        case 'edit':
+            return data ? `/checklist/${data.id}/edit` : '/';
+        case 'history':
+            return data ? `/checklist/${data.id}/history` : '/';
+        case 'runs':
+            return data ? `/checklist/${data.id}/runs` : '/';
+        default:
+            return '/';
+    }
+}
@@ -0,0 +1,54 @@
+import { createTask, purgeChecklistRecords } from './checklists';
+import { checklist } from './test-utils/fixtures';
+import { finishRun, formatDuration, getRuns, getRunStats, saveRun, setRunTask, startRun } from './runs';
+import MemoryStorage from './storage.memory';
+import { ChecklistData } from './types';
+
+const started = 1633046400000;
+
+const predeploy = (): ChecklistData =>
+    checklist(1, {
+        tasks: [
+            createTask('Run the tests'),
+            createTask('Check the services'),
+            Object.assign(createTask('API'), { indent: 1 }),
+            Object.assign(createTask('Workers'), { indent: 1 }),
+            createTask('Announce the deploy'),
+        ],
+        time: started,
+        title: 'Pre-deploy',
+    });
+
+test('works through a run without touching the checklist', () => {
+    const data = predeploy();
+    const [tests, services, api, workers, announce] = data.tasks;
+    let run = startRun(data, 'Sam', started);
+
+    run = setRunTask(run, tests.id, 'done', started + 1000);
+    run = setRunTask(run, api.id, 'done', started + 2000);
+    run = setRunTask(run, workers.id, 'skipped', started + 3000);
+    run = setRunTask(run, announce.id, 'skipped', started + 4000);
+    run = finishRun(run, started + 90 * 60000);
+
+    // The parent follows its subtasks.
+    expect(run.tasks.find((task) => task.id === services.id)!.status).toBe('done');
+    expect(data.tasks.every((task) => !task.done)).toBe(true);
+
+    expect(getRunStats(run)).toEqual({ done: 2, duration: 90 * 60000, rate: 0.5, skipped: 2, total: 4 });
+    expect(formatDuration(90 * 60000)).toBe('1 h 30 min');
+});
+
+test('keeps the runs of each checklist until it is purged', async () => {
+    const storage = new MemoryStorage('checklist');
+    const run = startRun(predeploy(), 'Sam', started);
+
+    await saveRun(storage, run);
+    await saveRun(storage, finishRun(run, started + 60000));
+
+    expect((await getRuns(storage, 1)).map((current) => current.finished)).toEqual([started + 60000]);
+    expect(await storage.keys()).toHaveLength(0);
+
+    await purgeChecklistRecords(storage, 1);
+
+    expect(await getRuns(storage, 1)).toHaveLength(0);
+});
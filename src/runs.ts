@@ -0,0 +1,223 @@
+import Storage from './storage';
+import { hasSubtasks, subtreeEnd } from './checklists';
+import { generateUUID } from './helpers';
+import { RUN_PREFIX } from './prefixes';
+import { ChecklistData } from './types';
+
+// State of a task within a run.
+export type RunTaskStatus = 'open' | 'done' | 'skipped';
+
+export interface RunTask {
+    id: number; // Id of the task in the checklist.
+    indent?: number; // Nesting depth, copied from the checklist.
+    status: RunTaskStatus; // Whether the task was done or skipped in this run.
+    text: string; // Text of the task when the run started.
+    time: number | null; // Time the task was done or skipped.
+}
+
+export interface RunData {
+    checklistId: number; // Id of the checklist that was run.
+    finished: number | null; // Time the run was finished, `null` while it is in progress.
+    id: number; // Unique id of the run.
+    runner: string; // Who ran the checklist.
+    started: number; // Time the run was started.
+    tasks: RunTask[]; // The tasks as they were worked through.
+    title: string; // Title of the checklist when the run started.
+}
+
+export interface RunStats {
+    done: number; // Number of tasks that were done.
+    duration: number | null; // Milliseconds from start to finish, `null` while the run is in progress.
+    rate: number; // Share of tasks that were done, from `0` to `1`.
+    skipped: number; // Number of tasks that were skipped.
+    total: number; // Number of tasks in the run.
+}
+
+// Number of runs kept per checklist, older ones are dropped.
+export const RUN_LIMIT = 100;
+
+/**
+ * getRuns
+ *
+ * Get all runs of the checklist with the given id, oldest first.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {number} checklistId Id of the checklist
+ * @returns {Promise<RunData[]>}
+ * @version 1.0.0
+ */
+export async function getRuns(storage: Storage, checklistId: number): Promise<RunData[]> {
+    const runs = await storage.scope(RUN_PREFIX).get(checklistId.toString());
+
+    return Array.isArray(runs) ? (runs as RunData[]) : [];
+}
+
+/**
+ * saveRun
+ *
+ * Save the given run, replacing the stored run with the same id.
+ * Only the newest `RUN_LIMIT` runs are kept.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {RunData} run The run to save
+ * @version 1.0.0
+ */
+export async function saveRun(storage: Storage, run: RunData): Promise<void> {
+    const runs = await getRuns(storage, run.checklistId);
+    const index = runs.findIndex((current) => current.id === run.id);
+
+    if (index === -1) {
+        runs.push(run);
+    } else {
+        runs.splice(index, 1, run);
+    }
+
+    await storage.scope(RUN_PREFIX).set(run.checklistId.toString(), runs.slice(-RUN_LIMIT));
+}
+
+/**
+ * startRun
+ *
+ * Start a new run of the given checklist with all of its tasks open.
+ * The checklist itself is left untouched.
+ *
+ * @export
+ * @param {ChecklistData} data The checklist to run
+ * @param {string} runner Who runs the checklist
+ * @param {number} [time=Date.now()] Time the run starts
+ * @returns {RunData}
+ * @version 1.0.0
+ */
+export function startRun(data: ChecklistData, runner: string, time: number = Date.now()): RunData {
+    return {
+        checklistId: data.id,
+        finished: null,
+        id: generateUUID(),
+        runner: runner,
+        started: time,
+        tasks: data.tasks.map((task) => ({
+            id: task.id,
+            indent: task.indent,
+            status: 'open',
+            text: task.text,
+            time: null,
+        })),
+        title: data.title,
+    };
+}
+
+/**
+ * setRunTask
+ *
+ * Set the status of the task with the given id, together with all of its subtasks.
+ * Parents follow their subtasks: done once every subtask is done or skipped, skipped if all of them were skipped.
+ *
+ * @export
+ * @param {RunData} run The run to update
+ * @param {number} taskId Id of the task to update
+ * @param {RunTaskStatus} status The new status
+ * @param {number} [time=Date.now()] Time of the change
+ * @returns {RunData}
+ * @version 1.0.0
+ */
+export function setRunTask(run: RunData, taskId: number, status: RunTaskStatus, time: number = Date.now()): RunData {
+    const index = run.tasks.findIndex((task) => task.id === taskId);
+
+    if (index === -1) {
+        return run;
+    }
+
+    const end = subtreeEnd(run.tasks, index);
+    const tasks = run.tasks.map((task, current) =>
+        current < index || current >= end || task.status === status
+            ? task
+            : Object.assign({}, task, { status: status, time: status === 'open' ? null : time })
+    );
+
+    // Walk backwards, so nested parents are settled before the parents holding them.
+    for (let current = tasks.length - 1; current >= 0; current--) {
+        if (!hasSubtasks(tasks, current)) continue;
+
+        const indent = tasks[current].indent || 0;
+        const children = tasks
+            .slice(current + 1, subtreeEnd(tasks, current))
+            .filter((task) => (task.indent || 0) === indent + 1);
+        const parentStatus: RunTaskStatus = children.some((task) => task.status === 'open')
+            ? 'open'
+            : children.every((task) => task.status === 'skipped')
+            ? 'skipped'
+            : 'done';
+
+        if (tasks[current].status !== parentStatus) {
+            tasks[current] = Object.assign({}, tasks[current], {
+                status: parentStatus,
+                time: parentStatus === 'open' ? null : time,
+            });
+        }
+    }
+
+    return Object.assign({}, run, { tasks: tasks });
+}
+
+/**
+ * finishRun
+ *
+ * Note the given run as finished, tasks that are still open count as not done.
+ *
+ * @export
+ * @param {RunData} run The run to finish
+ * @param {number} [time=Date.now()] Time the run finished
+ * @returns {RunData}
+ * @version 1.0.0
+ */
+export function finishRun(run: RunData, time: number = Date.now()): RunData {
+    return Object.assign({}, run, { finished: time });
+}
+
+/**
+ * getRunStats
+ *
+ * Count the done and skipped tasks of the given run.
+ * Only tasks without subtasks count, parents follow their subtasks.
+ *
+ * @export
+ * @param {RunData} run The run to count
+ * @returns {RunStats}
+ * @version 1.0.0
+ */
+export function getRunStats(run: RunData): RunStats {
+    const tasks = run.tasks.filter((task, index) => !hasSubtasks(run.tasks, index));
+    const done = tasks.filter((task) => task.status === 'done').length;
+
+    return {
+        done: done,
+        duration: run.finished === null ? null : run.finished - run.started,
+        rate: tasks.length ? done / tasks.length : 0,
+        skipped: tasks.filter((task) => task.status === 'skipped').length,
+        total: tasks.length,
+    };
+}
+
+/**
+ * formatDuration
+ *
+ * Describe the given number of milliseconds in hours and minutes.
+ *
+ * @export
+ * @param {number} duration The duration in milliseconds
+ * @returns {string}
+ * @version 1.0.0
+ */
+export function formatDuration(duration: number): string {
+    const minutes = Math.round(duration / 60000);
+
+    if (minutes < 1) {
+        return 'under a minute';
+    } else if (minutes < 60) {
+        return `${minutes} min`;
+    }
+
+    return minutes % 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes / 60} h`;
+}
@@ -0,0 +1,32 @@
+import { createTask } from './checklists';
+import { checklist } from './test-utils/fixtures';
+import { createSearchIndex, searchChecklists, splitMatches } from './search';
+
+const index = createSearchIndex([
+    checklist(1, { tasks: ['Install VPN client', 'Order a desk'].map(createTask), title: 'Office setup' }),
+    checklist(2, { tasks: ['Email the team'].map(createTask), title: 'VPN rollout' }),
+    checklist(3, { deleted: Date.now(), tasks: ['Wipe the VPN profile'].map(createTask), title: 'Old laptop' }),
+]);
+
+test('finds checklists by title and task text, title matches first', () => {
+    const results = searchChecklists(index, 'vpn');
+
+    expect(results.map((result) => result.data.id)).toEqual([2, 1]);
+    expect(results[1].title).toBe(false);
+    expect(results[1].tasks.map((task) => task.text)).toEqual(['Install VPN client']);
+});
+
+test('needs every term of the query and ignores empty queries', () => {
+    expect(searchChecklists(index, 'vpn  client').map((result) => result.data.id)).toEqual([1]);
+    expect(searchChecklists(index, 'vpn desk')).toEqual([]);
+    expect(searchChecklists(index, '   ')).toEqual([]);
+});
+
+test('splits text into matching and other parts', () => {
+    expect(splitMatches('Install VPN client', ['vpn', 'install'])).toEqual([
+        { match: true, text: 'Install' },
+        { match: false, text: ' ' },
+        { match: true, text: 'VPN' },
+        { match: false, text: ' client' },
+    ]);
+});
@@ -0,0 +1,140 @@
+import { ChecklistData, TaskData } from './types';
+
+export interface SearchEntry {
+    data: ChecklistData; // The indexed checklist.
+    tasks: string[]; // Lower case text of each task, in the order of `data.tasks`.
+    title: string; // Lower case title of the checklist.
+}
+
+export interface SearchResult {
+    data: ChecklistData; // The checklist that matched.
+    tasks: TaskData[]; // The tasks that matched, in checklist order.
+    title: boolean; // Whether the title itself matched.
+}
+
+export interface TextPart {
+    match: boolean; // Whether the part matches one of the search terms.
+    text: string; // Text of the part.
+}
+
+/**
+ * createSearchIndex
+ *
+ * Prepare the given checklists for searching, so the text is only lower cased once.
+ * Checklists in the trash are left out.
+ *
+ * @export
+ * @param {ChecklistData[]} checklists All checklists
+ * @returns {SearchEntry[]}
+ * @version 1.0.0
+ */
+export function createSearchIndex(checklists: ChecklistData[]): SearchEntry[] {
+    return checklists
+        .filter((data) => !data.deleted)
+        .map((data) => ({
+            data: data,
+            tasks: data.tasks.map((task) => task.text.toLowerCase()),
+            title: data.title.toLowerCase(),
+        }));
+}
+
+/**
+ * searchTerms
+ *
+ * Split the given query into lower case terms, dropping empty ones.
+ *
+ * @export
+ * @param {string} query What the user searches for
+ * @returns {string[]}
+ * @version 1.0.0
+ */
+export function searchTerms(query: string): string[] {
+    return query
+        .toLowerCase()
+        .split(/\s+/)
+        .filter((term) => term.length);
+}
+
+/**
+ * searchChecklists
+ *
+ * Find the checklists whose title or tasks contain every term of the given query.
+ * Checklists with a matching title come first, the rest keep the order of the index.
+ *
+ * @export
+ * @param {SearchEntry[]} index The prepared checklists
+ * @param {string} query What the user searches for
+ * @returns {SearchResult[]}
+ * @version 1.0.0
+ */
+export function searchChecklists(index: SearchEntry[], query: string): SearchResult[] {
+    const terms = searchTerms(query);
+
+    if (!terms.length) {
+        return [];
+    }
+
+    const contains = (text: string) => terms.every((term) => text.includes(term));
+    const results: SearchResult[] = [];
+
+    for (const entry of index) {
+        const tasks = entry.data.tasks.filter((task, current) => contains(entry.tasks[current]));
+        const title = contains(entry.title);
+
+        if (title || tasks.length) {
+            results.push({ data: entry.data, tasks: tasks, title: title });
+        }
+    }
+
+    return results.filter((result) => result.title).concat(results.filter((result) => !result.title));
+}
+
+/**
+ * splitMatches
+ *
+ * Split the given text into the parts matching any of the search terms and the parts in between,
+ * so the matches can be highlighted.
+ *
+ * @export
+ * @param {string} text The text to split
+ * @param {string[]} terms The lower case search terms
+ * @returns {TextPart[]}
+ * @version 1.0.0
+ */
+export function splitMatches(text: string, terms: string[]): TextPart[] {
+    const lower = text.toLowerCase();
+    const parts: TextPart[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+        // Find the match closest to the start, the longest one if several begin at the same place.
+        let found = -1;
+        let length = 0;
+
+        for (const term of terms) {
+            const position = lower.indexOf(term, start);
+
+            if (position !== -1 && (found === -1 || position < found || (position === found && term.length > length))) {
+                found = position;
+                length = term.length;
+            }
+        }
+
+        if (found === -1) {
+            break;
+        }
+
+        if (found > start) {
+            parts.push({ match: false, text: text.slice(start, found) });
+        }
+
+        parts.push({ match: true, text: text.slice(found, found + length) });
+        start = found + length;
+    }
+
+    if (start < text.length) {
+        parts.push({ match: false, text: text.slice(start) });
+    }
+
+    return parts;
+}
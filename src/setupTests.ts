@@ -3,3 +3,11 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import { randomFillSync } from 'crypto';
+
+// jsdom doesn't implement the Web Crypto API, which we use to generate ids.
+if (!window.crypto) {
+    Object.defineProperty(window, 'crypto', {
+        value: { getRandomValues: (array: Uint32Array) => randomFillSync(array) },
+    });
+}
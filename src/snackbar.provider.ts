@@ -1,5 +1,15 @@
 import React from 'react';
 
+export interface SnackbarAction {
+    label: string; // Button text.
+    onClick: () => void; // Called when the user clicks the button, before the snackbar hides.
+}
+
+export interface SnackbarMessage {
+    action?: SnackbarAction; // Optional action offered next to the text, e.g. `Undo`.
+    text: string; // The message to display.
+}
+
 // Provides context for the Snackbar component.
-const SnackbarContext = React.createContext([] as string[]);
+const SnackbarContext = React.createContext([] as SnackbarMessage[]);
 export default SnackbarContext;
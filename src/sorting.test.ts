@@ -0,0 +1,56 @@
+import { checklist, tasksDone } from './test-utils/fixtures';
+import { getProgress, groupChecklists, sortChecklists } from './sorting';
+
+// Created on the given day of October 2021.
+const created = (date: number) => new Date(2021, 9, date).getTime();
+
+const checklists = [
+    checklist(4, {
+        modified: created(20),
+        tags: ['Work'],
+        tasks: tasksDone([true, false]),
+        time: created(4),
+        title: 'beta',
+    }),
+    checklist(1, { tags: ['home', 'work'], tasks: tasksDone([false, false]), time: created(1), title: 'Alpha 10' }),
+    checklist(12, { tasks: tasksDone([true, true, true, false]), time: created(12), title: 'Alpha 9' }),
+];
+
+test('counts the share of tasks done', () => {
+    expect(checklists.map(getProgress)).toEqual([0.5, 0, 0.75]);
+    expect(getProgress(checklist(2, { complete: true, title: 'Empty' }))).toBe(1);
+});
+
+test('sorts by each mode', () => {
+    const ids = (mode: Parameters<typeof sortChecklists>[1]) => sortChecklists(checklists, mode).map((data) => data.id);
+
+    expect(ids('created')).toEqual([12, 4, 1]);
+    expect(ids('modified')).toEqual([4, 12, 1]);
+    expect(ids('title')).toEqual([12, 1, 4]);
+    expect(ids('progress')).toEqual([12, 4, 1]);
+});
+
+test('groups by week, tag and completion', () => {
+    const groups = (mode: Parameters<typeof groupChecklists>[1]) =>
+        groupChecklists(sortChecklists(checklists, 'created'), mode).map((group) => [
+            group.label,
+            group.checklists.map((data) => data.id),
+        ]);
+
+    expect(groups('week')).toEqual([
+        ['Week of Oct 10, 2021', [12]],
+        ['Week of Oct 3, 2021', [4]],
+        ['Week of Sep 26, 2021', [1]],
+    ]);
+    expect(groups('tag')).toEqual([
+        ['home', [1]],
+        ['Work', [4, 1]],
+        ['Untagged', [12]],
+    ]);
+    expect(groups('progress')).toEqual([
+        ['75 – 99% done', [12]],
+        ['50 – 74% done', [4]],
+        ['Not started', [1]],
+    ]);
+    expect(groups('none')).toEqual([['', [12, 4, 1]]]);
+});
@@ -0,0 +1,155 @@
+import dayjs from 'dayjs';
+import { countTasksLeft, hasSubtasks } from './checklists';
+import { compareDueDates } from './due';
+import { comparePriorities } from './priority';
+import { collectTags, hasTag } from './tags';
+import { ChecklistData } from './types';
+
+// How the checklists on the Landing slide are sorted.
+export type SortMode = 'created' | 'modified' | 'title' | 'progress' | 'due' | 'priority';
+
+// How the checklists on the Landing slide are grouped.
+export type GroupMode = 'none' | 'week' | 'tag' | 'progress';
+
+export interface ChecklistGroup {
+    checklists: ChecklistData[]; // The checklists in the group, in sort order.
+    key: string; // Unique key of the group.
+    label: string; // Heading of the group shown to the user.
+}
+
+// All sort modes and their names shown to the user.
+export const SORT_LABELS: Record<SortMode, string> = {
+    created: 'Date created',
+    modified: 'Last modified',
+    title: 'Title',
+    progress: 'Progress',
+    due: 'Due date',
+    priority: 'Priority',
+};
+
+// All group modes and their names shown to the user.
+export const GROUP_LABELS: Record<GroupMode, string> = {
+    none: 'No grouping',
+    week: 'Week created',
+    tag: 'Tag',
+    progress: 'Completion',
+};
+
+// Completion ranges used for grouping, from most to least done.
+const PROGRESS_RANGES = [
+    { label: 'Done', min: 1 },
+    { label: '75 – 99% done', min: 0.75 },
+    { label: '50 – 74% done', min: 0.5 },
+    { label: '25 – 49% done', min: 0.25 },
+    { label: '1 – 24% done', min: Number.MIN_VALUE },
+    { label: 'Not started', min: 0 },
+];
+
+/**
+ * getProgress
+ *
+ * Share of the tasks of the given checklist that are done, from `0` to `1`.
+ * Only tasks without subtasks count, complete checklists are always done.
+ *
+ * @export
+ * @param {ChecklistData} data The checklist to look at
+ * @returns {number}
+ * @version 1.0.0
+ */
+export function getProgress(data: ChecklistData): number {
+    const total = data.tasks.filter((task, index) => !hasSubtasks(data.tasks, index)).length;
+
+    if (data.complete) {
+        return 1;
+    }
+
+    return total ? (total - countTasksLeft(data)) / total : 0;
+}
+
+/**
+ * sortChecklists
+ *
+ * Sort the given checklists by the given mode.
+ * Checklists that rank the same are sorted newest first, so the order stays the same after reloads.
+ *
+ * @export
+ * @param {ChecklistData[]} checklists The checklists to sort
+ * @param {SortMode} mode How to sort them
+ * @returns {ChecklistData[]}
+ * @version 1.0.0
+ */
+export function sortChecklists(checklists: ChecklistData[], mode: SortMode): ChecklistData[] {
+    const compare = (a: ChecklistData, b: ChecklistData): number => {
+        switch (mode) {
+            case 'modified':
+                return (b.modified || b.time) - (a.modified || a.time);
+            case 'title':
+                return a.title.localeCompare(b.title, undefined, { numeric: true, sensitivity: 'base' });
+            case 'progress':
+                return getProgress(b) - getProgress(a);
+            case 'due':
+                return compareDueDates(a, b);
+            case 'priority':
+                return comparePriorities(a, b) || compareDueDates(a, b);
+            default:
+                return 0;
+        }
+    };
+
+    return checklists.slice().sort((a, b) => compare(a, b) || b.time - a.time || b.id - a.id);
+}
+
+/**
+ * groupChecklists
+ *
+ * Split the given checklists into groups, keeping their order within each group.
+ * Grouped by tag, a checklist shows up under each of its tags and untagged checklists go last.
+ * Empty groups are left out.
+ *
+ * @export
+ * @param {ChecklistData[]} checklists The sorted checklists
+ * @param {GroupMode} mode How to group them
+ * @returns {ChecklistGroup[]}
+ * @version 1.0.0
+ */
+export function groupChecklists(checklists: ChecklistData[], mode: GroupMode): ChecklistGroup[] {
+    switch (mode) {
+        case 'week': {
+            // Newest week first.
+            const weeks = Array.from(new Set(checklists.map((data) => dayjs(data.time).startOf('week').valueOf())));
+
+            return weeks
+                .sort((a, b) => b - a)
+                .map((week) => ({
+                    checklists: checklists.filter((data) => dayjs(data.time).startOf('week').valueOf() === week),
+                    key: week.toString(),
+                    label: `Week of ${dayjs(week).format('MMM D, YYYY')}`,
+                }));
+        }
+        case 'tag':
+            return collectTags(checklists)
+                .map((tag) => ({
+                    checklists: checklists.filter((data) => hasTag(data.tags || [], tag)),
+                    key: tag.toLowerCase(),
+                    label: tag,
+                }))
+                .concat({
+                    checklists: checklists.filter((data) => !data.tags?.length),
+                    key: '',
+                    label: 'Untagged',
+                })
+                .filter((group) => group.checklists.length);
+        case 'progress':
+            return PROGRESS_RANGES.map((range, index) => ({
+                checklists: checklists.filter((data) => {
+                    const progress = getProgress(data);
+
+                    return progress >= range.min && (index === 0 || progress < PROGRESS_RANGES[index - 1].min);
+                }),
+                key: range.label,
+                label: range.label,
+            })).filter((group) => group.checklists.length);
+        default:
+            return checklists.length ? [{ checklists: checklists, key: 'all', label: '' }] : [];
+    }
+}
@@ -0,0 +1,155 @@
+import Storage, { hasPrefix, prefixKey, StorageValue } from './storage';
+
+// Name of the object store holding all records.
+const STORE = 'records';
+
+/**
+ * IndexedDBStorage
+ *
+ * Storage adapter for the IndexedDB API.
+ * Records are saved as structured clones, so they are not limited to JSON and can hold binary data.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API
+ *
+ * @export
+ * @class IndexedDBStorage
+ * @implements {Storage}
+ * @version 1.1.0
+ */
+export default class IndexedDBStorage implements Storage {
+    database: Promise<IDBDatabase> | null = null; // Resolves with the open database connection.
+    name: string; // Name of the database.
+    prefix: string;
+
+    /**
+     * Creates an instance of IndexedDBStorage.
+     *
+     * @param {string} [prefix] Supplied prefix is applied to all requests.
+     * @param {string} [name='thoughts'] Name of the database to use
+     * @memberof IndexedDBStorage
+     * @since 1.0.0
+     */
+    constructor(prefix?: string, name: string = 'thoughts') {
+        this.prefix = prefix ? prefix : '';
+        this.name = name;
+    }
+
+    /**
+     * open
+     *
+     * Open the database on first use and create the object store if needed.
+     *
+     * @return {*} {Promise<IDBDatabase>}
+     * @memberof IndexedDBStorage
+     * @since 1.0.0
+     */
+    open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise((resolve, reject) => {
+                const request = indexedDB.open(this.name, 1);
+
+                request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+
+        return this.database;
+    }
+
+    /**
+     * request
+     *
+     * Run a single request against the object store and resolve with its result.
+     *
+     * @template T
+     * @param {IDBTransactionMode} mode Transaction mode
+     * @param {(store: IDBObjectStore) => IDBRequest<T>} callback Creates the request
+     * @return {*} {Promise<T>}
+     * @memberof IndexedDBStorage
+     * @since 1.0.0
+     */
+    async request<T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const database = await this.open();
+
+        return new Promise((resolve, reject) => {
+            const request = callback(database.transaction(STORE, mode).objectStore(STORE));
+
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    /**
+     * get
+     *
+     * Look up the record with the given key.
+     * Resolves with `null` if there is none, just like `localStorage.getItem()`.
+     *
+     * @param {string} key Key to look for
+     * @return {*} {Promise<unknown>}
+     * @memberof IndexedDBStorage
+     * @since 1.0.0
+     */
+    async get(key: string): Promise<unknown> {
+        const record = await this.request('readonly', (store) => store.get(prefixKey(this.prefix, key)));
+        return record === undefined ? null : record;
+    }
+
+    /**
+     * set
+     *
+     * Save the given value under the given key.
+     *
+     * @param {string} key Identifier of the record
+     * @param {StorageValue} value Data to save
+     * @memberof IndexedDBStorage
+     * @since 1.0.0
+     */
+    async set(key: string, value: StorageValue): Promise<void> {
+        await this.request('readwrite', (store) => store.put(value, prefixKey(this.prefix, key)));
+    }
+
+    /**
+     * delete
+     *
+     * Remove the record with the given key.
+     *
+     * @param {string} key Identifier of the record
+     * @memberof IndexedDBStorage
+     * @since 1.0.0
+     */
+    async delete(key: string): Promise<void> {
+        await this.request('readwrite', (store) => store.delete(prefixKey(this.prefix, key)));
+    }
+
+    /**
+     * keys
+     *
+     * Returns an Array holding all keys that match our prefix.
+     *
+     * @return {*} {Promise<string[]>}
+     * @memberof IndexedDBStorage
+     * @since 1.0.0
+     */
+    async keys(): Promise<string[]> {
+        const keys = await this.request('readonly', (store) => store.getAllKeys());
+        return keys.map((key) => key.toString()).filter((key) => hasPrefix(this.prefix, key));
+    }
+
+    /**
+     * scope
+     *
+     * Returns an adapter for the given prefix that shares our database connection.
+     *
+     * @param {string} prefix Prefix for the new adapter
+     * @return {*} {Storage}
+     * @memberof IndexedDBStorage
+     * @since 1.1.0
+     */
+    scope(prefix: string): Storage {
+        const storage = new IndexedDBStorage(prefix, this.name);
+        storage.database = this.database;
+
+        return storage;
+    }
+}
@@ -0,0 +1,109 @@
+import Storage, { hasPrefix, prefixKey, StorageValue } from './storage';
+
+/**
+ * LocalStorage
+ *
+ * Storage adapter for the localStorage API.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage
+ *
+ * @export
+ * @class LocalStorage
+ * @implements {Storage}
+ * @version 1.1.0
+ */
+export default class LocalStorage implements Storage {
+    prefix: string;
+
+    /**
+     * Creates an instance of LocalStorage.
+     *
+     * @param {string} [prefix] Supplied prefix is applied to all requests.
+     * @memberof LocalStorage
+     * @since 1.0.0
+     */
+    constructor(prefix?: string) {
+        if (prefix) {
+            this.prefix = prefix;
+        } else {
+            this.prefix = '';
+        }
+    }
+
+    /**
+     * get
+     *
+     * Wrapper for `localStorage.getItem()`.
+     * Converts returned data with `JSON.parse()`.
+     *
+     * @param {string} key Key to look for in localStorage
+     * @return {*} {Promise<unknown>}
+     * @example LocalStorage.get('animals');
+     * @memberof LocalStorage
+     * @since 1.0.0
+     */
+    async get(key: string): Promise<unknown> {
+        await Promise.resolve();
+        return JSON.parse(localStorage.getItem(prefixKey(this.prefix, key)) as string);
+    }
+
+    /**
+     * set
+     *
+     * Wrapper for `localStorage.setItem()`.
+     * Converts supplied value with `JSON.stringify()`.
+     *
+     * @param {string} key Identifier in localStorage
+     * @param {StorageValue} value Data to save
+     * @example LocalStorage.set('animals', ['cats', 'dogs'])
+     * @memberof LocalStorage
+     * @since 1.0.0
+     */
+    async set(key: string, value: StorageValue): Promise<void> {
+        await Promise.resolve();
+        localStorage.setItem(prefixKey(this.prefix, key), JSON.stringify(value));
+    }
+
+    /**
+     * delete
+     *
+     * Wrapper for `localStorage.removeItem()`.
+     *
+     * @param {string} key Identifier in localStorage
+     * @example LocalStorage.delete('animals');
+     * @memberof LocalStorage
+     * @since 1.0.0
+     */
+    async delete(key: string): Promise<void> {
+        await Promise.resolve();
+        localStorage.removeItem(prefixKey(this.prefix, key));
+    }
+
+    /**
+     * keys
+     *
+     * Returns an Array holding all localStorage keys.
+     *
+     * @return {*} {string[]}
+     * @memberof LocalStorage
+     * @since 1.0.0
+     */
+    async keys(): Promise<string[]> {
+        await Promise.resolve();
+
+        return Object.keys(localStorage).filter((key) => hasPrefix(this.prefix, key));
+    }
+
+    /**
+     * scope
+     *
+     * Returns an adapter for the given prefix.
+     *
+     * @param {string} prefix Prefix for the new adapter
+     * @return {*} {Storage}
+     * @memberof LocalStorage
+     * @since 1.1.0
+     */
+    scope(prefix: string): Storage {
+        return new LocalStorage(prefix);
+    }
+}
@@ -0,0 +1,105 @@
+import Storage, { hasPrefix, prefixKey, StorageValue } from './storage';
+
+/**
+ * MemoryStorage
+ *
+ * Storage adapter that keeps its records in memory.
+ * Nothing survives a reload, which makes it a good fit for tests or browsers without persistent storage.
+ *
+ * @export
+ * @class MemoryStorage
+ * @implements {Storage}
+ * @version 1.1.0
+ */
+export default class MemoryStorage implements Storage {
+    prefix: string;
+    records: Map<string, string>; // Holds the serialized records.
+
+    /**
+     * Creates an instance of MemoryStorage.
+     *
+     * @param {string} [prefix] Supplied prefix is applied to all requests.
+     * @param {Map<string, string>} [records] Existing records to share with another instance.
+     * @memberof MemoryStorage
+     * @since 1.0.0
+     */
+    constructor(prefix?: string, records?: Map<string, string>) {
+        this.prefix = prefix ? prefix : '';
+        this.records = records ? records : new Map();
+    }
+
+    /**
+     * get
+     *
+     * Look up the record with the given key.
+     * Records are serialized so callers never share references with the stored data.
+     *
+     * @param {string} key Key to look for
+     * @return {*} {Promise<unknown>}
+     * @memberof MemoryStorage
+     * @since 1.0.0
+     */
+    async get(key: string): Promise<unknown> {
+        await Promise.resolve();
+
+        const record = this.records.get(prefixKey(this.prefix, key));
+        return record === undefined ? null : JSON.parse(record);
+    }
+
+    /**
+     * set
+     *
+     * Save the given value under the given key.
+     *
+     * @param {string} key Identifier of the record
+     * @param {StorageValue} value Data to save
+     * @memberof MemoryStorage
+     * @since 1.0.0
+     */
+    async set(key: string, value: StorageValue): Promise<void> {
+        await Promise.resolve();
+        this.records.set(prefixKey(this.prefix, key), JSON.stringify(value));
+    }
+
+    /**
+     * delete
+     *
+     * Remove the record with the given key.
+     *
+     * @param {string} key Identifier of the record
+     * @memberof MemoryStorage
+     * @since 1.0.0
+     */
+    async delete(key: string): Promise<void> {
+        await Promise.resolve();
+        this.records.delete(prefixKey(this.prefix, key));
+    }
+
+    /**
+     * keys
+     *
+     * Returns an Array holding all keys that match our prefix.
+     *
+     * @return {*} {Promise<string[]>}
+     * @memberof MemoryStorage
+     * @since 1.0.0
+     */
+    async keys(): Promise<string[]> {
+        await Promise.resolve();
+        return Array.from(this.records.keys()).filter((key) => hasPrefix(this.prefix, key));
+    }
+
+    /**
+     * scope
+     *
+     * Returns an adapter for the given prefix that shares our records.
+     *
+     * @param {string} prefix Prefix for the new adapter
+     * @return {*} {Storage}
+     * @memberof MemoryStorage
+     * @since 1.1.0
+     */
+    scope(prefix: string): Storage {
+        return new MemoryStorage(prefix, this.records);
+    }
+}
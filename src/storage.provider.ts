@@ -0,0 +1,7 @@
+import React from 'react';
+import Storage from './storage';
+import MemoryStorage from './storage.memory';
+
+// Provides the storage adapter chosen by the App to all components.
+const StorageContext = React.createContext<Storage>(new MemoryStorage('checklist'));
+export default StorageContext;
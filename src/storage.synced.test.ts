@@ -0,0 +1,89 @@
+import MemoryStorage from './storage.memory';
+import LocalStorage from './storage.local';
+import SyncedStorage, { StorageChange } from './storage.synced';
+
+// Stands in for the channels of the open tabs, delivering each message to every other open channel.
+class FakeChannel {
+    static open: FakeChannel[] = [];
+
+    onmessage: ((event: MessageEvent) => void) | null = null;
+
+    constructor() {
+        FakeChannel.open.push(this);
+    }
+
+    postMessage(data: unknown) {
+        FakeChannel.open
+            .filter((channel) => channel !== this)
+            .forEach((channel) => channel.onmessage!({ data: data } as MessageEvent));
+    }
+
+    close() {
+        FakeChannel.open = FakeChannel.open.filter((channel) => channel !== this);
+    }
+}
+
+// Two tabs sharing the same records.
+const openTabs = () => {
+    const records = new Map<string, string>();
+
+    return [
+        new SyncedStorage(new MemoryStorage('checklist', records)),
+        new SyncedStorage(new MemoryStorage('checklist', records)),
+    ];
+};
+
+beforeEach(() => {
+    FakeChannel.open = [];
+    (window as unknown as { BroadcastChannel: unknown }).BroadcastChannel = FakeChannel;
+});
+
+afterEach(() => {
+    delete (window as unknown as { BroadcastChannel?: unknown }).BroadcastChannel;
+});
+
+test('tells the other tab about changed and removed records', async () => {
+    const [first, second] = openTabs();
+    const changes: StorageChange[] = [];
+
+    second.subscribe((change) => changes.push(change));
+
+    await first.set('1', { title: 'Groceries' });
+    await first.delete('1');
+
+    expect(changes).toEqual([
+        { key: 'checklist-1', removed: false },
+        { key: 'checklist-1', removed: true },
+    ]);
+});
+
+test('shares one channel between an adapter and its scopes', async () => {
+    const [first, second] = openTabs();
+    const checklists: StorageChange[] = [];
+    const history: StorageChange[] = [];
+
+    second.subscribe((change) => checklists.push(change));
+    second.scope('history').subscribe((change) => history.push(change));
+    first.scope('history');
+
+    expect(FakeChannel.open).toHaveLength(2);
+
+    await first.scope('history').set('1', []);
+
+    expect(history).toEqual([{ key: 'history-1', removed: false }]);
+    expect(checklists).toEqual([]);
+
+    // Closing a scope keeps the channel open.
+    second.scope('history').close();
+    expect(FakeChannel.open).toHaveLength(2);
+
+    second.close();
+    expect(FakeChannel.open).toHaveLength(1);
+});
+
+test('only supports localStorage without a BroadcastChannel', () => {
+    delete (window as unknown as { BroadcastChannel?: unknown }).BroadcastChannel;
+
+    expect(SyncedStorage.isSupported(new MemoryStorage('checklist'))).toBe(false);
+    expect(SyncedStorage.isSupported(new LocalStorage('checklist'))).toBe(true);
+});
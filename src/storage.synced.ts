@@ -0,0 +1,253 @@
+import Storage, { hasPrefix, prefixKey, StorageValue } from './storage';
+import LocalStorage from './storage.local';
+
+// Describes a change another tab made to a record.
+export interface StorageChange {
+    key: string; // Key of the changed record, including the prefix.
+    removed: boolean; // Whether the record was deleted.
+}
+
+// Name of the channel all tabs of the app share.
+const CHANNEL = 'thoughts-sync';
+
+/**
+ * SyncedStorage
+ *
+ * Wraps another storage adapter and tells every other open tab of the app about the records it changes.
+ * Uses a `BroadcastChannel` where available and falls back to `storage` events.
+ * Browsers only fire `storage` events for localStorage, so without a `BroadcastChannel` changes to any other adapter,
+ * like IndexedDB, never reach the other tabs. Check `isSupported` before choosing such an adapter.
+ * Adapters created with `scope` share the channel of the adapter they were created from.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/BroadcastChannel
+ *
+ * @export
+ * @class SyncedStorage
+ * @implements {Storage}
+ * @version 1.1.0
+ */
+export default class SyncedStorage implements Storage {
+    adapter: Storage; // The storage adapter doing the actual work.
+    channel: BroadcastChannel | null = null; // Channel shared with the other tabs, if supported.
+    isScope: boolean; // Whether the adapter was created with `scope` and uses the channel of its parent.
+    listeners: ((change: StorageChange) => void)[] = []; // Callbacks to run when another tab changes a record.
+    scopes: Map<string, SyncedStorage> = new Map(); // Adapters created for other prefixes.
+
+    /**
+     * isSupported
+     *
+     * Check whether changes made through the given adapter reach the other tabs.
+     * Without a `BroadcastChannel` only localStorage adapters are synced, through `storage` events.
+     *
+     * @static
+     * @param {Storage} adapter The storage adapter to check
+     * @return {*} {boolean}
+     * @memberof SyncedStorage
+     * @since 1.1.0
+     */
+    static isSupported(adapter: Storage): boolean {
+        return typeof BroadcastChannel !== 'undefined' || adapter instanceof LocalStorage;
+    }
+
+    /**
+     * Creates an instance of SyncedStorage.
+     *
+     * @param {Storage} adapter The storage adapter to wrap.
+     * @param {SyncedStorage} [parent] The adapter this one is scoped from, whose channel it shares.
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    constructor(adapter: Storage, parent?: SyncedStorage) {
+        this.adapter = adapter;
+        this.isScope = !!parent;
+
+        if (parent) {
+            // The parent passes on the changes of the other tabs, see `notify`.
+            this.channel = parent.channel;
+        } else if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(CHANNEL);
+            this.channel.onmessage = ($event: MessageEvent) => this.notify($event.data as StorageChange);
+        } else {
+            window.addEventListener('storage', this.handleStorageEvent);
+        }
+    }
+
+    /**
+     * prefix
+     *
+     * Prefix of the wrapped adapter.
+     *
+     * @readonly
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    get prefix(): string {
+        return this.adapter.prefix;
+    }
+
+    /**
+     * get
+     *
+     * Look up the record with the given key.
+     *
+     * @param {string} key Key to look for
+     * @return {*} {Promise<unknown>}
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    get(key: string): Promise<unknown> {
+        return this.adapter.get(key);
+    }
+
+    /**
+     * set
+     *
+     * Save the given value under the given key and tell the other tabs about it.
+     *
+     * @param {string} key Identifier of the record
+     * @param {StorageValue} value Data to save
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    async set(key: string, value: StorageValue): Promise<void> {
+        await this.adapter.set(key, value);
+        this.broadcast({ key: prefixKey(this.prefix, key), removed: false });
+    }
+
+    /**
+     * delete
+     *
+     * Remove the record with the given key and tell the other tabs about it.
+     *
+     * @param {string} key Identifier of the record
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    async delete(key: string): Promise<void> {
+        await this.adapter.delete(key);
+        this.broadcast({ key: prefixKey(this.prefix, key), removed: true });
+    }
+
+    /**
+     * keys
+     *
+     * Returns an Array holding all keys that match our prefix.
+     *
+     * @return {*} {Promise<string[]>}
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    keys(): Promise<string[]> {
+        return this.adapter.keys();
+    }
+
+    /**
+     * scope
+     *
+     * Returns a synced adapter for the given prefix, sharing our channel.
+     * Adapters are created once per prefix, so they don't pile up listeners on every call.
+     *
+     * @param {string} prefix Prefix for the new adapter
+     * @return {*} {SyncedStorage}
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    scope(prefix: string): SyncedStorage {
+        if (!this.scopes.has(prefix)) {
+            this.scopes.set(prefix, new SyncedStorage(this.adapter.scope(prefix), this));
+        }
+
+        return this.scopes.get(prefix)!;
+    }
+
+    /**
+     * subscribe
+     *
+     * Run the given callback whenever another tab changes one of our records.
+     * Returns a function that removes the callback again.
+     *
+     * @param {(change: StorageChange) => void} listener The callback to run
+     * @return {*} {() => void}
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    subscribe(listener: (change: StorageChange) => void): () => void {
+        this.listeners.push(listener);
+
+        return () => {
+            this.listeners = this.listeners.filter((current) => current !== listener);
+        };
+    }
+
+    /**
+     * close
+     *
+     * Stop listening to the other tabs.
+     *
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    close() {
+        // Adapters created with `scope` leave the shared channel to their parent.
+        if (this.channel && !this.isScope) {
+            this.channel.close();
+        } else if (!this.channel) {
+            window.removeEventListener('storage', this.handleStorageEvent);
+        }
+
+        this.listeners = [];
+
+        // Close the adapters created for other prefixes as well.
+        this.scopes.forEach((storage) => storage.close());
+        this.scopes.clear();
+    }
+
+    /**
+     * broadcast
+     *
+     * Tell the other tabs about the given change.
+     * Without a `BroadcastChannel` the browser fires `storage` events on its own.
+     *
+     * @param {StorageChange} change The change we made
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    broadcast(change: StorageChange) {
+        if (this.channel) {
+            this.channel.postMessage(change);
+        }
+    }
+
+    /**
+     * notify
+     *
+     * Run all callbacks for a change that belongs to our prefix and pass it on to the adapters created with `scope`.
+     *
+     * @param {StorageChange} change The change another tab made
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    notify(change: StorageChange) {
+        if (!change || typeof change.key !== 'string') return;
+
+        if (hasPrefix(this.prefix, change.key)) {
+            this.listeners.forEach((listener) => listener(change));
+        }
+
+        this.scopes.forEach((storage) => storage.notify(change));
+    }
+
+    /**
+     * handleStorageEvent
+     *
+     * Turn `storage` events fired by other tabs into changes.
+     *
+     * @param {StorageEvent} $event
+     * @memberof SyncedStorage
+     * @since 1.0.0
+     */
+    handleStorageEvent = ($event: StorageEvent) => {
+        if ($event.key) {
+            this.notify({ key: $event.key, removed: $event.newValue === null });
+        }
+    };
+}
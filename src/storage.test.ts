@@ -0,0 +1,56 @@
+import { prefixKey, StorageValue, transferStorage } from './storage';
+import MemoryStorage from './storage.memory';
+
+test('prefixes keys once', () => {
+    expect(prefixKey('checklist', '1')).toBe('checklist-1');
+    expect(prefixKey('checklist', 'checklist-1')).toBe('checklist-1');
+    expect(prefixKey('', '1')).toBe('1');
+});
+
+test('only lists the keys starting with the prefix', async () => {
+    const records = new Map<string, string>();
+    const runs = new MemoryStorage('run', records);
+
+    await runs.set('1', []);
+    await new MemoryStorage('app', records).set('runner', 'Alex');
+    await new MemoryStorage('checklist', records).set('run', { title: 'Run' });
+
+    expect(await runs.keys()).toEqual(['run-1']);
+    expect(prefixKey('run', 'app-runner')).toBe('run-app-runner');
+});
+
+test('moves every record to the target, keeping records the target already has', async () => {
+    const source = new MemoryStorage('checklist');
+    const target = new MemoryStorage('checklist');
+
+    await source.set('1', { title: 'Old' });
+    await source.set('2', { title: 'Groceries' });
+    await target.set('1', { title: 'New' });
+
+    expect(await transferStorage(source, target)).toBe(2);
+    expect(await source.keys()).toEqual([]);
+    expect(await target.get('1')).toEqual({ title: 'New' });
+    expect(await target.get('2')).toEqual({ title: 'Groceries' });
+});
+
+test('leaves the source untouched when the target fails halfway', async () => {
+    const source = new MemoryStorage('checklist');
+    const target = new MemoryStorage('checklist');
+    const set = target.set.bind(target);
+    let saved = 0;
+
+    // The target accepts one record, then fails.
+    target.set = async (key: string, value: StorageValue) => {
+        if (saved++) {
+            throw new Error('Quota exceeded');
+        }
+
+        await set(key, value);
+    };
+
+    await source.set('1', { title: 'Groceries' });
+    await source.set('2', { title: 'Chores' });
+
+    await expect(transferStorage(source, target)).rejects.toThrow('Quota exceeded');
+    expect(await source.keys()).toEqual(['checklist-1', 'checklist-2']);
+});
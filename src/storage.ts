@@ -1,119 +1,91 @@
 import { ChecklistData } from './types';
 
+// Values that can be saved through a storage adapter.
+export type StorageValue = string | number | unknown[] | Record<string, unknown> | ChecklistData;
+
 /**
  * Storage
  *
- * Basic wrapper for the localStorage API.
- * @see https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage
+ * Interface shared by all storage adapters.
+ * Every method is async so adapters built on asynchronous APIs like IndexedDB can be swapped in freely.
+ * `scope` returns an adapter of the same kind for another prefix, so related records can live next to the checklists.
  *
  * @export
- * @class Storage
- * @version 1.0.0
+ * @interface Storage
+ * @version 1.2.0
  */
-export default class Storage {
-    prefix: string;
+export default interface Storage {
+    prefix: string; // Prefix applied to all keys.
 
-    /**
-     * Creates an instance of Storage.
-     *
-     * @param {string} [prefix] Supplied prefix is applied to all requests.
-     * @memberof Storage
-     * @since 1.0.0
-     */
-    constructor(prefix?: string) {
-        if (prefix) {
-            this.prefix = prefix;
-        } else {
-            this.prefix = '';
-        }
-    }
-
-    /**
-     * get
-     *
-     * Wrapper for `localStorage.getItem()`.
-     * Converts returned data with `JSON.parse()`.
-     *
-     * @param {string} key Key to look for in localStorage
-     * @return {*} {Promise<unknown>}
-     * @example Storage.get('animals');
-     * @memberof Storage
-     * @since 1.0.0
-     */
-    async get(key: string): Promise<unknown> {
-        await Promise.resolve();
-        return JSON.parse(localStorage.getItem(this.prefixed(key)) as string);
-    }
+    get(key: string): Promise<unknown>;
+    set(key: string, value: StorageValue): Promise<void>;
+    delete(key: string): Promise<void>;
+    keys(): Promise<string[]>;
+    scope(prefix: string): Storage;
+}
 
-    /**
-     * set
-     *
-     * Wrapper for `localStorage.setItem()`.
-     * Converts supplied value with `JSON.stringify()`.
-     *
-     * @param {string} key Identifier in localStorage
-     * @param {string | number | unknown[] | Record<string, unknown>| ChecklistData} value Data to save
-     * @example Storage.set('animals', ['cats', 'dogs'])
-     * @memberof Storage
-     * @since 1.0.0
-     */
-    async set(
-        key: string,
-        value: string | number | unknown[] | Record<string, unknown> | ChecklistData
-    ): Promise<void> {
-        await Promise.resolve();
-        localStorage.setItem(this.prefixed(key), JSON.stringify(value));
-    }
+/**
+ * hasPrefix
+ *
+ * Check whether the given key starts with the given prefix, every key has the empty prefix.
+ * Only the start of the key counts, so prefixes may appear in the keys of other records.
+ *
+ * @export
+ * @param {string} prefix The prefix to look for
+ * @param {string} key Key to check
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function hasPrefix(prefix: string, key: string): boolean {
+    return !prefix.length || key.startsWith(`${prefix}-`);
+}
 
-    /**
-     * delete
-     *
-     * Wrapper for `localStorage.removeItem()`.
-     *
-     * @param {string} key Identifier in localStorage
-     * @example Storage.delete('animals');
-     * @memberof Storage
-     * @since 1.0.0
-     */
-    async delete(key: string): Promise<void> {
-        await Promise.resolve();
-        localStorage.removeItem(this.prefixed(key));
+/**
+ * prefixKey
+ *
+ * If a prefix is available, returns the key with applied prefix, otherwise just returns the key.
+ *
+ * @export
+ * @param {string} prefix The prefix to apply
+ * @param {string} key Key to prefix
+ * @returns {string}
+ * @version 1.1.0
+ */
+export function prefixKey(prefix: string, key: string): string {
+    if (hasPrefix(prefix, key)) {
+        return key;
+    } else {
+        return prefix.length ? `${prefix}-${key}` : key;
     }
+}
 
-    /**
-     * keys
-     *
-     * Returns an Array holding all localStorage keys.
-     *
-     * @return {*} {string[]}
-     * @memberof Storage
-     * @since 1.0.0
-     */
-    async keys(): Promise<string[]> {
-        await Promise.resolve();
+/**
+ * transferStorage
+ *
+ * Move every record from one storage adapter to another.
+ * Records are only removed from the source once all of them have been saved to the target,
+ * so the source still holds everything if the target fails halfway.
+ *
+ * @export
+ * @param {Storage} source The storage to move the records from
+ * @param {Storage} target The storage to move the records to
+ * @returns {Promise<number>} The number of records moved
+ * @version 1.1.0
+ */
+export async function transferStorage(source: Storage, target: Storage): Promise<number> {
+    const keys = await source.keys();
 
-        if (this.prefix.length) {
-            return Object.keys(localStorage).filter((key) => key.includes(this.prefix));
-        } else {
-            return Object.keys(localStorage);
+    for (const key of keys) {
+        // Records already present in the target win, they are newer than what was left behind.
+        if ((await target.get(key)) === null) {
+            await target.set(key, (await source.get(key)) as StorageValue);
         }
     }
 
-    /**
-     * prefixed
-     *
-     * If a prefix is available, returns the key with applied prefix, otherwise just returns the key.
-     *
-     * @param {string} key Key to prefix
-     * @return {*} {string}
-     * @memberof Storage
-     * @since 1.0.0
-     */
-    private prefixed(key: string): string {
-        if (key.includes(this.prefix)) {
-            return key;
-        } else {
-            return this.prefix.length ? `${this.prefix}-${key}` : key;
-        }
+    // Every record is safe in the target, clear the source.
+    for (const key of keys) {
+        await source.delete(key);
     }
+
+    return keys.length;
 }
@@ -0,0 +1,34 @@
+import { checklist } from './test-utils/fixtures';
+import { collectTags, matchesTags, normalizeTag, suggestTags } from './tags';
+
+test('cleans up typed tags', () => {
+    expect(normalizeTag('  #work  ')).toBe('work');
+    expect(normalizeTag('on   call')).toBe('on call');
+});
+
+test('collects the tags of all checklists once, sorted', () => {
+    const checklists = [
+        checklist(1, { tags: ['work', 'Travel'] }),
+        checklist(2),
+        checklist(3, { tags: ['travel', 'home'] }),
+    ];
+
+    expect(collectTags(checklists)).toEqual(['home', 'Travel', 'work']);
+});
+
+test('suggests tags starting with the typed text first and leaves out chosen ones', () => {
+    const tags = ['homework', 'work', 'workshop', 'worship'];
+
+    expect(suggestTags(tags, 'wor')).toEqual(['work', 'workshop', 'worship', 'homework']);
+    expect(suggestTags(tags, 'work', ['Work'])).toEqual(['workshop', 'homework']);
+});
+
+test('matches checklists carrying all or any of the tags', () => {
+    const data = checklist(1, { tags: ['work', 'urgent'] });
+
+    expect(matchesTags(data, [])).toBe(true);
+    expect(matchesTags(data, ['Work', 'urgent'])).toBe(true);
+    expect(matchesTags(data, ['work', 'home'])).toBe(false);
+    expect(matchesTags(data, ['work', 'home'], 'or')).toBe(true);
+    expect(matchesTags(checklist(2), ['work'], 'or')).toBe(false);
+});
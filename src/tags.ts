@@ -0,0 +1,103 @@
+import { ChecklistData } from './types';
+
+// Whether a checklist needs all of the chosen tags or just one of them.
+export type TagMatch = 'and' | 'or';
+
+/**
+ * normalizeTag
+ *
+ * Clean up the given tag text, dropping surrounding whitespace, a leading `#` and doubled spaces.
+ *
+ * @export
+ * @param {string} text The tag as the user typed it
+ * @returns {string}
+ * @version 1.0.0
+ */
+export function normalizeTag(text: string): string {
+    return text.trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * hasTag
+ *
+ * Check whether the given tags hold the given tag, ignoring case.
+ *
+ * @export
+ * @param {string[]} tags The tags to look through
+ * @param {string} tag The tag to look for
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function hasTag(tags: string[], tag: string): boolean {
+    return tags.some((current) => current.toLowerCase() === tag.toLowerCase());
+}
+
+/**
+ * collectTags
+ *
+ * Gather the tags used by all of the given checklists, sorted alphabetically.
+ * Tags that only differ in case are listed once.
+ *
+ * @export
+ * @param {ChecklistData[]} checklists All checklists
+ * @returns {string[]}
+ * @version 1.0.0
+ */
+export function collectTags(checklists: ChecklistData[]): string[] {
+    const tags: string[] = [];
+
+    for (const data of checklists) {
+        for (const tag of data.tags || []) {
+            if (!hasTag(tags, tag)) {
+                tags.push(tag);
+            }
+        }
+    }
+
+    return tags.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * suggestTags
+ *
+ * Suggest existing tags for the given text, tags that start with it first.
+ * Tags that were chosen already are left out.
+ *
+ * @export
+ * @param {string[]} tags All existing tags
+ * @param {string} text What the user typed so far
+ * @param {string[]} [chosen=[]] The tags chosen already
+ * @returns {string[]}
+ * @version 1.0.0
+ */
+export function suggestTags(tags: string[], text: string, chosen: string[] = []): string[] {
+    const query = normalizeTag(text).toLowerCase();
+    const available = tags.filter((tag) => !hasTag(chosen, tag) && tag.toLowerCase().includes(query));
+
+    return available
+        .filter((tag) => tag.toLowerCase().startsWith(query))
+        .concat(available.filter((tag) => !tag.toLowerCase().startsWith(query)));
+}
+
+/**
+ * matchesTags
+ *
+ * Check whether the given checklist carries all (`and`) or any (`or`) of the given tags.
+ * Every checklist matches when no tags are given.
+ *
+ * @export
+ * @param {ChecklistData} data The checklist to check
+ * @param {string[]} tags The tags to filter by
+ * @param {TagMatch} [match='and'] Whether all or any of the tags are needed
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function matchesTags(data: ChecklistData, tags: string[], match: TagMatch = 'and'): boolean {
+    if (!tags.length) {
+        return true;
+    }
+
+    const own = data.tags || [];
+
+    return match === 'and' ? tags.every((tag) => hasTag(own, tag)) : tags.some((tag) => hasTag(own, tag));
+}
@@ -0,0 +1,56 @@
+import { createTask } from './checklists';
+import { checklist } from './test-utils/fixtures';
+import MemoryStorage from './storage.memory';
+import { createTemplate, deleteTemplate, fillTemplate, findVariables, getTemplates, saveTemplate } from './templates';
+import { ChecklistData } from './types';
+
+const incident = (): ChecklistData =>
+    checklist(1, {
+        revision: 3,
+        tasks: [
+            Object.assign(createTask('Check the {{service}} dashboards'), { done: true, doneTime: 1633046400000 }),
+            Object.assign(createTask('Page the {{ team }} on-call'), { indent: 1 }),
+            createTask('Write the report for {{service}}'),
+        ],
+        time: 1633046400000,
+        title: 'Incident: {{service}}',
+    });
+
+test('keeps only the title and task structure', () => {
+    const template = createTemplate(incident());
+
+    expect(template.title).toBe('Incident: {{service}}');
+    expect(template.tasks[0]).toEqual({ text: 'Check the {{service}} dashboards' });
+    expect(template.tasks[1]).toEqual({ indent: 1, text: 'Page the {{ team }} on-call' });
+});
+
+test('fills in the placeholder variables', () => {
+    const template = createTemplate(incident());
+
+    expect(findVariables(template)).toEqual(['service', 'team']);
+
+    const data = fillTemplate(template, { service: 'payments' });
+
+    expect(data.title).toBe('Incident: payments');
+    expect(data.tasks.map((task) => task.text)).toEqual([
+        'Check the payments dashboards',
+        'Page the {{ team }} on-call',
+        'Write the report for payments',
+    ]);
+    expect(data.tasks.every((task) => !task.done)).toBe(true);
+    expect(data.tasks[1].indent).toBe(1);
+});
+
+test('keeps templates out of the checklist keys', async () => {
+    const storage = new MemoryStorage('checklist');
+    const template = createTemplate(incident());
+
+    await saveTemplate(storage, template);
+
+    expect(await storage.keys()).toHaveLength(0);
+    expect((await getTemplates(storage)).map((current) => current.id)).toEqual([template.id]);
+
+    await deleteTemplate(storage, template.id);
+
+    expect(await getTemplates(storage)).toHaveLength(0);
+});
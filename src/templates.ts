@@ -0,0 +1,157 @@
+import Storage from './storage';
+import { createTask } from './checklists';
+import { generateUUID } from './helpers';
+import { SCHEMA_VERSION } from './migrations';
+import { TEMPLATE_PREFIX } from './prefixes';
+import { ChecklistData } from './types';
+
+// Declared as a type, so templates can be saved as plain storage records.
+export type TemplateData = {
+    id: number; // Unique id, also the key of the template in storage.
+    tasks: { indent?: number; text: string }[]; // The tasks every checklist starts with.
+    time: number; // Time the template was saved.
+    title: string; // Title of the template, also used as the title of new checklists.
+};
+
+// Matches placeholder variables like `{{service}}`.
+const VARIABLE = /{{\s*([\w-]+)\s*}}/g;
+
+/**
+ * getTemplates
+ *
+ * Get all saved templates, sorted by title.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @returns {Promise<TemplateData[]>}
+ * @version 1.0.0
+ */
+export async function getTemplates(storage: Storage): Promise<TemplateData[]> {
+    const scoped = storage.scope(TEMPLATE_PREFIX);
+    const templates: TemplateData[] = [];
+
+    for (const key of await scoped.keys()) {
+        const template = (await scoped.get(key)) as TemplateData | null;
+
+        if (template && Array.isArray(template.tasks)) {
+            templates.push(template);
+        }
+    }
+
+    return templates.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * saveTemplate
+ *
+ * Save the given template, replacing any template with the same id.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {TemplateData} template The template to save
+ * @version 1.0.0
+ */
+export async function saveTemplate(storage: Storage, template: TemplateData): Promise<void> {
+    await storage.scope(TEMPLATE_PREFIX).set(template.id.toString(), template);
+}
+
+/**
+ * deleteTemplate
+ *
+ * Remove the template with the given id.
+ *
+ * @export
+ * @param {Storage} storage The storage holding the checklists
+ * @param {number} id Id of the template
+ * @version 1.0.0
+ */
+export async function deleteTemplate(storage: Storage, id: number): Promise<void> {
+    await storage.scope(TEMPLATE_PREFIX).delete(id.toString());
+}
+
+/**
+ * createTemplate
+ *
+ * Turn the given checklist into a template.
+ * Only the title and the task structure are kept, completion and due dates are left out.
+ *
+ * @export
+ * @param {ChecklistData} data The checklist to turn into a template
+ * @param {number} [time=Date.now()] Time the template is saved
+ * @returns {TemplateData}
+ * @version 1.0.0
+ */
+export function createTemplate(data: ChecklistData, time: number = Date.now()): TemplateData {
+    return {
+        id: generateUUID(),
+        tasks: data.tasks.map((task) => (task.indent ? { indent: task.indent, text: task.text } : { text: task.text })),
+        time: time,
+        title: data.title,
+    };
+}
+
+/**
+ * findVariables
+ *
+ * List the placeholder variables used in the title and tasks of the given template, in order of appearance.
+ *
+ * @export
+ * @param {TemplateData} template The template to look at
+ * @returns {string[]}
+ * @version 1.0.0
+ */
+export function findVariables(template: TemplateData): string[] {
+    const variables: string[] = [];
+
+    for (const text of [template.title, ...template.tasks.map((task) => task.text)]) {
+        for (const match of Array.from(text.matchAll(VARIABLE))) {
+            if (!variables.includes(match[1])) {
+                variables.push(match[1]);
+            }
+        }
+    }
+
+    return variables;
+}
+
+/**
+ * fillText
+ *
+ * Replace the placeholder variables in the given text with their values.
+ * Variables without a value are left as they are.
+ *
+ * @export
+ * @param {string} text The text holding the variables
+ * @param {Record<string, string>} values Values by variable name
+ * @returns {string}
+ * @version 1.0.0
+ */
+export function fillText(text: string, values: Record<string, string>): string {
+    return text.replace(VARIABLE, (placeholder, name: string) => (values[name] ? values[name] : placeholder));
+}
+
+/**
+ * fillTemplate
+ *
+ * Create a new checklist from the given template, with its variables filled in.
+ * The checklist is not saved, it's meant to be completed in the `edit` template first.
+ *
+ * @export
+ * @param {TemplateData} template The template to start from
+ * @param {Record<string, string>} values Values by variable name
+ * @returns {ChecklistData}
+ * @version 1.0.0
+ */
+export function fillTemplate(template: TemplateData, values: Record<string, string>): ChecklistData {
+    return {
+        complete: false,
+        id: generateUUID(),
+        revision: 0,
+        tasks: template.tasks.map((task) =>
+            Object.assign(createTask(fillText(task.text, values)), task.indent ? { indent: task.indent } : {})
+        ),
+        time: Date.now(),
+        title: fillText(template.title, values),
+        version: SCHEMA_VERSION,
+    };
+}
@@ -0,0 +1,44 @@
+import { createTask } from '../checklists';
+import { SCHEMA_VERSION } from '../migrations';
+import { ChecklistData, TaskData } from '../types';
+
+/**
+ * checklist
+ *
+ * Create a checklist for tests, with the given fields replacing the defaults.
+ * Without overrides it has no tasks and is created at the time of its id.
+ *
+ * @export
+ * @param {number} [id=1] Id of the checklist
+ * @param {Partial<ChecklistData>} [overrides={}] Fields to set on the checklist
+ * @returns {ChecklistData}
+ * @version 1.0.0
+ */
+export function checklist(id: number = 1, overrides: Partial<ChecklistData> = {}): ChecklistData {
+    return Object.assign(
+        {
+            complete: false,
+            id: id,
+            revision: 0,
+            tasks: [],
+            time: id,
+            title: `Checklist ${id}`,
+            version: SCHEMA_VERSION,
+        },
+        overrides
+    );
+}
+
+/**
+ * tasksDone
+ *
+ * Create a task for each of the given values, done or not.
+ *
+ * @export
+ * @param {boolean[]} done Whether each task is done
+ * @returns {TaskData[]}
+ * @version 1.0.0
+ */
+export function tasksDone(done: boolean[]): TaskData[] {
+    return done.map((value) => Object.assign(createTask('Task'), { done: value }));
+}
@@ -1,8 +1,37 @@
+export interface TaskData {
+    done: boolean;
+    doneTime: number | null;
+    due?: number;
+    id: number;
+    indent?: number;
+    priority?: Priority;
+    text: string;
+}
+
+export type Priority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface Recurrence {
+    day?: number;
+    days: number[];
+    mode: 'reset' | 'clone';
+    next: number;
+    rule: 'daily' | 'weekdays' | 'weekly' | 'monthly';
+}
+
 export interface ChecklistData {
     complete: boolean;
-    done: string[];
+    deleted?: number;
+    due?: number;
+    folder?: number;
     id: number;
-    tasks: string[];
+    modified?: number;
+    pinned?: number;
+    priority?: Priority;
+    recurrence?: Recurrence;
+    revision: number;
+    tags?: string[];
+    tasks: TaskData[];
     title: string;
     time: number;
+    version: number;
 }